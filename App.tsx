@@ -1,79 +1,196 @@
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { VideoUploader } from './components/VideoUploader';
 import { ShotList } from './components/ShotList';
-import { Shot } from './types';
-import { analyzeFrameWithGemini, generateImageWithNanoBanana } from './services/gemini';
+import { VideoPlayer, VideoPlayerHandle } from './components/VideoPlayer';
+import { ColorScript } from './components/ColorScript';
+import { ProjectLibrary } from './components/ProjectLibrary';
+import { TemplateManager } from './components/TemplateManager';
+import { FilmSummary } from './components/FilmSummary';
+import { AnalysisJobBar } from './components/AnalysisJobBar';
+import { AnalysisCacheManager } from './components/AnalysisCacheManager';
+import { RequestQueueStatus } from './components/RequestQueueStatus';
+import { AiSettingsModal } from './components/AiSettingsModal';
+import { Shot, ExtractedShot, ExtractionSettings, SubtitleCue, EditableAnalysisField, AnalysisTemplate, FilmCritique, Scene, AiSettings } from './types';
+import { isAbortError, isRateLimitError, pauseApiQueue, resumeApiQueue, RequestPriority } from './services/requestQueue';
+import { loadAiSettings, saveAiSettings, clearAiSettings, hasStoredAiSettings, isTaskReady, describeAnalysisVersion, requestShotAnalysis, requestFilmCritique, requestSceneDescription, requestImage } from './services/ai';
+import { AnalysisBatch, addBatchJob, completeBatchJob, pauseBatch, resumeBatch } from './services/analysisJobs';
+import { createAnalysisCacheKey, readCachedAnalysis, writeCachedAnalysis } from './services/analysisCache';
 import { exportToWord } from './services/export';
-import { Clapperboard, Settings, X, Save, Download, FileText, Printer, ChevronDown, Globe } from 'lucide-react';
+import { extractShots, captureKeyframes } from './services/extraction';
+import { splitShot, mergeWithNext, retimeShot, getShotKeyframes } from './services/shotEdits';
+import { AudioTrack, decodeAudioTrack, remeasureChangedShots } from './services/audio';
+import { cuesForShot, realignChangedShots } from './services/subtitles';
+import { extractPalette } from './services/palette';
+import { applyAnalysisEdit, getEffectiveAnalysis } from './services/analysisEdits';
+import { ShotHistory, revertChange } from './services/history';
+import { computeFilmStatistics, describeFilmForCritique } from './services/filmSummary';
+import { createSceneId, detectSceneStarts, applySceneStarts, groupShotsByScene, startSceneAt, mergeSceneWithPrevious, describeSceneForPrompt, pickSceneFrames } from './services/scenes';
+import { I18nContext, MessageKey, UiLanguage, AnalysisLanguage, UI_LANGUAGES, ANALYSIS_LANGUAGES, LANGUAGE_TAGS, createTranslator, describeError, LocalizedError, loadUiLanguage, saveUiLanguage, loadAnalysisLanguage, saveAnalysisLanguage } from './services/i18n';
+import { getBuiltInTemplates, findTemplate, loadCustomTemplates, saveCustomTemplates, loadActiveTemplateId, saveActiveTemplateId } from './services/templates';
+import { exportProjectFile, readProjectFile, PROJECT_FILE_EXTENSION } from './services/projectFile';
+import { createSessionSource, createSessionId, titleFromFileName, saveSession, loadSession, loadLatestSession, prepareRestoredShots, matchesSessionSource, SessionSource, StoredSession } from './services/sessionStore';
+import { Clapperboard, Settings, Download, FileText, Printer, ChevronDown, Loader2, History, Link, Play, FolderOpen, Package, Undo2, Redo2, LayoutTemplate, Languages, Database } from 'lucide-react';
+
+// Quiet period before changed shots are written to IndexedDB
+const AUTOSAVE_DELAY = 1000;
 
 const App: React.FC = () => {
   const [shots, setShots] = useState<Shot[]>([]);
   
-  // API Key Management State
-  const [apiKey, setApiKey] = useState<string>(() => {
-    return process.env.API_KEY || localStorage.getItem('huanxi_api_key') || '';
-  });
-  const [baseUrl, setBaseUrl] = useState<string>(() => {
-    return localStorage.getItem('huanxi_base_url') || '';
-  });
+  // Background extraction job (null when idle)
+  const [extractionProgress, setExtractionProgress] = useState<number | null>(null);
+  const extractionAbortRef = useRef<AbortController | null>(null);
+  // Source of the current breakdown, kept so shots can be edited against the real footage
+  const [source, setSource] = useState<{ file: File; settings: ExtractionSettings; subtitles?: SubtitleCue[] } | null>(null);
+  const [videoUrl, setVideoUrl] = useState<string | null>(null);
+  const [playbackTime, setPlaybackTime] = useState<number | null>(null);
+  const playerRef = useRef<VideoPlayerHandle>(null);
+  // Decoded soundtrack: the promise gates analysis, the value serves synchronous edits
+  const audioTrackPromiseRef = useRef<Promise<AudioTrack | null>>(Promise.resolve(null));
+  const audioTrackRef = useRef<AudioTrack | null>(null);
+  // Persisted description of the source; outlives `source` when a session is restored
+  const [sourceInfo, setSourceInfo] = useState<SessionSource | null>(null);
+  // Library record the current breakdown is autosaved to
+  const [project, setProject] = useState<Pick<StoredSession, 'id' | 'title' | 'createdAt'> | null>(null);
+  // Last autosaved session, offered for restore while nothing is loaded
+  const [savedSession, setSavedSession] = useState<StoredSession | null>(null);
+  const [libraryVersion, setLibraryVersion] = useState(0);
+  // Undo / redo of user operations on the shot list; the version re-renders the buttons
+  const historyRef = useRef(new ShotHistory());
+  const historyEntryIdRef = useRef(0);
+  const [, setHistoryVersion] = useState(0);
+  // Whole-film critique; the request id drops answers that arrive after the breakdown changed
+  const [critique, setCritique] = useState<FilmCritique | null>(null);
+  const [isCritiquing, setIsCritiquing] = useState(false);
+  const [critiqueError, setCritiqueError] = useState<string | null>(null);
+  const critiqueRequestRef = useRef(0);
+  // Scene headings and synopses; which shots make up a scene is stored on the shots
+  const [scenes, setScenes] = useState<Scene[]>([]);
+  const [isDetectingScenes, setIsDetectingScenes] = useState(false);
+  // Running analyses by shot id, so they can be cancelled
+  const analysisJobsRef = useRef(new Map<string, AbortController>());
+  const [analysisBatch, setAnalysisBatch] = useState<AnalysisBatch | null>(null);
+  const [isAnalysisPaused, setIsAnalysisPaused] = useState(false);
+  const [selectedShotIds, setSelectedShotIds] = useState<Set<string>>(new Set());
+  const relinkInputRef = useRef<HTMLInputElement>(null);
+  const projectInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    loadLatestSession(t).then(setSavedSession);
+  }, []);
+
+  // Autosave. An empty list never overwrites the last session, so a reset can be undone.
+  useEffect(() => {
+    if (shots.length === 0 || !project) return;
+    const timer = setTimeout(() => {
+      saveSession({ ...project, source: sourceInfo, shots, critique, scenes }).catch(error => console.warn("Autosave failed:", error));
+    }, AUTOSAVE_DELAY);
+    return () => clearTimeout(timer);
+  }, [shots, sourceInfo, project, critique, scenes]);
+
+  // The player needs its own object URL for as long as the source is loaded
+  useEffect(() => {
+    if (!source) {
+      setVideoUrl(null);
+      setPlaybackTime(null);
+      return;
+    }
+    const url = URL.createObjectURL(source.file);
+    setVideoUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [source?.file]);
+
+  const mergedFrameCount = shots.reduce((sum, s) => sum + (s.mergedFrames ?? 0), 0);
+  const pendingShots = shots.filter(s => s.status === 'pending');
+  const selectedShots = shots.filter(s => selectedShotIds.has(s.id) && s.status !== 'analyzing');
+  const { nextUndo, nextRedo } = historyRef.current;
+
+  const activeShotId = playbackTime === null
+    ? null
+    : shots.find(s => playbackTime >= s.timestamp && playbackTime < s.timestamp + s.duration)?.id ?? null;
+  
+  // Which AI provider runs each task, with the providers' credentials
+  const [aiSettings, setAiSettings] = useState<AiSettings>(loadAiSettings);
   
   const [showSettings, setShowSettings] = useState(false);
   const [showExportMenu, setShowExportMenu] = useState(false);
-  
-  const [tempKey, setTempKey] = useState('');
-  const [tempBaseUrl, setTempBaseUrl] = useState('');
+
+  // Interface language (labels, exports) and the language the analysis is written in
+  const [uiLanguage, setUiLanguage] = useState<UiLanguage>(loadUiLanguage);
+  const [analysisLanguage, setAnalysisLanguage] = useState<AnalysisLanguage>(() => loadAnalysisLanguage(loadUiLanguage()));
+  const [showLanguageMenu, setShowLanguageMenu] = useState(false);
+  const i18n = useMemo(() => ({ language: uiLanguage, t: createTranslator(uiLanguage) }), [uiLanguage]);
+  const { t } = i18n;
 
   useEffect(() => {
-    // Check initial config
-    const storedKey = localStorage.getItem('huanxi_api_key');
-    const storedBaseUrl = localStorage.getItem('huanxi_base_url');
-    const envKey = process.env.API_KEY;
+    document.documentElement.lang = LANGUAGE_TAGS[uiLanguage];
+  }, [uiLanguage]);
 
-    if (!envKey && !storedKey && !storedBaseUrl) {
+  // Analysis templates: extra fields compiled into the analysis prompt and schema
+  const [customTemplates, setCustomTemplates] = useState<AnalysisTemplate[]>(loadCustomTemplates);
+  const [activeTemplateId, setActiveTemplateId] = useState(loadActiveTemplateId);
+  const [showTemplates, setShowTemplates] = useState(false);
+  const [showCacheManager, setShowCacheManager] = useState(false);
+  const builtInTemplates = useMemo(() => getBuiltInTemplates(t), [t]);
+  const templates = [...builtInTemplates, ...customTemplates];
+  const activeTemplate = findTemplate(templates, activeTemplateId);
+  
+  useEffect(() => {
+    // Check initial config
+    if (!isTaskReady(aiSettings, 'analysis')) {
       setShowSettings(true);
     }
   }, []);
 
-  const handleSaveSettings = () => {
-    const keyToSave = tempKey.trim();
-    const urlToSave = tempBaseUrl.trim();
+  const handleSaveSettings = (settings: AiSettings) => {
+    saveAiSettings(settings);
+    setAiSettings(settings);
+    setShowSettings(false);
+  };
 
-    if (urlToSave.startsWith('sk-') && urlToSave.length > 20) {
-      alert("配置错误提醒：\n\n您似乎将 API Key (sk-...) 填入到了 'Base URL' 栏中。\n\n1. 请将 sk- 开头的密钥填入上方的 'API Key' 栏。\n2. Base URL 栏应填写中转站的域名 (例如 https://api.proxy.com)。");
-      return;
-    }
+  const handleResetSettings = () => {
+    const settings = clearAiSettings();
+    setAiSettings(settings);
+    return settings;
+  };
 
-    const finalKey = keyToSave || (urlToSave ? "custom_proxy_mode" : "");
+  const handleUiLanguageChange = (language: UiLanguage) => {
+    setUiLanguage(language);
+    saveUiLanguage(language);
+  };
 
-    if (finalKey) {
-      localStorage.setItem('huanxi_api_key', finalKey);
-      setApiKey(finalKey);
-    }
-    
-    localStorage.setItem('huanxi_base_url', urlToSave);
-    setBaseUrl(urlToSave);
-    
-    setShowSettings(false);
+  const handleAnalysisLanguageChange = (language: AnalysisLanguage) => {
+    setAnalysisLanguage(language);
+    saveAnalysisLanguage(language);
+  };
+
+  const handleSelectTemplate = (templateId: string) => {
+    setActiveTemplateId(templateId);
+    saveActiveTemplateId(templateId);
   };
 
-  const handleClearKey = () => {
-    localStorage.removeItem('huanxi_api_key');
-    localStorage.removeItem('huanxi_base_url');
-    setApiKey(process.env.API_KEY || '');
-    setBaseUrl('');
-    setTempKey('');
-    setTempBaseUrl('');
+  const handleSaveTemplates = (updated: AnalysisTemplate[]) => {
+    setCustomTemplates(updated);
+    saveCustomTemplates(updated);
   };
 
   const openSettings = () => {
-    setTempKey(apiKey === "custom_proxy_mode" ? "" : apiKey);
-    setTempBaseUrl(baseUrl);
     setShowSettings(true);
   };
 
   const handleExportWord = async () => {
     setShowExportMenu(false);
-    await exportToWord(shots);
+    await exportToWord(shots, t, critique, scenes);
+  };
+
+  const handleExportProject = async () => {
+    setShowExportMenu(false);
+    try {
+      await exportProjectFile(sourceInfo, shots, critique, scenes, t);
+    } catch (error: any) {
+      console.error("Project export failed:", error);
+      alert(t('error.exportProject', { message: describeError(error, t) }));
+    }
   };
 
   const handlePrintPDF = () => {
@@ -82,10 +199,11 @@ const App: React.FC = () => {
   };
 
   const formatErrorMessage = (error: any): string => {
-    let msg = error instanceof Error ? error.message : "请求失败";
+    if (error instanceof LocalizedError) return describeError(error, t);
+    let msg = error instanceof Error ? error.message : t('error.requestFailed');
     
-    if (msg.includes("429") || msg.includes("Quota exceeded")) {
-        return "请求频繁 (429)。请点击重试。";
+    if (isRateLimitError(error)) {
+        return t('error.rateLimited');
     }
 
     try {
@@ -101,302 +219,941 @@ const App: React.FC = () => {
     }
     
     if (msg.includes("API key not valid")) {
-        return "Key 无效。请检查密钥是否正确，或代理地址是否配置正确。";
+        return t('error.invalidKey');
     }
 
     return msg;
   };
 
-  // Logic to analyze a single shot (Reusable for Retry)
-  const analyzeShot = async (shot: Shot) => {
-    if (!apiKey && !baseUrl) return;
+  // Logic to analyze a single shot (Reusable for Retry).
+  // With `previous`, the outcome is recorded for undo so the earlier result can be recovered.
+  // Starting a shot again cancels its earlier request. Analyses started by a click on one shot
+  // pass 'user' priority to go ahead of batch work.
+  const analyzeShot = async (shot: Pick<Shot, 'id' | 'timestamp' | 'duration' | 'originalImage' | 'keyframes' | 'dialogue'>, previous?: Shot, priority: RequestPriority = 'background') => {
+    if (!isTaskReady(aiSettings, 'analysis')) return;
+
+    const jobs = analysisJobsRef.current;
+    jobs.get(shot.id)?.abort();
+    const controller = new AbortController();
+    jobs.set(shot.id, controller);
+    setAnalysisBatch(batch => addBatchJob(batch));
+
+    // Results only land on a shot still waiting for them (not one deleted or undone meanwhile)
+    const finish = (label: MessageKey, patch: Partial<Shot>) => {
+      const update = (prev: Shot[]) => prev.map(s =>
+        s.id === shot.id && s.status === 'analyzing' ? { ...s, ...patch } : s
+      );
+      if (previous) {
+        commitShots(label, update, prev => prev.map(s => s.id === shot.id ? previous : s));
+      } else {
+        setShots(update);
+      }
+    };
 
     // Set status to analyzing
     setShots(prev => prev.map(s => 
       s.id === shot.id 
-        ? { ...s, status: 'analyzing', isAnalyzing: true, error: undefined } 
+        ? { ...s, status: 'analyzing', error: undefined } 
         : s
     ));
 
     try {
-      const analysis = await analyzeFrameWithGemini(shot.originalImage, apiKey, baseUrl);
+      const audioTrack = await audioTrackPromiseRef.current;
+      const audio = audioTrack ? audioTrack.measure(shot.timestamp, shot.duration) : undefined;
+      const keyframes = getShotKeyframes(shot);
+      const context = { audio, dialogue: shot.dialogue };
+      const cacheKey = await createAnalysisCacheKey(describeAnalysisVersion(aiSettings), keyframes, context, activeTemplate, analysisLanguage);
+
+      // Re-analysing a shot that already has a result asks the model again instead of the cache
+      const cached = previous?.analysis ? null : await readCachedAnalysis(cacheKey);
+      if (cached) {
+        finish('history.reanalyze', { status: 'completed', analysis: cached.analysis, analysisCachedAt: cached.createdAt });
+        return;
+      }
+
+      const analysis = await requestShotAnalysis(aiSettings, { keyframes, context, template: activeTemplate, language: analysisLanguage, priority }, controller.signal);
+      writeCachedAnalysis(cacheKey, analysis);
       
-      setShots(prev => prev.map(s => 
-        s.id === shot.id 
-          ? { ...s, status: 'completed', isAnalyzing: false, analysis } 
-          : s
-      ));
+      finish('history.reanalyze', { status: 'completed', analysis, analysisCachedAt: undefined });
     } catch (error: any) {
-      console.error("Analysis failed:", error);
-      setShots(prev => prev.map(s => 
-        s.id === shot.id 
-          ? { ...s, status: 'failed', isAnalyzing: false, error: formatErrorMessage(error) } 
-          : s
-      ));
+      if (isAbortError(error)) {
+        // Cancelled: the shot goes back to how it was, unless a newer request has taken over
+        if (jobs.get(shot.id) === controller) {
+          setShots(prev => prev.map(s => s.id === shot.id && s.status === 'analyzing'
+            ? { ...s, status: previous?.status ?? 'pending', error: previous?.error }
+            : s));
+        }
+      } else {
+        console.error("Analysis failed:", error);
+        finish('history.reanalyze', { status: 'failed', error: formatErrorMessage(error) });
+      }
+    } finally {
+      if (jobs.get(shot.id) === controller) jobs.delete(shot.id);
+      setAnalysisBatch(completeBatchJob);
     }
   };
 
+  const analyzeShots = (targets: Shot[]) => {
+    targets.forEach(shot => analyzeShot(shot, shot));
+  };
+
+  const handlePauseAnalysis = () => {
+    pauseApiQueue();
+    setIsAnalysisPaused(true);
+    setAnalysisBatch(batch => pauseBatch(batch));
+  };
+
+  const handleResumeAnalysis = () => {
+    resumeApiQueue();
+    setIsAnalysisPaused(false);
+    setAnalysisBatch(batch => resumeBatch(batch));
+  };
+
+  // Cancelled shots return to their previous state; the queue is unpaused for what comes next
+  const cancelAllAnalyses = () => {
+    analysisJobsRef.current.forEach(controller => controller.abort());
+    handleResumeAnalysis();
+  };
+
+  // The pause would otherwise hold back unrelated requests (critique, images) once nothing is left
+  useEffect(() => {
+    if (!analysisBatch && isAnalysisPaused) handleResumeAnalysis();
+  }, [analysisBatch, isAnalysisPaused]);
+
+  const handleRetryFailed = () => {
+    analyzeShots(shots.filter(s => s.status === 'failed'));
+  };
+
+  const handleReanalyzeAll = () => {
+    const targets = shots.filter(s => s.status !== 'analyzing');
+    if (targets.length === 0 || !window.confirm(t('confirm.reanalyzeAll', { count: targets.length }))) return;
+    analyzeShots(targets);
+  };
+
+  const handleAnalyzeSelected = () => {
+    analyzeShots(selectedShots);
+    setSelectedShotIds(new Set());
+  };
+
+  const handleToggleSelected = (shotId: string) => {
+    setSelectedShotIds(prev => {
+      const next = new Set(prev);
+      if (next.has(shotId)) next.delete(shotId); else next.add(shotId);
+      return next;
+    });
+  };
+
+  // Palettes are computed locally from the shot frame and never block analysis
+  const computePalette = (shotId: string, image: string) => {
+    extractPalette(image)
+      .then(palette => setShots(prev => prev.map(s => s.id === shotId ? { ...s, palette } : s)))
+      .catch(error => console.warn("Palette extraction failed:", error));
+  };
+
+  /**
+   * Applies a user operation to the shot list and records it for undo. `restore` gives the
+   * state undo should return to when the operation already changed things before it finished.
+   */
+  const commitShots = (label: MessageKey, update: (prev: Shot[]) => Shot[], restore?: (prev: Shot[]) => Shot[]) => {
+    const id = ++historyEntryIdRef.current;
+    setShots(prev => {
+      const next = update(prev);
+      historyRef.current.record({ id, label, before: restore ? restore(prev) : prev, after: next });
+      return next;
+    });
+    setHistoryVersion(v => v + 1);
+  };
+
+  const clearHistory = () => {
+    historyRef.current.clear();
+    setHistoryVersion(v => v + 1);
+  };
+
+  const resetCritique = (saved: FilmCritique | null = null) => {
+    critiqueRequestRef.current++;
+    setCritique(saved);
+    setIsCritiquing(false);
+    setCritiqueError(null);
+  };
+
+  const handleUndo = () => {
+    const entry = historyRef.current.undo();
+    if (!entry) return;
+    setShots(prev => revertChange(entry.before, entry.after, prev));
+    setHistoryVersion(v => v + 1);
+  };
+
+  const handleRedo = () => {
+    const entry = historyRef.current.redo();
+    if (!entry) return;
+    setShots(prev => revertChange(entry.after, entry.before, prev));
+    setHistoryVersion(v => v + 1);
+  };
+
+  // Ctrl+Z / Ctrl+Shift+Z (and Ctrl+Y); text fields keep their own undo
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return;
+      if (!(event.ctrlKey || event.metaKey)) return;
+
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        handleUndo();
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault();
+        handleRedo();
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+
   // Manual Retry Handler
   const handleRetryAnalysis = (shotId: string) => {
       const shot = shots.find(s => s.id === shotId);
       if (shot) {
-          analyzeShot(shot);
+          analyzeShot(shot, shot, 'user');
       }
   };
 
+  // Whole-film critique from the per-shot analyses
+  const handleGenerateCritique = async () => {
+    if (!isTaskReady(aiSettings, 'writing')) {
+      setShowSettings(true);
+      return;
+    }
+    const requestId = ++critiqueRequestRef.current;
+    const stats = computeFilmStatistics(shots);
+    setIsCritiquing(true);
+    setCritiqueError(null);
+    try {
+      const result = await requestFilmCritique(aiSettings, describeFilmForCritique(shots, stats), analysisLanguage);
+      if (critiqueRequestRef.current !== requestId) return;
+      setCritique({ ...result, analyzedShots: stats.analyzedCount, createdAt: Date.now() });
+    } catch (error: any) {
+      if (critiqueRequestRef.current !== requestId) return;
+      console.error("Critique failed:", error);
+      setCritiqueError(t('error.critique', { message: formatErrorMessage(error) }));
+    } finally {
+      if (critiqueRequestRef.current === requestId) setIsCritiquing(false);
+    }
+  };
+
   // Delete Shot Handler (Removed window.confirm for immediate feedback)
   const handleDeleteShot = (shotId: string) => {
-    setShots(prev => prev.filter(s => s.id !== shotId));
+    analysisJobsRef.current.get(shotId)?.abort();
+    // Undo brings a shot whose analysis was cancelled back as pending
+    commitShots('history.delete', prev => prev.filter(s => s.id !== shotId), prev => prev.map(s =>
+      s.id === shotId && s.status === 'analyzing' ? { ...s, status: 'pending' } : s
+    ));
   };
 
-  const handleFramesExtracted = useCallback(async (frames: { time: number; image: string }[]) => {
-    if (!apiKey && !baseUrl) {
+  const startAudioDecoding = (file: File, settings: ExtractionSettings) => {
+    audioTrackRef.current = null;
+    const audioTrackPromise = decodeAudioTrack(file, settings.startTime, settings.endTime).catch((error) => {
+      console.warn("Audio analysis failed:", error);
+      // A newer extraction has replaced this one; its failure no longer matters
+      if (audioTrackPromiseRef.current === audioTrackPromise) {
+        alert(t('error.audioAnalysis', { message: describeError(error, t) }));
+      }
+      return null;
+    });
+    audioTrackPromiseRef.current = audioTrackPromise;
+    audioTrackPromise.then(track => {
+      if (!track || audioTrackPromiseRef.current !== audioTrackPromise) return;
+      audioTrackRef.current = track;
+      setShots(prev => prev.map(s => s.audioFeatures ? s : { ...s, audioFeatures: track.measure(s.timestamp, s.duration) }));
+    });
+  };
+
+  const handleStartExtraction = useCallback(async (file: File, settings: ExtractionSettings, videoDuration: number, subtitles?: SubtitleCue[]) => {
+    if (!isTaskReady(aiSettings, 'analysis')) {
       setShowSettings(true);
       return;
     }
 
-    const newShots: Shot[] = frames.map((frame, index) => {
-      const nextTime = frames[index + 1] ? frames[index + 1].time : frame.time + 3;
-      const duration = Math.round((nextTime - frame.time) * 10) / 10;
+    extractionAbortRef.current?.abort();
+    const controller = new AbortController();
+    extractionAbortRef.current = controller;
 
-      return {
-        id: `shot-${Date.now()}-${index}`,
+    setShots([]);
+    clearHistory();
+    resetCritique();
+    setScenes([]);
+    setSource({ file, settings, subtitles });
+    setSourceInfo(createSessionSource(file, settings, videoDuration, subtitles));
+    setProject({ id: createSessionId(), title: titleFromFileName(file.name, t), createdAt: Date.now() });
+    setSavedSession(null);
+    setExtractionProgress(0);
+
+    // Soundtrack decoding runs alongside extraction; shots measured once it's ready
+    startAudioDecoding(file, settings);
+
+    const runId = Date.now();
+    let index = 0;
+
+    // Shots stream in as extraction proceeds; each one is analyzed right away
+    const handleShot = (frame: ExtractedShot) => {
+      const shot: Shot = {
+        id: `shot-${runId}-${index++}`,
         timestamp: frame.time,
-        duration: duration,
+        duration: frame.duration,
         originalImage: frame.image,
+        keyframes: frame.keyframes,
+        mergedFrames: frame.mergedFrames,
+        audioFeatures: audioTrackRef.current?.measure(frame.time, frame.duration),
+        dialogue: subtitles ? cuesForShot(subtitles, frame.time, frame.duration) : undefined,
         
         // Initial Status: Pending but immediately analyzing
         status: 'analyzing',
-        isAnalyzing: true, 
         isGeneratingImage: false
       };
-    });
 
-    setShots(newShots);
-    
-    // Concurrent execution: Trigger analysis for all shots immediately
-    newShots.forEach(shot => {
-        analyzeShot(shot);
-    });
+      setShots(prev => [...prev, shot]);
+      analyzeShot(shot);
+      computePalette(shot.id, shot.originalImage);
+    };
+
+    try {
+      await extractShots(file, settings, {
+        signal: controller.signal,
+        onShot: handleShot,
+        onProgress: (progress) => {
+          if (!controller.signal.aborted) setExtractionProgress(progress);
+        },
+      });
+    } catch (error: any) {
+      console.error("Extraction failed:", error);
+      if (!controller.signal.aborted) {
+        alert(t('error.extraction', { message: describeError(error, t) }));
+      }
+    } finally {
+      if (extractionAbortRef.current === controller) {
+        extractionAbortRef.current = null;
+        setExtractionProgress(null);
+      }
+    }
+
+  }, [aiSettings, activeTemplate, analysisLanguage, t]);
+
+  const handleCancelExtraction = () => {
+    extractionAbortRef.current?.abort();
+    extractionAbortRef.current = null;
+    setExtractionProgress(null);
+  };
+
+  const handleReset = () => {
+    handleCancelExtraction();
+    cancelAllAnalyses();
+    setSelectedShotIds(new Set());
+    // Flush the latest state so the project is up to date in the library
+    if (shots.length > 0 && project) {
+      saveSession({ ...project, source: sourceInfo, shots, critique, scenes })
+        .then(() => setLibraryVersion(v => v + 1))
+        .catch(error => console.warn("Autosave failed:", error));
+    }
+    setShots([]);
+    clearHistory();
+    resetCritique();
+    setScenes([]);
+    setSource(null);
+    setSourceInfo(null);
+    setProject(null);
+    audioTrackRef.current = null;
+    audioTrackPromiseRef.current = Promise.resolve(null);
+  };
+
+  // Replaces the workspace with saved shots; the video has to be re-linked by the user
+  const loadSavedShots = (saved: Pick<StoredSession, 'id' | 'title' | 'createdAt' | 'source' | 'shots' | 'critique' | 'scenes'>) => {
+    handleCancelExtraction();
+    cancelAllAnalyses();
+    setSelectedShotIds(new Set());
+    setProject({ id: saved.id, title: saved.title, createdAt: saved.createdAt });
+    setShots(prepareRestoredShots(saved.shots));
+    clearHistory();
+    resetCritique(saved.critique ?? null);
+    // A description that was being written when the session was saved never arrives
+    setScenes((saved.scenes ?? []).map(({ isDescribing, ...scene }) => scene));
+    setSourceInfo(saved.source);
+    setSource(null);
+    setSavedSession(null);
+    audioTrackRef.current = null;
+    audioTrackPromiseRef.current = Promise.resolve(null);
+  };
+
+  const handleRestoreSession = () => {
+    if (savedSession) loadSavedShots(savedSession);
+  };
+
+  const handleOpenProject = async (projectId: string) => {
+    const saved = await loadSession(projectId, t);
+    if (saved) {
+      loadSavedShots(saved);
+    } else {
+      alert(t('error.projectMissing'));
+      setLibraryVersion(v => v + 1);
+    }
+  };
+
+  const handleImportProject = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
 
-  }, [apiKey, baseUrl]);
+    try {
+      const imported = await readProjectFile(file);
+      // An imported file becomes a new library project
+      loadSavedShots({
+        id: createSessionId(),
+        title: titleFromFileName(imported.source?.fileName ?? file.name, t),
+        createdAt: Date.now(),
+        source: imported.source,
+        shots: imported.shots,
+        critique: imported.critique,
+        scenes: imported.scenes,
+      });
+    } catch (error: any) {
+      console.error("Project import failed:", error);
+      alert(t('error.openProjectFile', { message: describeError(error, t) }));
+    }
+  };
+
+  // Restored sessions don't carry the video itself; re-linking enables playback and splitting
+  const handleRelinkVideo = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file || !sourceInfo) return;
+
+    if (!matchesSessionSource(sourceInfo, file)
+      && !window.confirm(t('confirm.relinkMismatch', { fileName: sourceInfo.fileName }))) {
+      return;
+    }
+    setSource({ file, settings: sourceInfo.settings, subtitles: sourceInfo.subtitles });
+    startAudioDecoding(file, sourceInfo.settings);
+  };
+
+  const handleResumePending = () => {
+    pendingShots.forEach(shot => analyzeShot(shot));
+  };
+
+  // Edits change shot ranges, so timing-derived data is refreshed for the shots they touched
+  const applyEdit = (before: Shot[], after: Shot[]) => {
+    return realignChangedShots(sourceInfo?.subtitles, before, remeasureChangedShots(audioTrackRef.current, before, after));
+  };
+
+  // Shot editing: split grabs fresh keyframes for the new second half and analyzes it
+  const handleSplitShot = async (shotId: string, time: number) => {
+    const shot = shots.find(s => s.id === shotId);
+    if (!source || !shot) return;
+
+    try {
+      const keyframes = await captureKeyframes(source.file, time, shot.timestamp + shot.duration, source.settings);
+      const newShot = { id: `shot-${Date.now()}-split`, timestamp: time, originalImage: keyframes[0].image, keyframes };
+      const duration = shot.timestamp + shot.duration - time;
+
+      commitShots('history.split', prev => applyEdit(prev, splitShot(prev, shotId, time, newShot)));
+      computePalette(newShot.id, newShot.originalImage);
+      analyzeShot({ ...newShot, duration, dialogue: source.subtitles && cuesForShot(source.subtitles, time, duration) }, undefined, 'user');
+    } catch (error: any) {
+      console.error("Split failed:", error);
+      alert(t('error.split', { message: describeError(error, t) }));
+    }
+  };
+
+  const handleMergeShot = (shotId: string, keepAnalysis: boolean) => {
+    commitShots('history.merge', prev => applyEdit(prev, mergeWithNext(prev, shotId, keepAnalysis)));
+    if (!keepAnalysis) {
+      const merged = applyEdit(shots, mergeWithNext(shots, shotId, false)).find(s => s.id === shotId);
+      if (merged) analyzeShot(merged, undefined, 'user');
+    }
+  };
+
+  const handleRetimeShot = (shotId: string, newStart: number) => {
+    commitShots('history.retime', prev => applyEdit(prev, retimeShot(prev, shotId, newStart)));
+  };
+
+  // Human corrections live beside the AI analysis, so later re-analysis can't overwrite them
+  const handleEditAnalysis = (shotId: string, field: EditableAnalysisField, value: string | null) => {
+    commitShots('history.editAnalysis', prev => prev.map(s => s.id === shotId ? applyAnalysisEdit(s, field, value) : s));
+  };
+
+  // Results only land on a scene still marked as describing, i.e. not reset or reloaded since
+  const describeScene = async (sceneId: string, sceneShots: Shot[], priority: RequestPriority) => {
+    const describedShotIds = sceneShots.map(s => s.id);
+    setScenes(prev => prev.some(s => s.id === sceneId)
+      ? prev.map(s => s.id === sceneId ? { ...s, isDescribing: true, error: undefined } : s)
+      : [...prev, { id: sceneId, isDescribing: true }]);
+    try {
+      const description = await requestSceneDescription(aiSettings, describeSceneForPrompt(sceneShots), pickSceneFrames(sceneShots), analysisLanguage, priority);
+      setScenes(prev => prev.map(s => s.id === sceneId && s.isDescribing ? { ...s, description, describedShotIds, isDescribing: false } : s));
+    } catch (error: any) {
+      console.error(`Scene ${sceneId} description failed:`, error);
+      setScenes(prev => prev.map(s => s.id === sceneId && s.isDescribing ? { ...s, isDescribing: false, error: formatErrorMessage(error) } : s));
+    }
+  };
+
+  // Groups the shots into scenes (undoable), then has every scene described
+  const handleDetectScenes = async () => {
+    if (!isTaskReady(aiSettings, 'writing')) {
+      setShowSettings(true);
+      return;
+    }
+    setIsDetectingScenes(true);
+    try {
+      const starts = new Map((await detectSceneStarts(shots)).map(shotId => [shotId, createSceneId()]));
+      commitShots('history.detectScenes', prev => applySceneStarts(prev, starts));
+      // Every shot gets a new scene id, so the previous scenes' records are left with no shots
+      const sceneIds = new Set(starts.values());
+      setScenes(prev => prev.filter(scene => sceneIds.has(scene.id)));
+      // Describing every scene is batch work; clicks elsewhere go first
+      groupShotsByScene(applySceneStarts(shots, starts)).forEach(group => {
+        if (group.sceneId) describeScene(group.sceneId, group.shots, 'background');
+      });
+    } catch (error: any) {
+      console.error("Scene detection failed:", error);
+      alert(t('error.sceneDetection', { message: describeError(error, t) }));
+    } finally {
+      setIsDetectingScenes(false);
+    }
+  };
+
+  const handleDescribeScene = (sceneId: string) => {
+    const group = groupShotsByScene(shots).find(g => g.sceneId === sceneId);
+    if (group) describeScene(sceneId, group.shots, 'user');
+  };
+
+  const handleStartScene = (shotId: string) => {
+    const sceneId = createSceneId();
+    commitShots('history.splitScene', prev => startSceneAt(prev, shotId, sceneId));
+  };
+
+  const handleMergeScene = (shotId: string) => {
+    commitShots('history.mergeScenes', prev => mergeSceneWithPrevious(prev, shotId));
+  };
+
+  const handleSeekShot = (shotId: string) => {
+    const shot = shots.find(s => s.id === shotId);
+    if (shot) playerRef.current?.playShot(shot);
+  };
 
   const handleGenerateImage = async (shotId: string) => {
-    if (!apiKey && !baseUrl) {
+    if (!isTaskReady(aiSettings, 'image')) {
       setShowSettings(true);
       return;
     }
 
     const shot = shots.find(s => s.id === shotId);
-    if (!shot || !shot.analysis?.aiPrompt) return;
+    const aiPrompt = shot && getEffectiveAnalysis(shot)?.aiPrompt;
+    if (!shot || !aiPrompt) return;
 
     setShots(prev => prev.map(s => 
       s.id === shotId ? { ...s, isGeneratingImage: true, imageGenError: undefined } : s
     ));
 
+    const update = (patch: Partial<Shot>) => (prev: Shot[]) =>
+      prev.map(s => s.id === shotId && s.isGeneratingImage ? { ...s, isGeneratingImage: false, ...patch } : s);
+
     try {
-      const generatedImageBase64 = await generateImageWithNanoBanana(shot.analysis.aiPrompt, apiKey, baseUrl);
-      
-      setShots(prev => prev.map(s => 
-        s.id === shotId ? { ...s, isGeneratingImage: false, generatedImage: generatedImageBase64 } : s
-      ));
+      const generatedImageBase64 = await requestImage(aiSettings, aiPrompt);
+      // Recorded against the shot as it was before, so undo brings back the previous image
+      commitShots(
+        shot.generatedImage ? 'history.regenerateImage' : 'history.generateImage',
+        update({ generatedImage: generatedImageBase64 }),
+        prev => prev.map(s => s.id === shotId ? shot : s)
+      );
     } catch (error: any) {
-       setShots(prev => prev.map(s => 
-        s.id === shotId ? { ...s, isGeneratingImage: false, imageGenError: formatErrorMessage(error) } : s
-      ));
+      // A failure changes nothing worth undoing
+      setShots(update({ imageGenError: formatErrorMessage(error) }));
     }
   };
 
-  const isSaveDisabled = !tempKey.trim() && !tempBaseUrl.trim();
-
   return (
-    <div className="min-h-screen bg-gray-900 text-gray-100 font-sans selection:bg-blue-500/30 print:bg-white print:text-black">
+    <I18nContext.Provider value={i18n}>
+      <div className="min-h-screen bg-gray-900 text-gray-100 font-sans selection:bg-blue-500/30 print:bg-white print:text-black">
       
-      {/* Header */}
-      <header className="border-b border-gray-800 bg-gray-900/95 sticky top-0 z-50 backdrop-blur-sm print:hidden">
-        <div className="max-w-7xl mx-auto px-4 h-16 flex items-center justify-between">
-          <div className="flex items-center gap-3">
-            <div className="bg-blue-600 p-2 rounded-lg">
-              <Clapperboard className="w-6 h-6 text-white" />
+        {/* Header */}
+        <header className="border-b border-gray-800 bg-gray-900/95 sticky top-0 z-50 backdrop-blur-sm print:hidden">
+          <div className="max-w-7xl mx-auto px-4 h-16 flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <div className="bg-blue-600 p-2 rounded-lg">
+                <Clapperboard className="w-6 h-6 text-white" />
+              </div>
+              <h1 className="text-xl font-bold bg-clip-text text-transparent bg-gradient-to-r from-blue-400 to-purple-400">
+                欢玺AI <span className="text-xs font-medium text-gray-500 ml-2 border border-gray-700 px-2 py-0.5 rounded-full">{t('app.subtitle')}</span>
+              </h1>
             </div>
-            <h1 className="text-xl font-bold bg-clip-text text-transparent bg-gradient-to-r from-blue-400 to-purple-400">
-              欢玺AI <span className="text-xs font-medium text-gray-500 ml-2 border border-gray-700 px-2 py-0.5 rounded-full">Nano Banana Edition</span>
-            </h1>
-          </div>
-          <div className="flex items-center gap-3">
-            {shots.length > 0 && (
+            <div className="flex items-center gap-3">
+              {shots.length > 0 && (
+                <div className="relative">
+                  <button 
+                    onClick={() => setShowExportMenu(!showExportMenu)}
+                    className="flex items-center gap-2 px-3 py-2 bg-gray-800 hover:bg-gray-700 rounded-lg text-sm font-medium transition-colors border border-gray-700"
+                  >
+                    <Download className="w-4 h-4 text-green-400" />
+                    {t('app.exportReport')}
+                    <ChevronDown className="w-3 h-3 text-gray-400" />
+                  </button>
+                
+                  {showExportMenu && (
+                    <div className="absolute right-0 top-full mt-2 w-48 bg-gray-800 border border-gray-700 rounded-lg shadow-xl overflow-hidden z-50 animate-[fadeIn_0.1s_ease-out]">
+                      <button 
+                        onClick={handleExportWord}
+                        className="w-full text-left px-4 py-3 hover:bg-gray-700 flex items-center gap-2 text-sm text-gray-200"
+                      >
+                        <FileText className="w-4 h-4 text-blue-400" />
+                        {t('app.exportWord')}
+                      </button>
+                      <button 
+                        onClick={handleExportProject}
+                        className="w-full text-left px-4 py-3 hover:bg-gray-700 flex items-center gap-2 text-sm text-gray-200 border-t border-gray-700"
+                      >
+                        <Package className="w-4 h-4 text-green-400" />
+                        {t('app.exportProject', { extension: PROJECT_FILE_EXTENSION })}
+                      </button>
+                      <button 
+                        onClick={handlePrintPDF}
+                        className="w-full text-left px-4 py-3 hover:bg-gray-700 flex items-center gap-2 text-sm text-gray-200 border-t border-gray-700"
+                      >
+                        <Printer className="w-4 h-4 text-purple-400" />
+                        {t('app.print')}
+                      </button>
+                    </div>
+                  )}
+                
+                  {showExportMenu && (
+                    <div 
+                      className="fixed inset-0 z-40 bg-transparent" 
+                      onClick={() => setShowExportMenu(false)}
+                    />
+                  )}
+                </div>
+              )}
+
+              <div className="h-6 w-px bg-gray-700 mx-1"></div>
+
               <div className="relative">
-                <button 
-                  onClick={() => setShowExportMenu(!showExportMenu)}
-                  className="flex items-center gap-2 px-3 py-2 bg-gray-800 hover:bg-gray-700 rounded-lg text-sm font-medium transition-colors border border-gray-700"
+                <button
+                  onClick={() => setShowLanguageMenu(!showLanguageMenu)}
+                  className="p-2 hover:bg-gray-800 rounded-full transition-colors text-gray-400 hover:text-white"
+                  title={t('language.menu')}
                 >
-                  <Download className="w-4 h-4 text-green-400" />
-                  导出报告
-                  <ChevronDown className="w-3 h-3 text-gray-400" />
+                  <Languages className="w-5 h-5" />
                 </button>
-                
-                {showExportMenu && (
-                  <div className="absolute right-0 top-full mt-2 w-48 bg-gray-800 border border-gray-700 rounded-lg shadow-xl overflow-hidden z-50 animate-[fadeIn_0.1s_ease-out]">
-                    <button 
-                      onClick={handleExportWord}
-                      className="w-full text-left px-4 py-3 hover:bg-gray-700 flex items-center gap-2 text-sm text-gray-200"
-                    >
-                      <FileText className="w-4 h-4 text-blue-400" />
-                      导出 Word (.docx)
-                    </button>
-                    <button 
-                      onClick={handlePrintPDF}
-                      className="w-full text-left px-4 py-3 hover:bg-gray-700 flex items-center gap-2 text-sm text-gray-200 border-t border-gray-700"
-                    >
-                      <Printer className="w-4 h-4 text-purple-400" />
-                      打印 / 另存为 PDF
-                    </button>
+
+                {showLanguageMenu && (
+                  <div className="absolute right-0 top-full mt-2 w-56 bg-gray-800 border border-gray-700 rounded-lg shadow-xl overflow-hidden z-50 p-3 space-y-3 animate-[fadeIn_0.1s_ease-out]">
+                    <div>
+                      <p className="text-xs font-bold uppercase tracking-wider text-gray-500 mb-1">{t('language.ui')}</p>
+                      <div className="flex gap-1">
+                        {UI_LANGUAGES.map(language => (
+                          <button
+                            key={language}
+                            onClick={() => handleUiLanguageChange(language)}
+                            className={`flex-1 px-2 py-1.5 rounded text-sm transition-colors ${language === uiLanguage ? 'bg-blue-600 text-white' : 'bg-gray-900 text-gray-300 hover:bg-gray-700'}`}
+                          >
+                            {t(`language.ui.${language}`)}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                    <div>
+                      <p className="text-xs font-bold uppercase tracking-wider text-gray-500 mb-1">{t('language.analysis')}</p>
+                      <div className="flex flex-col gap-1">
+                        {ANALYSIS_LANGUAGES.map(language => (
+                          <button
+                            key={language}
+                            onClick={() => handleAnalysisLanguageChange(language)}
+                            className={`px-2 py-1.5 rounded text-sm text-left transition-colors ${language === analysisLanguage ? 'bg-purple-600 text-white' : 'bg-gray-900 text-gray-300 hover:bg-gray-700'}`}
+                          >
+                            {t(`language.analysis.${language}`)}
+                          </button>
+                        ))}
+                      </div>
+                      <p className="text-[10px] text-gray-500 mt-1">{t('language.analysisHint')}</p>
+                    </div>
                   </div>
                 )}
-                
-                {showExportMenu && (
-                  <div 
-                    className="fixed inset-0 z-40 bg-transparent" 
-                    onClick={() => setShowExportMenu(false)}
+
+                {showLanguageMenu && (
+                  <div
+                    className="fixed inset-0 z-40 bg-transparent"
+                    onClick={() => setShowLanguageMenu(false)}
                   />
                 )}
               </div>
-            )}
 
-            <div className="h-6 w-px bg-gray-700 mx-1"></div>
+              <button
+                onClick={() => setShowTemplates(true)}
+                className="flex items-center gap-2 px-3 py-2 hover:bg-gray-800 rounded-lg transition-colors text-sm text-gray-400 hover:text-white"
+                title={t('app.templates')}
+              >
+                <LayoutTemplate className="w-5 h-5" />
+                <span className="hidden sm:inline max-w-[8rem] truncate">{activeTemplate.name}</span>
+              </button>
 
-            <button 
-              onClick={openSettings}
-              className="p-2 hover:bg-gray-800 rounded-full transition-colors text-gray-400 hover:text-white"
-              title="设置 API Key & Base URL"
-            >
-              <Settings className="w-5 h-5" />
-            </button>
-          </div>
-        </div>
-      </header>
+              <button
+                onClick={() => setShowCacheManager(true)}
+                className="p-2 hover:bg-gray-800 rounded-full transition-colors text-gray-400 hover:text-white"
+                title={t('app.analysisCache')}
+              >
+                <Database className="w-5 h-5" />
+              </button>
 
-      {/* Main Content */}
-      <main className="max-w-7xl mx-auto px-4 py-8">
-        
-        {shots.length === 0 ? (
-          <div className="flex flex-col items-center justify-center min-h-[60vh] animate-[fadeIn_0.5s_ease-out]">
-            <div className="text-center mb-10 max-w-xl">
-              <h2 className="text-3xl font-bold text-white mb-4">
-                智能逐帧拉片工具
-              </h2>
-              <p className="text-gray-400 text-lg">
-                上传视频，AI 自动拆解镜头、生成专业摄影笔记，并使用 Nano Banana 模型重绘分镜。
-              </p>
-            </div>
-            <VideoUploader 
-              onFramesExtracted={handleFramesExtracted} 
-              onLoadingStart={() => setShots([])} 
-            />
-          </div>
-        ) : (
-          <div className="animate-[slideUp_0.5s_ease-out]">
-            <div className="flex justify-between items-center mb-6 no-print">
               <button 
-                onClick={() => setShots([])}
-                className="text-gray-400 hover:text-white flex items-center gap-2 px-4 py-2 hover:bg-gray-800 rounded-lg transition-colors"
+                onClick={openSettings}
+                className="p-2 hover:bg-gray-800 rounded-full transition-colors text-gray-400 hover:text-white"
+                title={t('app.apiSettings')}
               >
-                ← 上传新视频
+                <Settings className="w-5 h-5" />
               </button>
             </div>
-            <ShotList 
-                shots={shots} 
-                onGenerateImage={handleGenerateImage} 
-                onRetryAnalysis={handleRetryAnalysis}
-                onDeleteShot={handleDeleteShot}
-            />
           </div>
-        )}
+        </header>
 
-      </main>
-
-      {/* Footer */}
-      <footer className="border-t border-gray-800 mt-20 py-8 text-center text-gray-600 text-sm print:hidden">
-        <p>© 2025 Huanxi AI. All rights reserved.</p>
-      </footer>
-
-      {/* API Key Modal */}
-      {showSettings && (
-        <div className="fixed inset-0 z-[100] bg-black/80 backdrop-blur-sm flex items-center justify-center p-4 animate-[fadeIn_0.2s_ease-out]">
-          <div className="bg-gray-800 border border-gray-700 rounded-xl shadow-2xl max-w-md w-full p-6 relative">
-            <button 
-              onClick={() => setShowSettings(false)}
-              className="absolute top-4 right-4 text-gray-400 hover:text-white"
-            >
-              <X className="w-5 h-5" />
-            </button>
-
-            <div className="flex items-center gap-3 mb-6">
-              <div className="bg-purple-600/20 p-3 rounded-lg">
-                <Globe className="w-6 h-6 text-purple-400" />
-              </div>
-              <div>
-                <h3 className="text-xl font-bold text-white">配置 API 设置</h3>
-                <p className="text-xs text-gray-400">兼容官方 API 及第三方中转服务</p>
+        {/* Main Content */}
+        <main className="max-w-7xl mx-auto px-4 py-8">
+        
+          {shots.length === 0 && extractionProgress === null ? (
+            <div className="flex flex-col items-center justify-center min-h-[60vh] animate-[fadeIn_0.5s_ease-out]">
+              <div className="text-center mb-10 max-w-xl">
+                <h2 className="text-3xl font-bold text-white mb-4">
+                  {t('app.heroTitle')}
+                </h2>
+                <p className="text-gray-400 text-lg">
+                  {t('app.heroDescription')}
+                </p>
               </div>
+              {savedSession && (
+                <div className="w-full max-w-2xl mb-6 flex items-center justify-between gap-4 px-4 py-3 bg-purple-900/10 border border-purple-500/40 rounded-xl">
+                  <div className="flex items-center gap-3 min-w-0">
+                    <History className="w-5 h-5 text-purple-400 flex-shrink-0" />
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-purple-200 truncate">
+                        {t('app.restore.title', { title: savedSession.title })}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        {t('app.restore.summary', { count: savedSession.shots.length, savedAt: new Date(savedSession.savedAt).toLocaleString(LANGUAGE_TAGS[uiLanguage]) })}
+                      </p>
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2 flex-shrink-0">
+                    <button
+                      onClick={() => setSavedSession(null)}
+                      className="px-3 py-1.5 text-gray-400 hover:text-white text-sm rounded-lg transition-colors"
+                    >
+                      {t('app.restore.dismiss')}
+                    </button>
+                    <button
+                      onClick={handleRestoreSession}
+                      className="px-3 py-1.5 bg-purple-600 hover:bg-purple-500 text-white text-sm rounded-lg transition-colors"
+                    >
+                      {t('app.restore.confirm')}
+                    </button>
+                  </div>
+                </div>
+              )}
+              <VideoUploader onStartExtraction={handleStartExtraction} />
+              <input
+                type="file"
+                ref={projectInputRef}
+                onChange={handleImportProject}
+                accept={`${PROJECT_FILE_EXTENSION},.zip`}
+                className="hidden"
+              />
+              <button
+                onClick={() => projectInputRef.current?.click()}
+                className="-mt-6 flex items-center gap-2 text-sm text-gray-400 hover:text-white transition-colors"
+              >
+                <FolderOpen className="w-4 h-4" />
+                {t('app.openProjectFile', { extension: PROJECT_FILE_EXTENSION })}
+              </button>
+              <ProjectLibrary
+                refreshKey={libraryVersion}
+                onOpen={handleOpenProject}
+                onDeleted={(projectId) => {
+                  if (savedSession?.id === projectId) setSavedSession(null);
+                }}
+              />
             </div>
-
-            <div className="space-y-4">
-              <div>
-                <label className="block text-sm font-medium text-gray-300 mb-1">
-                  Base URL (API 代理地址)
-                </label>
-                <input
-                  type="text"
-                  value={tempBaseUrl}
-                  onChange={(e) => setTempBaseUrl(e.target.value)}
-                  placeholder="https://your-proxy.com"
-                  className="w-full bg-gray-900 border border-gray-700 rounded-lg px-4 py-3 text-white focus:ring-2 focus:ring-purple-500 focus:border-transparent outline-none transition-all font-mono text-sm"
-                />
-                 <p className="text-[10px] text-gray-500 mt-1">
-                   请填入中转站的域名 (如 https://api.proxy.com)。<span className="text-red-400 font-bold">请勿在此处填 Key。</span>
-                 </p>
-              </div>
-
-              <div>
-                <label className="block text-sm font-medium text-gray-300 mb-1">
-                  API Key / Proxy Key
-                </label>
-                <input
-                  type="password"
-                  value={tempKey}
-                  onChange={(e) => setTempKey(e.target.value)}
-                  placeholder={tempBaseUrl ? "sk-..." : "AIzaSy..."}
-                  className="w-full bg-gray-900 border border-gray-700 rounded-lg px-4 py-3 text-white focus:ring-2 focus:ring-purple-500 focus:border-transparent outline-none transition-all font-mono text-sm"
-                />
-                 <p className="text-[10px] text-gray-500 mt-1">
-                   在此处填入您的密钥 (sk-... 或 AIza...)。
-                 </p>
-              </div>
-
-              <div className="flex gap-3 pt-2">
-                {(localStorage.getItem('huanxi_api_key') || localStorage.getItem('huanxi_base_url')) && (
-                   <button
-                    onClick={handleClearKey}
-                    className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-lg text-sm font-medium transition-colors"
+          ) : (
+            <div className="animate-[slideUp_0.5s_ease-out]">
+              <div className="flex justify-between items-center mb-6 no-print">
+                <div className="flex items-center gap-3 min-w-0">
+                  <button 
+                    onClick={handleReset}
+                    className="text-gray-400 hover:text-white flex items-center gap-2 px-4 py-2 hover:bg-gray-800 rounded-lg transition-colors"
                   >
-                    重置
+                    {t('app.uploadNew')}
                   </button>
-                )}
-                <button
-                  onClick={handleSaveSettings}
-                  disabled={isSaveDisabled}
-                  className="flex-1 flex items-center justify-center gap-2 px-4 py-2 bg-purple-600 hover:bg-purple-500 disabled:opacity-50 disabled:cursor-not-allowed text-white rounded-lg text-sm font-medium transition-colors shadow-lg shadow-purple-900/20"
-                >
-                  <Save className="w-4 h-4" />
-                  保存并继续
-                </button>
+                  {project && (
+                    <span className="text-sm text-gray-500 truncate max-w-xs" title={project.title}>{project.title}</span>
+                  )}
+                </div>
+                <div className="flex items-center gap-4">
+                  <div className="flex items-center gap-1">
+                    <button
+                      onClick={handleUndo}
+                      disabled={!nextUndo}
+                      className="p-2 text-gray-400 hover:text-white hover:bg-gray-800 rounded-lg transition-colors disabled:opacity-30 disabled:hover:bg-transparent disabled:cursor-not-allowed"
+                      title={nextUndo ? t('app.undo', { label: t(nextUndo.label) }) : t('app.nothingToUndo')}
+                    >
+                      <Undo2 className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={handleRedo}
+                      disabled={!nextRedo}
+                      className="p-2 text-gray-400 hover:text-white hover:bg-gray-800 rounded-lg transition-colors disabled:opacity-30 disabled:hover:bg-transparent disabled:cursor-not-allowed"
+                      title={nextRedo ? t('app.redo', { label: t(nextRedo.label) }) : t('app.nothingToRedo')}
+                    >
+                      <Redo2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                  {extractionProgress === null && mergedFrameCount > 0 && (
+                    <span className="text-xs text-gray-500">{t('app.dedupeSummary', { count: mergedFrameCount })}</span>
+                  )}
+                  {extractionProgress === null && pendingShots.length > 0 && (
+                    <button
+                      onClick={handleResumePending}
+                      className="flex items-center gap-2 px-3 py-1.5 bg-blue-600 hover:bg-blue-700 text-white text-sm rounded-lg transition-colors"
+                    >
+                      <Play className="w-4 h-4" />
+                      {t('app.resumePending', { count: pendingShots.length })}
+                    </button>
+                  )}
+                </div>
               </div>
+              {!source && sourceInfo && (
+                <div className="flex items-center justify-between gap-4 mb-6 px-4 py-3 bg-gray-800/60 border border-gray-700 rounded-xl no-print">
+                  <p className="text-sm text-gray-400 min-w-0 truncate">
+                    {t('app.relinkPrompt', { fileName: sourceInfo.fileName })}
+                  </p>
+                  <input
+                    type="file"
+                    ref={relinkInputRef}
+                    onChange={handleRelinkVideo}
+                    accept="video/*"
+                    className="hidden"
+                  />
+                  <button
+                    onClick={() => relinkInputRef.current?.click()}
+                    className="flex items-center gap-2 px-3 py-1.5 bg-gray-700 hover:bg-gray-600 text-white text-sm rounded-lg border border-gray-600 transition-colors flex-shrink-0"
+                  >
+                    <Link className="w-4 h-4" />
+                    {t('app.relinkVideo')}
+                  </button>
+                </div>
+              )}
+              {extractionProgress !== null && (
+                <div className="flex items-center justify-between gap-4 mb-6 px-4 py-3 bg-blue-900/10 border border-blue-500/40 rounded-xl no-print">
+                  <div className="flex items-center gap-3 min-w-0">
+                    <Loader2 className="w-5 h-5 text-blue-400 animate-spin flex-shrink-0" />
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-blue-300">{t('app.extracting', { progress: extractionProgress })}</p>
+                      <p className="text-xs text-gray-500">
+                        {t('app.extractingDetected', { count: shots.length })}
+                        {mergedFrameCount > 0 && t('app.extractingMerged', { count: mergedFrameCount })}
+                      </p>
+                    </div>
+                  </div>
+                  <button
+                    onClick={handleCancelExtraction}
+                    className="px-3 py-1.5 bg-gray-700 hover:bg-gray-600 text-white text-sm rounded-lg border border-gray-600 transition-colors flex-shrink-0"
+                  >
+                    {t('app.stopExtraction')}
+                  </button>
+                </div>
+              )}
+              {videoUrl && (
+                <VideoPlayer
+                  ref={playerRef}
+                  src={videoUrl}
+                  shots={shots}
+                  activeShotId={activeShotId}
+                  onTimeChange={setPlaybackTime}
+                />
+              )}
+              <FilmSummary
+                shots={shots}
+                critique={critique}
+                isCritiquing={isCritiquing}
+                critiqueError={critiqueError}
+                onGenerateCritique={handleGenerateCritique}
+              />
+              <ColorScript
+                shots={shots}
+                activeShotId={activeShotId}
+                onSelectShot={videoUrl ? handleSeekShot : undefined}
+              />
+              <AnalysisJobBar
+                shots={shots}
+                batch={analysisBatch}
+                isPaused={isAnalysisPaused}
+                selectedCount={selectedShots.length}
+                onPause={handlePauseAnalysis}
+                onResume={handleResumeAnalysis}
+                onCancel={cancelAllAnalyses}
+                onRetryFailed={handleRetryFailed}
+                onReanalyzeAll={handleReanalyzeAll}
+                onAnalyzeSelected={handleAnalyzeSelected}
+                onSelectAll={() => setSelectedShotIds(new Set(shots.map(s => s.id)))}
+                onClearSelection={() => setSelectedShotIds(new Set())}
+              />
+              <RequestQueueStatus />
+              <ShotList 
+                  shots={shots} 
+                  activeShotId={activeShotId}
+                  onSeekShot={videoUrl ? handleSeekShot : undefined}
+                  onGenerateImage={handleGenerateImage} 
+                  onRetryAnalysis={handleRetryAnalysis}
+                  onDeleteShot={handleDeleteShot}
+                  onSplitShot={source ? handleSplitShot : undefined}
+                  onMergeShot={handleMergeShot}
+                  onRetimeShot={handleRetimeShot}
+                  onEditAnalysis={handleEditAnalysis}
+                  scenes={scenes}
+                  isDetectingScenes={isDetectingScenes}
+                  onDetectScenes={handleDetectScenes}
+                  onDescribeScene={handleDescribeScene}
+                  onStartScene={handleStartScene}
+                  onMergeScene={handleMergeScene}
+                  selectedShotIds={selectedShotIds}
+                  onToggleSelected={handleToggleSelected}
+              />
             </div>
-          </div>
-        </div>
-      )}
-    </div>
+          )}
+
+        </main>
+
+        {/* Footer */}
+        <footer className="border-t border-gray-800 mt-20 py-8 text-center text-gray-600 text-sm print:hidden">
+          <p>{t('app.footer')}</p>
+        </footer>
+
+        {showTemplates && (
+          <TemplateManager
+            templates={templates}
+            activeTemplateId={activeTemplate.id}
+            onSelectTemplate={handleSelectTemplate}
+            onSaveTemplates={handleSaveTemplates}
+            onClose={() => setShowTemplates(false)}
+          />
+        )}
+
+        {showCacheManager && <AnalysisCacheManager onClose={() => setShowCacheManager(false)} />}
+
+        {showSettings && (
+          <AiSettingsModal
+            settings={aiSettings}
+            canReset={hasStoredAiSettings()}
+            onSave={handleSaveSettings}
+            onReset={handleResetSettings}
+            onClose={() => setShowSettings(false)}
+          />
+        )}
+      </div>
+    </I18nContext.Provider>
   );
 };
 
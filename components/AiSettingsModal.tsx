@@ -0,0 +1,223 @@
+import React, { useState } from 'react';
+import { AiProviderId, AiSettings, GeminiAuthScheme } from '../types';
+import { AI_PROVIDER_IDS, AI_TASKS, isTaskReady } from '../services/ai';
+import { useI18n } from '../services/i18n';
+import { Globe, Save, X } from 'lucide-react';
+
+interface AiSettingsModalProps {
+  settings: AiSettings;
+  canReset: boolean; // Something is stored that resetting would remove
+  onSave: (settings: AiSettings) => void;
+  onReset: () => AiSettings; // Returns the settings after the reset
+  onClose: () => void;
+}
+
+// Stored in place of a Gemini key when only a proxy is configured, since the client requires one
+const PROXY_ONLY_KEY = "custom_proxy_mode";
+
+const inputClass = "w-full bg-gray-900 border border-gray-700 rounded-lg px-4 py-2.5 text-white focus:ring-2 focus:ring-purple-500 focus:border-transparent outline-none transition-all font-mono text-sm";
+
+// A key pasted into a URL field
+const looksLikeKey = (value: string) => value.startsWith('sk-') && value.length > 20;
+
+/**
+ * Which provider runs each AI task, and the credentials of the providers in use.
+ */
+export const AiSettingsModal: React.FC<AiSettingsModalProps> = ({ settings, canReset, onSave, onReset, onClose }) => {
+  const { t } = useI18n();
+  const [draft, setDraft] = useState<AiSettings>(() => ({
+    ...settings,
+    gemini: { ...settings.gemini, apiKey: settings.gemini.apiKey === PROXY_ONLY_KEY ? '' : settings.gemini.apiKey },
+  }));
+
+  const usedProviders = AI_PROVIDER_IDS.filter(id => AI_TASKS.some(task => draft.tasks[task] === id));
+  const openAiTasks = AI_TASKS.filter(task => draft.tasks[task] === 'openai');
+  const isSaveDisabled = !AI_TASKS.every(task => isTaskReady(draft, task));
+
+  const updateGemini = (patch: Partial<AiSettings['gemini']>) => setDraft(prev => ({ ...prev, gemini: { ...prev.gemini, ...patch } }));
+  const updateOpenAi = (patch: Partial<AiSettings['openai']>) => setDraft(prev => ({ ...prev, openai: { ...prev.openai, ...patch } }));
+
+  const handleSave = () => {
+    const gemini = { ...draft.gemini, apiKey: draft.gemini.apiKey.trim(), baseUrl: draft.gemini.baseUrl.trim() };
+    const openai = { ...draft.openai, apiKey: draft.openai.apiKey.trim(), baseUrl: draft.openai.baseUrl.trim() };
+
+    if (looksLikeKey(gemini.baseUrl) || looksLikeKey(openai.baseUrl)) {
+      alert(t('settings.keyInBaseUrl'));
+      return;
+    }
+
+    onSave({
+      ...draft,
+      gemini: { ...gemini, apiKey: gemini.apiKey || (gemini.baseUrl ? PROXY_ONLY_KEY : '') },
+      openai,
+    });
+  };
+
+  const handleReset = () => {
+    setDraft(onReset());
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/80 backdrop-blur-sm flex items-center justify-center p-4 animate-[fadeIn_0.2s_ease-out]">
+      <div className="bg-gray-800 border border-gray-700 rounded-xl shadow-2xl max-w-lg w-full max-h-[90vh] overflow-y-auto p-6 relative">
+        <button onClick={onClose} className="absolute top-4 right-4 text-gray-400 hover:text-white">
+          <X className="w-5 h-5" />
+        </button>
+
+        <div className="flex items-center gap-3 mb-6">
+          <div className="bg-purple-600/20 p-3 rounded-lg">
+            <Globe className="w-6 h-6 text-purple-400" />
+          </div>
+          <div>
+            <h3 className="text-xl font-bold text-white">{t('settings.title')}</h3>
+            <p className="text-xs text-gray-400">{t('settings.subtitle')}</p>
+          </div>
+        </div>
+
+        <div className="space-y-5">
+          <section>
+            <h4 className="text-xs font-semibold text-gray-400 uppercase tracking-wider mb-2">{t('settings.tasks')}</h4>
+            <div className="space-y-2">
+              {AI_TASKS.map(task => (
+                <div key={task} className="flex items-center justify-between gap-4">
+                  <label htmlFor={`ai-task-${task}`} className="text-sm text-gray-300">{t(`settings.task.${task}`)}</label>
+                  <select
+                    id={`ai-task-${task}`}
+                    value={draft.tasks[task]}
+                    onChange={(e) => setDraft(prev => ({ ...prev, tasks: { ...prev.tasks, [task]: e.target.value as AiProviderId } }))}
+                    className="bg-gray-900 border border-gray-700 rounded-lg px-3 py-1.5 text-sm text-white focus:ring-2 focus:ring-purple-500 outline-none"
+                  >
+                    {AI_PROVIDER_IDS.map(id => (
+                      <option key={id} value={id}>{t(`settings.provider.${id}`)}</option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+          </section>
+
+          {usedProviders.includes('gemini') && (
+            <section className="space-y-3 pt-4 border-t border-gray-700">
+              <h4 className="text-xs font-semibold text-gray-400 uppercase tracking-wider">{t('settings.provider.gemini')}</h4>
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-1">{t('settings.baseUrl')}</label>
+                <input
+                  type="text"
+                  value={draft.gemini.baseUrl}
+                  onChange={(e) => updateGemini({ baseUrl: e.target.value })}
+                  placeholder="https://your-proxy.com"
+                  className={inputClass}
+                />
+                <p className="text-[10px] text-gray-500 mt-1">
+                  {t('settings.baseUrlHint')}<span className="text-red-400 font-bold">{t('settings.baseUrlWarning')}</span>
+                </p>
+              </div>
+              {draft.gemini.baseUrl.trim() && (
+                <div>
+                  <label htmlFor="gemini-auth-scheme" className="block text-sm font-medium text-gray-300 mb-1">{t('settings.gemini.authScheme')}</label>
+                  <select
+                    id="gemini-auth-scheme"
+                    value={draft.gemini.authScheme}
+                    onChange={(e) => updateGemini({ authScheme: e.target.value as GeminiAuthScheme })}
+                    className="w-full bg-gray-900 border border-gray-700 rounded-lg px-3 py-2 text-sm text-white focus:ring-2 focus:ring-purple-500 outline-none"
+                  >
+                    <option value="apiKey">{t('settings.gemini.authScheme.apiKey')}</option>
+                    <option value="bearer">{t('settings.gemini.authScheme.bearer')}</option>
+                  </select>
+                  <p className="text-[10px] text-gray-500 mt-1">{t('settings.gemini.authSchemeHint')}</p>
+                </div>
+              )}
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-1">{t('settings.apiKey')}</label>
+                <input
+                  type="password"
+                  value={draft.gemini.apiKey}
+                  onChange={(e) => updateGemini({ apiKey: e.target.value })}
+                  placeholder="AIzaSy..."
+                  className={inputClass}
+                />
+                <p className="text-[10px] text-gray-500 mt-1">{t('settings.apiKeyHint')}</p>
+              </div>
+            </section>
+          )}
+
+          {usedProviders.includes('openai') && (
+            <section className="space-y-3 pt-4 border-t border-gray-700">
+              <h4 className="text-xs font-semibold text-gray-400 uppercase tracking-wider">{t('settings.provider.openai')}</h4>
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-1">{t('settings.openai.baseUrl')}</label>
+                <input
+                  type="text"
+                  value={draft.openai.baseUrl}
+                  onChange={(e) => updateOpenAi({ baseUrl: e.target.value })}
+                  placeholder="https://api.openai.com/v1"
+                  className={inputClass}
+                />
+                <p className="text-[10px] text-gray-500 mt-1">{t('settings.openai.baseUrlHint')}</p>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-1">{t('settings.apiKey')}</label>
+                <input
+                  type="password"
+                  value={draft.openai.apiKey}
+                  onChange={(e) => updateOpenAi({ apiKey: e.target.value })}
+                  placeholder="sk-..."
+                  className={inputClass}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                {openAiTasks.some(task => task !== 'image') && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-300 mb-1">{t('settings.openai.chatModel')}</label>
+                    <input
+                      type="text"
+                      value={draft.openai.chatModel}
+                      onChange={(e) => updateOpenAi({ chatModel: e.target.value })}
+                      placeholder="gpt-4o"
+                      className={inputClass}
+                    />
+                  </div>
+                )}
+                {openAiTasks.includes('image') && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-300 mb-1">{t('settings.openai.imageModel')}</label>
+                    <input
+                      type="text"
+                      value={draft.openai.imageModel}
+                      onChange={(e) => updateOpenAi({ imageModel: e.target.value })}
+                      placeholder="gpt-image-1"
+                      className={inputClass}
+                    />
+                  </div>
+                )}
+              </div>
+            </section>
+          )}
+
+          {usedProviders.includes('mock') && (
+            <p className="pt-4 border-t border-gray-700 text-xs text-gray-500">{t('settings.mockHint')}</p>
+          )}
+
+          <div className="flex gap-3 pt-2">
+            {canReset && (
+              <button
+                onClick={handleReset}
+                className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-lg text-sm font-medium transition-colors"
+              >
+                {t('settings.reset')}
+              </button>
+            )}
+            <button
+              onClick={handleSave}
+              disabled={isSaveDisabled}
+              className="flex-1 flex items-center justify-center gap-2 px-4 py-2 bg-purple-600 hover:bg-purple-500 disabled:opacity-50 disabled:cursor-not-allowed text-white rounded-lg text-sm font-medium transition-colors shadow-lg shadow-purple-900/20"
+            >
+              <Save className="w-4 h-4" />
+              {t('settings.saveAndContinue')}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
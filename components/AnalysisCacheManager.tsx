@@ -0,0 +1,95 @@
+import React, { useEffect, useState } from 'react';
+import { AnalysisCacheStats, clearAnalysisCache, getAnalysisCacheStats } from '../services/analysisCache';
+import { describeError, LANGUAGE_TAGS, useI18n } from '../services/i18n';
+import { Database, Trash2, Loader2, X } from 'lucide-react';
+
+interface AnalysisCacheManagerProps {
+  onClose: () => void;
+}
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+};
+
+/**
+ * Size of the local analysis cache, with a way to empty it.
+ */
+export const AnalysisCacheManager: React.FC<AnalysisCacheManagerProps> = ({ onClose }) => {
+  const { language, t } = useI18n();
+  const [stats, setStats] = useState<AnalysisCacheStats | null>(null);
+  const [isClearing, setIsClearing] = useState(false);
+
+  useEffect(() => {
+    getAnalysisCacheStats().then(setStats);
+  }, []);
+
+  const handleClear = async () => {
+    if (!window.confirm(t('cache.confirmClear'))) return;
+    setIsClearing(true);
+    try {
+      await clearAnalysisCache();
+      setStats(await getAnalysisCacheStats());
+    } catch (error) {
+      console.error("Clearing the analysis cache failed:", error);
+      alert(t('error.clearCache', { message: describeError(error, t) }));
+    } finally {
+      setIsClearing(false);
+    }
+  };
+
+  const rows = stats ? [
+    { label: t('cache.entries'), value: String(stats.entries) },
+    { label: t('cache.size'), value: formatBytes(stats.bytes) },
+    { label: t('cache.oldest'), value: stats.oldest !== null ? new Date(stats.oldest).toLocaleString(LANGUAGE_TAGS[language]) : '—' },
+  ] : [];
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/80 backdrop-blur-sm flex items-center justify-center p-4 animate-[fadeIn_0.2s_ease-out]">
+      <div className="bg-gray-800 border border-gray-700 rounded-xl shadow-2xl max-w-md w-full p-6 relative">
+        <button onClick={onClose} className="absolute top-4 right-4 text-gray-400 hover:text-white">
+          <X className="w-5 h-5" />
+        </button>
+
+        <div className="flex items-center gap-3 mb-6">
+          <div className="bg-emerald-600/20 p-3 rounded-lg">
+            <Database className="w-6 h-6 text-emerald-400" />
+          </div>
+          <div>
+            <h3 className="text-xl font-bold text-white">{t('cache.title')}</h3>
+            <p className="text-xs text-gray-400">{t('cache.subtitle')}</p>
+          </div>
+        </div>
+
+        {stats ? (
+          <dl className="space-y-2 mb-6">
+            {rows.map(row => (
+              <div key={row.label} className="flex justify-between gap-4 text-sm">
+                <dt className="text-gray-400">{row.label}</dt>
+                <dd className="text-white font-mono">{row.value}</dd>
+              </div>
+            ))}
+          </dl>
+        ) : (
+          <div className="flex justify-center py-6 mb-6">
+            <Loader2 className="w-5 h-5 text-gray-500 animate-spin" />
+          </div>
+        )}
+
+        <p className="text-xs text-gray-500 mb-6">{t('cache.explanation')}</p>
+
+        <div className="flex justify-end">
+          <button
+            onClick={handleClear}
+            disabled={!stats || stats.entries === 0 || isClearing}
+            className="flex items-center gap-2 px-4 py-2 bg-red-900/30 hover:bg-red-900/50 disabled:opacity-40 disabled:hover:bg-red-900/30 text-red-300 text-sm rounded-lg border border-red-800/50 transition-colors"
+          >
+            {isClearing ? <Loader2 className="w-4 h-4 animate-spin" /> : <Trash2 className="w-4 h-4" />}
+            {t('cache.clear')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
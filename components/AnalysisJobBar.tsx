@@ -0,0 +1,100 @@
+import React from 'react';
+import { Shot } from '../types';
+import { AnalysisBatch, estimateRemainingSeconds } from '../services/analysisJobs';
+import { useI18n } from '../services/i18n';
+import { Loader2, Pause, Play, CircleStop, RotateCcw, RefreshCw, ListChecks, X } from 'lucide-react';
+
+interface AnalysisJobBarProps {
+  shots: Shot[];
+  batch: AnalysisBatch | null; // Null when no analysis is running
+  isPaused: boolean;
+  selectedCount: number;
+  onPause: () => void;
+  onResume: () => void;
+  onCancel: () => void;
+  onRetryFailed: () => void;
+  onReanalyzeAll: () => void;
+  onAnalyzeSelected: () => void;
+  onSelectAll: () => void;
+  onClearSelection: () => void;
+}
+
+/**
+ * Overall analysis progress with pause / cancel, plus the bulk actions on the shot list.
+ */
+export const AnalysisJobBar: React.FC<AnalysisJobBarProps> = ({
+  shots, batch, isPaused, selectedCount, onPause, onResume, onCancel, onRetryFailed, onReanalyzeAll, onAnalyzeSelected, onSelectAll, onClearSelection,
+}) => {
+  const { t } = useI18n();
+  if (shots.length === 0) return null;
+
+  const failedCount = shots.filter(s => s.status === 'failed').length;
+  const remaining = batch ? estimateRemainingSeconds(batch) : null;
+  const formatEta = (seconds: number) => seconds >= 60
+    ? t('jobs.etaMinutes', { minutes: Math.floor(seconds / 60), seconds: seconds % 60 })
+    : t('jobs.etaSeconds', { seconds });
+
+  const actionClass = "flex items-center gap-1 px-2.5 py-1.5 bg-gray-700 hover:bg-gray-600 disabled:opacity-40 disabled:hover:bg-gray-700 disabled:cursor-not-allowed text-white text-xs rounded-lg border border-gray-600 transition-colors";
+
+  return (
+    <div className="mb-6 space-y-3 no-print">
+      {batch && (
+        <div className={`px-4 py-3 rounded-xl border ${isPaused ? 'bg-amber-900/10 border-amber-500/40' : 'bg-blue-900/10 border-blue-500/40'}`}>
+          <div className="flex items-center justify-between gap-4">
+            <div className="flex items-center gap-3 min-w-0">
+              {isPaused
+                ? <Pause className="w-5 h-5 text-amber-400 flex-shrink-0" />
+                : <Loader2 className="w-5 h-5 text-blue-400 animate-spin flex-shrink-0" />}
+              <div className="min-w-0">
+                <p className={`text-sm font-medium ${isPaused ? 'text-amber-300' : 'text-blue-300'}`}>
+                  {t('jobs.progress', { done: batch.done, total: batch.total })}
+                </p>
+                <p className="text-xs text-gray-500">
+                  {isPaused
+                    ? t('jobs.paused')
+                    : remaining === null ? t('jobs.estimating') : formatEta(remaining)}
+                </p>
+              </div>
+            </div>
+            <div className="flex items-center gap-2 flex-shrink-0">
+              <button onClick={isPaused ? onResume : onPause} className={actionClass}>
+                {isPaused ? <Play className="w-3 h-3" /> : <Pause className="w-3 h-3" />}
+                {isPaused ? t('jobs.resume') : t('jobs.pause')}
+              </button>
+              <button onClick={onCancel} className={actionClass} title={t('jobs.cancelHint')}>
+                <CircleStop className="w-3 h-3" /> {t('jobs.cancel')}
+              </button>
+            </div>
+          </div>
+          <div className="mt-2 h-1.5 rounded bg-gray-900 overflow-hidden">
+            <div
+              className={`h-full transition-all ${isPaused ? 'bg-amber-500/70' : 'bg-blue-500/70'}`}
+              style={{ width: `${(batch.done / batch.total) * 100}%` }}
+            />
+          </div>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <button onClick={onRetryFailed} disabled={failedCount === 0} className={actionClass}>
+          <RotateCcw className="w-3 h-3" /> {t('jobs.retryFailed', { count: failedCount })}
+        </button>
+        <button onClick={onAnalyzeSelected} disabled={selectedCount === 0} className={actionClass}>
+          <ListChecks className="w-3 h-3" /> {t('jobs.analyzeSelected', { count: selectedCount })}
+        </button>
+        <button onClick={onReanalyzeAll} className={actionClass} title={t('jobs.reanalyzeAllHint')}>
+          <RefreshCw className="w-3 h-3" /> {t('jobs.reanalyzeAll')}
+        </button>
+        <span className="mx-1 h-4 border-l border-gray-700" />
+        <button onClick={onSelectAll} className="text-xs text-gray-400 hover:text-white transition-colors">
+          {t('jobs.selectAll')}
+        </button>
+        {selectedCount > 0 && (
+          <button onClick={onClearSelection} className="flex items-center gap-1 text-xs text-gray-400 hover:text-white transition-colors">
+            <X className="w-3 h-3" /> {t('jobs.clearSelection')}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
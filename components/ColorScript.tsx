@@ -0,0 +1,75 @@
+import React from 'react';
+import { Shot } from '../types';
+import { renderColorScript } from '../services/palette';
+import { useI18n } from '../services/i18n';
+import { Palette, Download } from 'lucide-react';
+
+interface ColorScriptProps {
+  shots: Shot[];
+  activeShotId: string | null;
+  onSelectShot?: (shotId: string) => void;
+}
+
+/**
+ * Film-wide colour script ("movie barcode"): every shot's palette in time order,
+ * each column as wide as the shot is long.
+ */
+export const ColorScript: React.FC<ColorScriptProps> = ({ shots, activeShotId, onSelectShot }) => {
+  const { t } = useI18n();
+  const formatTime = (seconds: number) => {
+    const m = Math.floor(seconds / 60);
+    const s = Math.floor(seconds % 60);
+    return `${m.toString().padStart(2, '0')}:${s.toString().padStart(2, '0')}`;
+  };
+
+  const readyCount = shots.filter(s => s.palette).length;
+  if (readyCount === 0) return null;
+
+  const downloadStrip = () => {
+    const dataUrl = renderColorScript(shots, 2400, 240);
+    if (!dataUrl) return;
+    const link = document.createElement('a');
+    link.href = dataUrl;
+    link.download = 'color-script.png';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  };
+
+  return (
+    <div className="mb-6 bg-gray-800/50 border border-gray-700 rounded-xl p-4 print:bg-white print:border-gray-300 print:break-inside-avoid">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm font-medium text-gray-200 flex items-center gap-2 print:text-black">
+          <Palette className="w-4 h-4 text-purple-400" /> {t('colorScript.title')}
+          <span className="text-xs text-gray-500 font-normal">{t('colorScript.progress', { ready: readyCount, total: shots.length })}</span>
+        </h3>
+        <button
+          onClick={downloadStrip}
+          className="flex items-center gap-1 px-2 py-1 rounded border border-gray-700 bg-gray-800 text-xs text-gray-400 hover:text-white transition-colors no-print"
+          title={t('colorScript.download')}
+        >
+          <Download className="w-3 h-3" /> PNG
+        </button>
+      </div>
+
+      <div className="flex h-16 w-full rounded overflow-hidden bg-black [print-color-adjust:exact]">
+        {shots.map((shot, index) => (
+          <button
+            key={shot.id}
+            onClick={() => onSelectShot?.(shot.id)}
+            disabled={!onSelectShot}
+            style={{ flexGrow: Math.max(shot.duration, 0.1), flexBasis: 0 }}
+            className={`relative flex flex-col min-w-[2px] ${shot.id === activeShotId ? 'ring-2 ring-inset ring-white z-10' : ''} ${onSelectShot ? 'cursor-pointer hover:opacity-80' : 'cursor-default'}`}
+            title={`${t('common.shotNumber', { index: index + 1 })} · ${formatTime(shot.timestamp)}`}
+          >
+            {shot.palette
+              ? shot.palette.swatches.map((swatch, i) => (
+                  <span key={i} className="block w-full" style={{ backgroundColor: swatch.hex, flexGrow: swatch.share }} />
+                ))
+              : <span className="block w-full flex-1 bg-gray-800" />}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,253 @@
+import React from 'react';
+import { ExtractionSettings } from '../types';
+import { estimateAnalysisCalls, getSampleStep, RESOLUTION_OPTIONS, SCENE_SAMPLE_INTERVAL, FIXED_SAMPLE_INTERVAL } from '../services/extraction';
+import { HASH_BITS } from '../services/sceneDetection';
+import { useI18n } from '../services/i18n';
+import { Scissors, Clock, Image as ImageIcon, Zap, AlertTriangle, Copy } from 'lucide-react';
+
+interface ExtractionSettingsPanelProps {
+  settings: ExtractionSettings;
+  videoDuration: number;
+  onChange: (settings: ExtractionSettings) => void;
+}
+
+// Above this many requests we warn that the run will be slow and costly
+const LARGE_RUN_WARNING = 300;
+
+export const ExtractionSettingsPanel: React.FC<ExtractionSettingsPanelProps> = ({ settings, videoDuration, onChange }) => {
+  const { t } = useI18n();
+  const update = (patch: Partial<ExtractionSettings>) => onChange({ ...settings, ...patch });
+
+  const formatTime = (seconds: number) => {
+    const m = Math.floor(seconds / 60);
+    const s = Math.floor(seconds % 60);
+    return `${m.toString().padStart(2, '0')}:${s.toString().padStart(2, '0')}`;
+  };
+
+  const clampTime = (value: number) => Math.min(videoDuration, Math.max(0, Number.isFinite(value) ? value : 0));
+
+  const estimatedCalls = estimateAnalysisCalls(settings);
+  const isRangeValid = settings.endTime > settings.startTime;
+
+  const inputClass = "w-full bg-gray-900 border border-gray-700 rounded-lg px-3 py-2 text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition-all font-mono text-sm disabled:opacity-50";
+  const labelClass = "block text-xs font-bold uppercase tracking-wider text-gray-500 mb-1";
+
+  return (
+    <div className="bg-gray-800 border border-gray-700 rounded-xl p-6 space-y-6 text-left">
+
+      {/* Time Range */}
+      <div>
+        <h4 className="text-sm font-medium text-gray-200 flex items-center gap-2 mb-3">
+          <Clock className="w-4 h-4 text-blue-400" /> {t('extraction.timeRange')}
+          <span className="text-xs text-gray-500 font-normal">{t('extraction.totalLength', { duration: formatTime(videoDuration) })}</span>
+        </h4>
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className={labelClass}>{t('extraction.startTime')}</label>
+            <input
+              type="number"
+              min={0}
+              max={videoDuration}
+              step={0.1}
+              value={settings.startTime}
+              onChange={(e) => update({ startTime: clampTime(Number(e.target.value)) })}
+              className={inputClass}
+            />
+            <p className="text-[10px] text-gray-500 mt-1 font-mono">{formatTime(settings.startTime)}</p>
+          </div>
+          <div>
+            <label className={labelClass}>{t('extraction.endTime')}</label>
+            <input
+              type="number"
+              min={0}
+              max={videoDuration}
+              step={0.1}
+              value={settings.endTime}
+              onChange={(e) => update({ endTime: clampTime(Number(e.target.value)) })}
+              className={inputClass}
+            />
+            <p className="text-[10px] text-gray-500 mt-1 font-mono">{formatTime(settings.endTime)}</p>
+          </div>
+        </div>
+        {!isRangeValid && (
+          <p className="text-xs text-red-400 mt-2">{t('extraction.invalidRange')}</p>
+        )}
+      </div>
+
+      {/* Sampling */}
+      <div>
+        <h4 className="text-sm font-medium text-gray-200 flex items-center gap-2 mb-3">
+          <Scissors className="w-4 h-4 text-blue-400" /> {t('extraction.sampling')}
+        </h4>
+        <label className="flex items-center gap-2 text-sm text-gray-300 mb-3 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={settings.detectScenes}
+            onChange={(e) => update({
+              detectScenes: e.target.checked,
+              // Each mode has its own sensible density
+              sampleInterval: e.target.checked ? SCENE_SAMPLE_INTERVAL : FIXED_SAMPLE_INTERVAL,
+            })}
+            className="accent-blue-500"
+          />
+          {t('extraction.detectScenes')}
+        </label>
+
+        {settings.detectScenes && (
+          <div className="flex items-center gap-3 text-sm text-gray-400 mb-3">
+            <label htmlFor="cut-threshold" className="whitespace-nowrap">{t('extraction.cutThreshold')}</label>
+            <input
+              id="cut-threshold"
+              type="range"
+              min={0.1}
+              max={0.8}
+              step={0.05}
+              value={settings.cutThreshold}
+              onChange={(e) => update({ cutThreshold: Number(e.target.value) })}
+              className="flex-1 accent-blue-500"
+            />
+            <span className="font-mono text-gray-300 w-10 text-right">{settings.cutThreshold.toFixed(2)}</span>
+          </div>
+        )}
+
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className={labelClass}>{t('extraction.samplingMode')}</label>
+            <select
+              value={settings.samplingMode}
+              onChange={(e) => update({ samplingMode: e.target.value as ExtractionSettings['samplingMode'] })}
+              className={inputClass}
+            >
+              <option value="interval">{t('extraction.mode.interval')}</option>
+              <option value="count">{t('extraction.mode.count')}</option>
+            </select>
+          </div>
+          {settings.samplingMode === 'interval' ? (
+            <div>
+              <label className={labelClass}>{t('extraction.sampleInterval')}</label>
+              <input
+                type="number"
+                min={0.1}
+                step={0.1}
+                value={settings.sampleInterval}
+                onChange={(e) => update({ sampleInterval: Math.max(0.1, Number(e.target.value) || 0.1) })}
+                className={inputClass}
+              />
+            </div>
+          ) : (
+            <div>
+              <label className={labelClass}>{t('extraction.targetFrameCount')}</label>
+              <input
+                type="number"
+                min={1}
+                step={1}
+                value={settings.targetFrameCount}
+                onChange={(e) => update({ targetFrameCount: Math.max(1, Math.round(Number(e.target.value)) || 1) })}
+                className={inputClass}
+              />
+              <p className="text-[10px] text-gray-500 mt-1">{t('extraction.sampleStep', { step: getSampleStep(settings).toFixed(1) })}</p>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Near-duplicate Folding */}
+      <div>
+        <h4 className="text-sm font-medium text-gray-200 flex items-center gap-2 mb-3">
+          <Copy className="w-4 h-4 text-blue-400" /> {t('extraction.dedupe')}
+        </h4>
+        <label className="flex items-center gap-2 text-sm text-gray-300 mb-3 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={settings.dedupeFrames}
+            onChange={(e) => update({ dedupeFrames: e.target.checked })}
+            className="accent-blue-500"
+          />
+          {t('extraction.dedupeFrames')}
+        </label>
+
+        {settings.dedupeFrames && (
+          <div className="flex items-center gap-3 text-sm text-gray-400">
+            <label htmlFor="dedupe-threshold" className="whitespace-nowrap">{t('extraction.dedupeThreshold')}</label>
+            <input
+              id="dedupe-threshold"
+              type="range"
+              min={0}
+              max={16}
+              step={1}
+              value={settings.dedupeThreshold}
+              onChange={(e) => update({ dedupeThreshold: Number(e.target.value) })}
+              className="flex-1 accent-blue-500"
+            />
+            <span className="font-mono text-gray-300 w-14 text-right" title={t('extraction.dedupeThresholdHint', { bits: HASH_BITS })}>
+              {settings.dedupeThreshold}/{HASH_BITS}
+            </span>
+          </div>
+        )}
+      </div>
+
+      {/* Output */}
+      <div>
+        <h4 className="text-sm font-medium text-gray-200 flex items-center gap-2 mb-3">
+          <ImageIcon className="w-4 h-4 text-blue-400" /> {t('extraction.output')}
+        </h4>
+        <div className="grid grid-cols-3 gap-4">
+          <div>
+            <label className={labelClass}>{t('extraction.resolution')}</label>
+            <select
+              value={settings.maxHeight}
+              onChange={(e) => update({ maxHeight: Number(e.target.value) })}
+              className={inputClass}
+            >
+              {RESOLUTION_OPTIONS.map(height => (
+                <option key={height} value={height}>{height}p</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className={labelClass}>{t('extraction.jpegQuality')}</label>
+            <input
+              type="number"
+              min={0.3}
+              max={1}
+              step={0.05}
+              value={settings.jpegQuality}
+              onChange={(e) => update({ jpegQuality: Math.min(1, Math.max(0.3, Number(e.target.value) || 0.8)) })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className={labelClass}>{t('extraction.maxFrames')}</label>
+            <input
+              type="number"
+              min={1}
+              step={1}
+              value={settings.maxFrames}
+              onChange={(e) => update({ maxFrames: Math.max(1, Math.round(Number(e.target.value)) || 1) })}
+              className={inputClass}
+            />
+          </div>
+        </div>
+      </div>
+
+      {/* API Call Estimate */}
+      <div className={`flex items-start gap-3 p-3 rounded-lg border ${estimatedCalls > LARGE_RUN_WARNING ? 'border-yellow-600/50 bg-yellow-900/10' : 'border-gray-700 bg-gray-900/50'}`}>
+        {estimatedCalls > LARGE_RUN_WARNING
+          ? <AlertTriangle className="w-5 h-5 text-yellow-400 flex-shrink-0 mt-0.5" />
+          : <Zap className="w-5 h-5 text-purple-400 flex-shrink-0 mt-0.5" />}
+        <div className="text-sm">
+          <p className="text-gray-200">
+            {t('extraction.estimate', { count: estimatedCalls })}
+          </p>
+          <p className="text-xs text-gray-500 mt-1">
+            {settings.detectScenes
+              ? t('extraction.estimateScenes')
+              : settings.dedupeFrames
+                ? t('extraction.estimateDedupe')
+                : t('extraction.estimateFixed')}
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+};
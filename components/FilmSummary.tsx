@@ -0,0 +1,203 @@
+import React, { useMemo } from 'react';
+import { FilmCritique, Shot } from '../types';
+import { computeFilmStatistics, DistributionEntry, formatDurationBucket } from '../services/filmSummary';
+import { useI18n } from '../services/i18n';
+import { formatCameraMovement, formatShotSize } from '../services/vocabulary';
+import { BarChart3, Sparkles, Loader2, AlertCircle, RefreshCw } from 'lucide-react';
+
+interface FilmSummaryProps {
+  shots: Shot[];
+  critique: FilmCritique | null;
+  isCritiquing: boolean;
+  critiqueError: string | null;
+  onGenerateCritique: () => void;
+}
+
+// Distribution bars shown before the rest are folded into "other"
+const MAX_DISTRIBUTION_ROWS = 6;
+
+const formatTime = (seconds: number) => {
+  const m = Math.floor(seconds / 60);
+  const s = Math.floor(seconds % 60);
+  return `${m.toString().padStart(2, '0')}:${s.toString().padStart(2, '0')}`;
+};
+
+const DistributionBars: React.FC<{ title: string; entries: DistributionEntry[]; total: number; otherLabel: string; format: (label: string) => string }> = ({ title, entries, total, otherLabel, format }) => {
+  const rows = entries.length > MAX_DISTRIBUTION_ROWS
+    ? [
+        ...entries.slice(0, MAX_DISTRIBUTION_ROWS - 1),
+        entries.slice(MAX_DISTRIBUTION_ROWS - 1).reduce(
+          (other, e) => ({ ...other, count: other.count + e.count, duration: other.duration + e.duration }),
+          { label: otherLabel, count: 0, duration: 0 }
+        ),
+      ]
+    : entries;
+
+  return (
+    <div>
+      <h4 className="text-xs font-bold uppercase tracking-wider text-gray-500 mb-2 print:text-gray-800">{title}</h4>
+      <div className="space-y-1.5">
+        {rows.map(row => (
+          <div key={row.label} className="flex items-center gap-2 text-xs">
+            <span className="w-24 truncate text-gray-300 print:text-black" title={format(row.label)}>{format(row.label)}</span>
+            <div className="flex-1 h-2 rounded bg-gray-900 overflow-hidden [print-color-adjust:exact]">
+              <div className="h-full bg-blue-500/70" style={{ width: `${total > 0 ? (row.count / total) * 100 : 0}%` }} />
+            </div>
+            <span className="w-8 text-right font-mono text-gray-400">{row.count}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Whole-film dashboard above the shot list: pacing statistics measured from the shots,
+ * distributions of the analysed shot sizes and movements, and the AI-written critique.
+ */
+export const FilmSummary: React.FC<FilmSummaryProps> = ({ shots, critique, isCritiquing, critiqueError, onGenerateCritique }) => {
+  const { t } = useI18n();
+  const stats = useMemo(() => computeFilmStatistics(shots), [shots]);
+
+  if (stats.shotCount === 0) return null;
+
+  const isAnalyzing = shots.some(s => s.status === 'pending' || s.status === 'analyzing');
+  const canCritique = !isAnalyzing && !isCritiquing && stats.analyzedCount > 0;
+  const maxBucket = Math.max(...stats.durationHistogram, 1);
+  const maxRate = Math.max(...stats.rhythm.map(w => w.cutsPerMinute), 1);
+
+  const tiles = [
+    { label: t('summary.shotCount'), value: String(stats.shotCount) },
+    { label: t('summary.totalDuration'), value: formatTime(stats.totalDuration) },
+    { label: t('summary.averageShotLength'), value: t('common.seconds', { value: stats.averageShotLength.toFixed(1) }) },
+    {
+      label: t('summary.medianShotLength'),
+      value: t('common.seconds', { value: stats.medianShotLength.toFixed(1) }),
+      hint: t('summary.shotRange', { shortest: stats.shortestShot.toFixed(1), longest: stats.longestShot.toFixed(1) }),
+    },
+    { label: t('summary.cutsPerMinute'), value: stats.cutsPerMinute.toFixed(1) },
+  ];
+
+  const critiqueSections = critique ? [
+    { label: t('summary.visualStyle'), text: critique.visualStyle },
+    { label: t('summary.colorArc'), text: critique.colorArc },
+    { label: t('summary.pacing'), text: critique.pacing },
+    { label: t('summary.overall'), text: critique.overall },
+  ] : [];
+
+  return (
+    <div className="mb-6 bg-gray-800/50 border border-gray-700 rounded-xl p-4 space-y-5 print:bg-white print:border-gray-300 print:break-inside-avoid">
+      <h3 className="text-sm font-medium text-gray-200 flex items-center gap-2 print:text-black">
+        <BarChart3 className="w-4 h-4 text-blue-400" /> {t('summary.title')}
+        <span className="text-xs text-gray-500 font-normal">{t('summary.basis', { analyzed: stats.analyzedCount, total: stats.shotCount })}</span>
+      </h3>
+
+      {/* Headline numbers */}
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+        {tiles.map(tile => (
+          <div key={tile.label} className="bg-gray-900/60 border border-gray-700/50 rounded-lg px-3 py-2 print:bg-white print:border-gray-300" title={tile.hint}>
+            <div className="text-[10px] font-bold uppercase tracking-wider text-gray-500">{tile.label}</div>
+            <div className="text-lg font-mono text-white print:text-black">{tile.value}</div>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        {/* Shot length histogram */}
+        <div>
+          <h4 className="text-xs font-bold uppercase tracking-wider text-gray-500 mb-2 print:text-gray-800">{t('summary.durationHistogram')}</h4>
+          <div className="flex items-end gap-1 h-24 [print-color-adjust:exact]">
+            {stats.durationHistogram.map((count, index) => (
+              <div key={index} className="flex-1 h-full flex flex-col justify-end items-center" title={t('summary.bucketShots', { count })}>
+                <span className="text-[10px] font-mono text-gray-400">{count > 0 ? count : ''}</span>
+                <div className="w-full rounded-t bg-purple-500/70" style={{ height: `${(count / maxBucket) * 100}%` }} />
+              </div>
+            ))}
+          </div>
+          <div className="flex gap-1 mt-1">
+            {stats.durationHistogram.map((_, index) => (
+              <span key={index} className="flex-1 text-center text-[10px] font-mono text-gray-500">{formatDurationBucket(index)}</span>
+            ))}
+          </div>
+        </div>
+
+        {/* Cutting rate over time */}
+        <div>
+          <h4 className="text-xs font-bold uppercase tracking-wider text-gray-500 mb-2 print:text-gray-800">{t('summary.rhythm')}</h4>
+          <div className="flex items-end gap-px h-24 [print-color-adjust:exact]">
+            {stats.rhythm.map(window => (
+              <div
+                key={window.start}
+                className="flex-1 rounded-t bg-blue-500/70 hover:bg-blue-400 min-h-[2px]"
+                style={{ height: `${(window.cutsPerMinute / maxRate) * 100}%` }}
+                title={t('summary.rhythmWindow', { start: formatTime(window.start), end: formatTime(window.end), rate: window.cutsPerMinute.toFixed(1) })}
+              />
+            ))}
+          </div>
+          <div className="flex justify-between mt-1 text-[10px] font-mono text-gray-500">
+            <span>{formatTime(stats.rhythm[0]?.start ?? 0)}</span>
+            <span>{formatTime(stats.rhythm[stats.rhythm.length - 1]?.end ?? 0)}</span>
+          </div>
+        </div>
+
+        {stats.analyzedCount > 0 ? (
+          <>
+            <DistributionBars title={t('summary.shotSizes')} entries={stats.shotSizes} total={stats.analyzedCount} otherLabel={t('summary.other')} format={label => formatShotSize(label, t)} />
+            <DistributionBars title={t('summary.cameraMovements')} entries={stats.cameraMovements} total={stats.analyzedCount} otherLabel={t('summary.other')} format={label => formatCameraMovement(label, t)} />
+          </>
+        ) : (
+          <p className="md:col-span-2 text-xs text-gray-500">{t('summary.noAnalysis')}</p>
+        )}
+      </div>
+
+      {/* AI critique */}
+      <div className="border-t border-gray-700/50 pt-4 print:border-gray-300">
+        <div className="flex items-center justify-between gap-3 mb-3">
+          <h4 className="text-sm font-medium text-gray-200 flex items-center gap-2 print:text-black">
+            <Sparkles className="w-4 h-4 text-purple-400" /> {t('summary.critique')}
+          </h4>
+          <button
+            onClick={onGenerateCritique}
+            disabled={!canCritique}
+            className="flex items-center gap-1 px-3 py-1.5 rounded-lg bg-purple-600 hover:bg-purple-500 disabled:bg-gray-700 disabled:text-gray-500 text-white text-xs transition-colors no-print"
+            title={isAnalyzing ? t('summary.critiqueWaiting') : t('summary.critiqueHint')}
+          >
+            {isCritiquing
+              ? <Loader2 className="w-3 h-3 animate-spin" />
+              : critique ? <RefreshCw className="w-3 h-3" /> : <Sparkles className="w-3 h-3" />}
+            {critique ? t('summary.regenerateCritique') : t('summary.generateCritique')}
+          </button>
+        </div>
+
+        {isCritiquing && (
+          <p className="text-xs text-purple-300 flex items-center gap-2 mb-3">
+            <Loader2 className="w-3 h-3 animate-spin" /> {t('summary.critiqueGenerating')}
+          </p>
+        )}
+        {critiqueError && !isCritiquing && (
+          <p className="text-xs text-red-400 flex items-center gap-2 mb-3">
+            <AlertCircle className="w-3 h-3 flex-shrink-0" /> {critiqueError}
+          </p>
+        )}
+
+        {critique ? (
+          <>
+            {critique.analyzedShots !== stats.analyzedCount && (
+              <p className="text-xs text-amber-400 mb-3">{t('summary.critiqueStale', { count: critique.analyzedShots })}</p>
+            )}
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {critiqueSections.map(section => (
+                <div key={section.label}>
+                  <h5 className="text-xs font-bold uppercase tracking-wider text-gray-500 mb-1 print:text-gray-800">{section.label}</h5>
+                  <p className="text-sm text-gray-300 leading-relaxed whitespace-pre-line print:text-black">{section.text}</p>
+                </div>
+              ))}
+            </div>
+          </>
+        ) : (
+          !isCritiquing && <p className="text-xs text-gray-500">{isAnalyzing ? t('summary.critiqueWaiting') : t('summary.critiqueHint')}</p>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,144 @@
+import React, { useEffect, useState } from 'react';
+import { SessionSummary, listSessions, renameSession, duplicateSession, deleteSession } from '../services/sessionStore';
+import { LANGUAGE_TAGS, useI18n } from '../services/i18n';
+import { Library, FolderOpen, Pencil, Copy, Trash2, Check, X, Film } from 'lucide-react';
+
+interface ProjectLibraryProps {
+  refreshKey: number; // Bump to reload the list after the app saved something
+  onOpen: (projectId: string) => void;
+  onDeleted?: (projectId: string) => void;
+}
+
+/**
+ * Saved breakdowns in IndexedDB, most recent first.
+ */
+export const ProjectLibrary: React.FC<ProjectLibraryProps> = ({ refreshKey, onOpen, onDeleted }) => {
+  const { language, t } = useI18n();
+  const [projects, setProjects] = useState<SessionSummary[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+
+  const reload = () => listSessions(t).then(setProjects);
+
+  useEffect(() => {
+    reload();
+  }, [refreshKey]);
+
+  if (projects.length === 0) return null;
+
+  const startRename = (project: SessionSummary) => {
+    setEditingId(project.id);
+    setDraftTitle(project.title);
+  };
+
+  const commitRename = async () => {
+    const title = draftTitle.trim();
+    if (editingId && title) {
+      await renameSession(editingId, title);
+      await reload();
+    }
+    setEditingId(null);
+  };
+
+  const handleDuplicate = async (projectId: string) => {
+    await duplicateSession(projectId, t);
+    await reload();
+  };
+
+  const handleDelete = async (project: SessionSummary) => {
+    if (!window.confirm(t('library.confirmDelete', { title: project.title }))) return;
+    await deleteSession(project.id);
+    onDeleted?.(project.id);
+    await reload();
+  };
+
+  return (
+    <div className="w-full max-w-5xl mt-12">
+      <h3 className="text-lg font-bold text-white flex items-center gap-2 mb-4">
+        <Library className="w-5 h-5 text-blue-400" />
+        {t('library.title')}
+        <span className="text-xs text-gray-500 font-normal">{t('library.count', { count: projects.length })}</span>
+      </h3>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+        {projects.map(project => {
+          const isComplete = project.shotCount > 0 && project.completedCount === project.shotCount;
+          return (
+            <div key={project.id} className="bg-gray-800 border border-gray-700 rounded-xl overflow-hidden flex flex-col">
+              <button
+                onClick={() => onOpen(project.id)}
+                className="relative aspect-video bg-black/40 group"
+                title={t('library.openHint')}
+              >
+                {project.thumbnail ? (
+                  <img src={project.thumbnail} alt={project.title} className="w-full h-full object-cover group-hover:opacity-80 transition-opacity" />
+                ) : (
+                  <Film className="w-8 h-8 text-gray-600 absolute inset-0 m-auto" />
+                )}
+                <span className={`absolute top-2 right-2 px-2 py-0.5 rounded text-[10px] border ${isComplete ? 'bg-green-900/70 border-green-600/50 text-green-300' : 'bg-black/70 border-gray-600 text-gray-300'}`}>
+                  {isComplete ? t('library.complete') : t('library.progress', { completed: project.completedCount, total: project.shotCount })}
+                </span>
+              </button>
+
+              <div className="p-3 flex-1 flex flex-col gap-2">
+                {editingId === project.id ? (
+                  <div className="flex items-center gap-1">
+                    <input
+                      autoFocus
+                      value={draftTitle}
+                      onChange={(e) => setDraftTitle(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') commitRename();
+                        if (e.key === 'Escape') setEditingId(null);
+                      }}
+                      className="flex-1 min-w-0 bg-gray-900 border border-gray-700 rounded px-2 py-1 text-sm text-white focus:ring-2 focus:ring-blue-500 outline-none"
+                    />
+                    <button onClick={commitRename} className="p-1 text-green-400 hover:bg-gray-700 rounded" title={t('common.save')}>
+                      <Check className="w-4 h-4" />
+                    </button>
+                    <button onClick={() => setEditingId(null)} className="p-1 text-gray-400 hover:bg-gray-700 rounded" title={t('common.cancel')}>
+                      <X className="w-4 h-4" />
+                    </button>
+                  </div>
+                ) : (
+                  <p className="text-sm font-medium text-gray-100 truncate" title={project.title}>{project.title}</p>
+                )}
+
+                <p className="text-xs text-gray-500">
+                  {t('library.shotCount', { count: project.shotCount })}
+                  {project.failedCount > 0 && <span className="text-red-400">{t('library.failedCount', { count: project.failedCount })}</span>}
+                  {' · '}{new Date(project.savedAt).toLocaleString(LANGUAGE_TAGS[language])}
+                </p>
+
+                <div className="h-1 rounded bg-gray-700 overflow-hidden">
+                  <div
+                    className={`h-full ${isComplete ? 'bg-green-500' : 'bg-blue-500'}`}
+                    style={{ width: `${project.shotCount > 0 ? (project.completedCount / project.shotCount) * 100 : 0}%` }}
+                  />
+                </div>
+
+                <div className="flex items-center gap-1 mt-auto pt-1">
+                  <button
+                    onClick={() => onOpen(project.id)}
+                    className="flex-1 flex items-center justify-center gap-1 px-2 py-1.5 bg-blue-600 hover:bg-blue-700 text-white text-xs rounded transition-colors"
+                  >
+                    <FolderOpen className="w-3 h-3" /> {t('library.open')}
+                  </button>
+                  <button onClick={() => startRename(project)} className="p-1.5 text-gray-400 hover:text-white hover:bg-gray-700 rounded transition-colors" title={t('library.rename')}>
+                    <Pencil className="w-4 h-4" />
+                  </button>
+                  <button onClick={() => handleDuplicate(project.id)} className="p-1.5 text-gray-400 hover:text-white hover:bg-gray-700 rounded transition-colors" title={t('library.duplicate')}>
+                    <Copy className="w-4 h-4" />
+                  </button>
+                  <button onClick={() => handleDelete(project)} className="p-1.5 text-gray-400 hover:text-red-400 hover:bg-gray-700 rounded transition-colors" title={t('library.delete')}>
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
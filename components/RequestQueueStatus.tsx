@@ -0,0 +1,51 @@
+import React, { useEffect, useState } from 'react';
+import { getQueueStatus, LaneStatus, subscribeQueueStatus } from '../services/requestQueue';
+import { useI18n } from '../services/i18n';
+import { Activity, Hourglass } from 'lucide-react';
+
+/**
+ * Per-model request lanes that have work: queued, running, and any rate-limit backoff.
+ */
+export const RequestQueueStatus: React.FC = () => {
+  const { t } = useI18n();
+  const [lanes, setLanes] = useState<LaneStatus[]>(getQueueStatus);
+  const [now, setNow] = useState(Date.now);
+
+  useEffect(() => subscribeQueueStatus(() => {
+    setLanes(getQueueStatus());
+    setNow(Date.now());
+  }), []);
+
+  // Ticks the backoff countdown
+  const isBackingOff = lanes.some(lane => lane.backoffUntil !== null && lane.backoffUntil > now);
+  useEffect(() => {
+    if (!isBackingOff) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [isBackingOff]);
+
+  const busyLanes = lanes.filter(lane => lane.waiting > 0 || lane.active > 0 || (lane.backoffUntil ?? 0) > now);
+  if (busyLanes.length === 0) return null;
+
+  return (
+    <div className="mb-6 -mt-3 px-4 py-2 rounded-lg bg-gray-800/50 border border-gray-700 space-y-1 no-print">
+      {busyLanes.map(lane => {
+        const backoffSeconds = lane.backoffUntil !== null ? Math.ceil((lane.backoffUntil - now) / 1000) : 0;
+        return (
+          <div key={lane.lane} className="flex flex-wrap items-center gap-x-4 gap-y-1 text-xs">
+            <span className="flex items-center gap-1.5 text-gray-300 font-mono">
+              <Activity className="w-3 h-3 text-gray-500" /> {lane.lane}
+            </span>
+            <span className="text-gray-400">{t('queue.waiting', { count: lane.waiting })}</span>
+            <span className="text-gray-400">{t('queue.active', { active: lane.active, limit: lane.concurrency })}</span>
+            {backoffSeconds > 0 && (
+              <span className="flex items-center gap-1 text-amber-400" title={t('queue.backingOffHint')}>
+                <Hourglass className="w-3 h-3" /> {t('queue.backingOff', { seconds: backoffSeconds })}
+              </span>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
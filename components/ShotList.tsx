@@ -1,50 +1,534 @@
-import React from 'react';
-import { Shot } from '../types';
-import { Zap, AlertCircle, Image as ImageIcon, Film, Loader2, Maximize, Video, Palette, Music, Clock, Download, RefreshCw, Trash2 } from 'lucide-react';
+import React, { useState } from 'react';
+import { Shot, EditableAnalysisField, Scene, CustomFieldValue, StandardAnalysisField } from '../types';
+import { getStartTimeBounds, getShotKeyframes, MIN_SHOT_DURATION } from '../services/shotEdits';
+import { customFieldEditKey, getAnalysisFieldText, getEffectiveAnalysis, isFieldEdited } from '../services/analysisEdits';
+import { formatCustomFieldValue, getStandardFieldLabel, getStandardFields, hasStandardField } from '../services/templates';
+import { SceneGroup, groupShotsByScene, hasScenes, isSceneDescriptionStale, formatSceneHeading } from '../services/scenes';
+import { LANGUAGE_TAGS, useI18n } from '../services/i18n';
+import { CAMERA_MOVEMENTS, formatCameraMovement, formatShotSize, SHOT_SIZES } from '../services/vocabulary';
+import { Zap, AlertCircle, Image as ImageIcon, Film, Loader2, Maximize, Video, Palette, Music, Clock, Download, RefreshCw, Trash2, Scissors, Merge, ChevronLeft, ChevronRight, Check, X, Play, AudioLines, MessageSquareQuote, Pencil, Undo2, LayoutTemplate, Layers, Sparkles, Combine, SeparatorHorizontal, ChevronDown, ChevronsDownUp, ChevronsUpDown, Database } from 'lucide-react';
 
 interface ShotListProps {
   shots: Shot[];
+  activeShotId?: string | null; // Shot under the player's playhead
+  onSeekShot?: (shotId: string) => void; // Only when the source video is loaded
   onGenerateImage: (shotId: string) => void;
   onRetryAnalysis: (shotId: string) => void;
   onDeleteShot: (shotId: string) => void;
+  onSplitShot?: (shotId: string, time: number) => Promise<void>; // Unavailable without the source video
+  onMergeShot: (shotId: string, keepAnalysis: boolean) => void;
+  onRetimeShot: (shotId: string, newStart: number) => void;
+  onEditAnalysis: (shotId: string, field: EditableAnalysisField, value: string | null) => void; // null reverts to the AI value
+  scenes: Scene[];
+  isDetectingScenes: boolean;
+  onDetectScenes: () => void;
+  onDescribeScene: (sceneId: string) => void;
+  onStartScene: (shotId: string) => void; // Opens a new scene at this shot
+  onMergeScene: (shotId: string) => void; // Folds the scene opened by this shot into the previous one
+  selectedShotIds: Set<string>; // Picked for bulk analysis
+  onToggleSelected: (shotId: string) => void;
 }
 
-export const ShotList: React.FC<ShotListProps> = ({ shots, onGenerateImage, onRetryAnalysis, onDeleteShot }) => {
+export const ShotList: React.FC<ShotListProps> = ({ shots, activeShotId, onSeekShot, onGenerateImage, onRetryAnalysis, onDeleteShot, onSplitShot, onMergeShot, onRetimeShot, onEditAnalysis, scenes, isDetectingScenes, onDetectScenes, onDescribeScene, onStartScene, onMergeScene, selectedShotIds, onToggleSelected }) => {
+  const { t } = useI18n();
+  // Collapsed scenes, keyed by the id of their first shot
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
   if (shots.length === 0) return null;
 
+  const showScenes = hasScenes(shots);
+  const groups = showScenes
+    ? groupShotsByScene(shots)
+    : [{ sceneId: undefined, startIndex: 0, shots }];
+  const sceneCount = groups.filter(group => group.sceneId !== undefined).length;
+
+  const toggleGroup = (key: string) => setCollapsed(prev => {
+    const next = new Set(prev);
+    if (next.has(key)) next.delete(key); else next.add(key);
+    return next;
+  });
+
+  const renderShot = (shot: Shot, index: number, isSceneStart: boolean) => (
+    <div key={shot.id} className="shot-card-print">
+      {showScenes && !isSceneStart && (
+        <button
+          onClick={() => onStartScene(shot.id)}
+          className="group/scene w-full flex items-center gap-2 mb-2 text-xs text-gray-600 hover:text-amber-400 transition-colors no-print"
+          title={t('scenes.splitHere')}
+        >
+          <span className="flex-1 border-t border-dashed border-gray-800 group-hover/scene:border-amber-500/60" />
+          <SeparatorHorizontal className="w-3 h-3" />
+          <span className="opacity-0 group-hover/scene:opacity-100 transition-opacity">{t('scenes.splitHere')}</span>
+          <span className="flex-1 border-t border-dashed border-gray-800 group-hover/scene:border-amber-500/60" />
+        </button>
+      )}
+      <ShotCard 
+        shot={shot} 
+        isActive={shot.id === activeShotId}
+        isSelected={selectedShotIds.has(shot.id)}
+        onToggleSelected={() => onToggleSelected(shot.id)}
+        onSeek={onSeekShot ? () => onSeekShot(shot.id) : undefined}
+        onGenerateImage={() => onGenerateImage(shot.id)} 
+        onRetryAnalysis={() => onRetryAnalysis(shot.id)}
+        onDelete={() => onDeleteShot(shot.id)}
+        onEdit={(field, value) => onEditAnalysis(shot.id, field, value)}
+        timing={{
+          startBounds: getStartTimeBounds(shots, shot.id),
+          hasNext: index < shots.length - 1,
+          onSplit: onSplitShot ? (time) => onSplitShot(shot.id, time) : undefined,
+          onMerge: (keepAnalysis) => onMergeShot(shot.id, keepAnalysis),
+          onRetime: (newStart) => onRetimeShot(shot.id, newStart),
+        }}
+      />
+    </div>
+  );
+
+  let sceneNumber = 0;
+
   return (
     <div className="w-full max-w-6xl mx-auto space-y-8">
       <div className="flex items-center justify-between mb-6 no-print">
         <h2 className="text-2xl font-bold text-white flex items-center gap-2">
           <Film className="w-6 h-6 text-blue-500" />
-          拉片结果 ({shots.length} 镜头)
+          {t('shots.title', { count: shots.length })}
+          {showScenes && <span className="text-sm font-normal text-gray-500">· {t('scenes.count', { count: sceneCount })}</span>}
         </h2>
+        <div className="flex items-center gap-2">
+          {showScenes && (
+            <button
+              onClick={() => setCollapsed(collapsed.size > 0 ? new Set() : new Set(groups.map(group => group.shots[0].id)))}
+              className="flex items-center gap-1 px-3 py-1.5 rounded-lg border border-gray-700 bg-gray-800 text-xs text-gray-300 hover:text-white transition-colors"
+            >
+              {collapsed.size > 0
+                ? <><ChevronsUpDown className="w-3 h-3" /> {t('scenes.expandAll')}</>
+                : <><ChevronsDownUp className="w-3 h-3" /> {t('scenes.collapseAll')}</>}
+            </button>
+          )}
+          <button
+            onClick={onDetectScenes}
+            disabled={isDetectingScenes}
+            className="flex items-center gap-1 px-3 py-1.5 rounded-lg border border-gray-700 bg-gray-800 text-xs text-gray-300 hover:text-white disabled:opacity-50 transition-colors"
+            title={t('scenes.detectHint')}
+          >
+            {isDetectingScenes ? <Loader2 className="w-3 h-3 animate-spin" /> : <Layers className="w-3 h-3" />}
+            {isDetectingScenes ? t('scenes.detecting') : showScenes ? t('scenes.redetect') : t('scenes.detect')}
+          </button>
+        </div>
       </div>
 
-      <div className="grid grid-cols-1 gap-8">
-        {shots.map((shot) => (
-          <div key={shot.id} className="shot-card-print">
-            <ShotCard 
-              shot={shot} 
-              onGenerateImage={() => onGenerateImage(shot.id)} 
-              onRetryAnalysis={() => onRetryAnalysis(shot.id)}
-              onDelete={() => onDeleteShot(shot.id)}
-            />
-          </div>
-        ))}
+      {showScenes ? (
+        <div className="space-y-8">
+          {groups.map((group, groupIndex) => {
+            const key = group.shots[0].id;
+            const isCollapsed = collapsed.has(key);
+            const number = group.sceneId !== undefined ? ++sceneNumber : null;
+            return (
+              <section key={key} className="space-y-6">
+                <SceneHeader
+                  number={number}
+                  group={group}
+                  scene={scenes.find(scene => scene.id === group.sceneId)}
+                  isCollapsed={isCollapsed}
+                  onToggle={() => toggleGroup(key)}
+                  onDescribe={group.sceneId !== undefined ? () => onDescribeScene(group.sceneId!) : undefined}
+                  onMerge={groupIndex > 0 ? () => onMergeScene(key) : undefined}
+                />
+                <div className={`grid grid-cols-1 gap-8 ${isCollapsed ? 'hidden print:grid' : ''}`}>
+                  {group.shots.map((shot, i) => renderShot(shot, group.startIndex + i, i === 0))}
+                </div>
+              </section>
+            );
+          })}
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 gap-8">
+          {shots.map((shot, index) => renderShot(shot, index, true))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+interface SceneHeaderProps {
+  number: number | null; // Null for shots added after detection, which belong to no scene
+  group: SceneGroup;
+  scene?: Scene;
+  isCollapsed: boolean;
+  onToggle: () => void;
+  onDescribe?: () => void;
+  onMerge?: () => void;
+}
+
+const SceneHeader: React.FC<SceneHeaderProps> = ({ number, group, scene, isCollapsed, onToggle, onDescribe, onMerge }) => {
+  const { t } = useI18n();
+  const first = group.shots[0];
+  const last = group.shots[group.shots.length - 1];
+  const description = scene?.description;
+  const isStale = isSceneDescriptionStale(scene, group.shots);
+
+  const formatTime = (seconds: number) => {
+    const m = Math.floor(seconds / 60);
+    const s = Math.floor(seconds % 60);
+    return `${m.toString().padStart(2, '0')}:${s.toString().padStart(2, '0')}`;
+  };
+
+  return (
+    <div className="flex items-start gap-3 bg-gray-800/60 border border-gray-700 border-l-4 border-l-amber-500 rounded-xl px-4 py-3 print:bg-white print:border-gray-300 print:break-after-avoid">
+      <button
+        onClick={onToggle}
+        className="mt-0.5 p-1 text-gray-400 hover:text-white hover:bg-gray-700 rounded transition-colors no-print"
+        title={isCollapsed ? t('scenes.expand') : t('scenes.collapse')}
+      >
+        {isCollapsed ? <ChevronRight className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+      </button>
+
+      <div className="flex-1 min-w-0">
+        <div className="flex flex-wrap items-baseline gap-x-3 gap-y-1">
+          <span className="text-xs font-bold uppercase tracking-wider text-amber-400 print:text-black">
+            {number !== null ? t('scenes.number', { index: number }) : t('scenes.unassigned')}
+          </span>
+          {description && (
+            <>
+              <span className="font-mono text-sm text-white print:text-black">{formatSceneHeading(description)}</span>
+              <span className="text-sm text-gray-300 print:text-gray-700">{description.title}</span>
+            </>
+          )}
+          <span className="text-xs text-gray-500">
+            {t('scenes.stats', { count: group.shots.length, start: formatTime(first.timestamp), end: formatTime(last.timestamp + last.duration) })}
+          </span>
+        </div>
+        {description && (
+          <p className="text-sm text-gray-400 mt-1 leading-relaxed print:text-black">{description.synopsis}</p>
+        )}
+        {scene?.isDescribing && (
+          <p className="text-xs text-purple-300 mt-1 flex items-center gap-1">
+            <Loader2 className="w-3 h-3 animate-spin" /> {t('scenes.describing')}
+          </p>
+        )}
+        {scene?.error && !scene.isDescribing && (
+          <p className="text-xs text-red-400 mt-1 flex items-center gap-1">
+            <AlertCircle className="w-3 h-3" /> {t('scenes.describeFailed', { message: scene.error })}
+          </p>
+        )}
+        {isStale && !scene?.isDescribing && (
+          <p className="text-xs text-amber-400 mt-1">{t('scenes.stale')}</p>
+        )}
+      </div>
+
+      <div className="flex items-center gap-1 no-print">
+        {onDescribe && (
+          <button
+            onClick={onDescribe}
+            disabled={scene?.isDescribing}
+            className="p-1.5 text-gray-400 hover:text-purple-300 hover:bg-gray-700 rounded transition-colors disabled:opacity-50"
+            title={description ? t('scenes.redescribe') : t('scenes.describe')}
+          >
+            {description ? <RefreshCw className="w-4 h-4" /> : <Sparkles className="w-4 h-4" />}
+          </button>
+        )}
+        {onMerge && (
+          <button
+            onClick={onMerge}
+            className="p-1.5 text-gray-400 hover:text-white hover:bg-gray-700 rounded transition-colors"
+            title={t('scenes.merge')}
+          >
+            <Combine className="w-4 h-4" />
+          </button>
+        )}
       </div>
     </div>
   );
 };
 
+interface ShotTimingControls {
+  startBounds: { min: number; max: number } | null;
+  hasNext: boolean;
+  onSplit?: (time: number) => Promise<void>;
+  onMerge: (keepAnalysis: boolean) => void;
+  onRetime: (newStart: number) => void;
+}
+
+interface EditableTextProps {
+  value: string; // Shown value (human edit if any, else AI)
+  aiValue: string;
+  isEdited: boolean;
+  onSave: (value: string | null) => void; // null reverts to the AI value
+  className: string;
+  multiline?: boolean;
+  options?: { value: string; label: string }[]; // Pick from a vocabulary instead of typing
+  format?: (value: string) => string; // How a value is shown when not being edited, e.g. with its unit
+}
+
+/**
+ * An analysis field that can be corrected in place. Edited fields carry a marker and keep
+ * the AI's original value one click away.
+ */
+const EditableText: React.FC<EditableTextProps> = ({ value, aiValue, isEdited, onSave, className, multiline, options, format }) => {
+  const { t } = useI18n();
+  const [draft, setDraft] = useState<string | null>(null);
+  const label = (text: string) => options?.find(option => option.value === text)?.label ?? (format ? format(text) : text);
+
+  if (draft !== null && options) {
+    return (
+      <select
+        autoFocus
+        value={draft}
+        onChange={(e) => {
+          onSave(e.target.value);
+          setDraft(null);
+        }}
+        onBlur={() => setDraft(null)}
+        onKeyDown={(e) => { if (e.key === 'Escape') setDraft(null); }}
+        className="w-full bg-gray-900 border border-blue-500 rounded px-2 py-1 text-sm text-white outline-none no-print"
+      >
+        {/* An old free-text value that matches no term stays selectable until replaced */}
+        {!options.some(option => option.value === draft) && <option value={draft}>{draft}</option>}
+        {options.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+      </select>
+    );
+  }
+
+  if (draft !== null) {
+    const save = () => {
+      onSave(draft.trim() ? draft.trim() : null);
+      setDraft(null);
+    };
+    return (
+      <div className="space-y-1 no-print">
+        <textarea
+          autoFocus
+          value={draft}
+          rows={multiline ? 4 : 2}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && (e.metaKey || e.ctrlKey || !multiline)) {
+              e.preventDefault();
+              save();
+            }
+            if (e.key === 'Escape') setDraft(null);
+          }}
+          className="w-full bg-gray-900 border border-blue-500 rounded px-2 py-1 text-sm text-white outline-none resize-y"
+        />
+        <div className="flex justify-end gap-1">
+          <button onClick={() => setDraft(null)} className="p-1 text-gray-400 hover:text-white hover:bg-gray-700 rounded" title={t('common.cancel')}>
+            <X className="w-3 h-3" />
+          </button>
+          <button onClick={save} className="p-1 text-green-400 hover:bg-gray-700 rounded" title={t('edit.save')}>
+            <Check className="w-3 h-3" />
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="group/edit relative">
+      <div className={`${className} ${isEdited ? 'pr-1' : ''}`}>
+        {label(value)}
+        <button
+          onClick={() => setDraft(value)}
+          className="ml-1 inline-flex align-middle p-0.5 text-gray-500 hover:text-white rounded opacity-0 group-hover/edit:opacity-100 focus:opacity-100 transition-opacity no-print"
+          title={t('edit.edit')}
+        >
+          <Pencil className="w-3 h-3" />
+        </button>
+      </div>
+      {isEdited && (
+        <div className="mt-1 flex items-center gap-1 text-[10px] text-amber-400 print:text-gray-600">
+          <span className="px-1 rounded bg-amber-900/30 border border-amber-600/40 font-bold print:border-gray-400 print:bg-white">{t('edit.edited')}</span>
+          <span className="truncate text-gray-500" title={label(aiValue)}>{t('edit.aiValue', { value: label(aiValue) })}</span>
+          <button
+            onClick={() => onSave(null)}
+            className="flex-shrink-0 p-0.5 text-gray-500 hover:text-white rounded no-print"
+            title={t('edit.revert')}
+          >
+            <Undo2 className="w-3 h-3" />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Step used by the start-time nudge buttons (seconds)
+const NUDGE_SECONDS = 0.1;
+
+/**
+ * Split / merge / nudge controls shown under a shot's frame.
+ */
+const ShotTimingBar: React.FC<{ shot: Shot; timing: ShotTimingControls }> = ({ shot, timing }) => {
+  const { t } = useI18n();
+  const [mode, setMode] = useState<'idle' | 'split' | 'merge'>('idle');
+  const [splitTime, setSplitTime] = useState(0);
+  const [isSplitting, setIsSplitting] = useState(false);
+
+  const end = shot.timestamp + shot.duration;
+  const canSplit = !!timing.onSplit && shot.duration >= MIN_SHOT_DURATION * 2;
+  const isSplitTimeValid = splitTime >= shot.timestamp + MIN_SHOT_DURATION && splitTime <= end - MIN_SHOT_DURATION;
+  const bounds = timing.startBounds;
+
+  const openSplit = () => {
+    setSplitTime(Math.round((shot.timestamp + shot.duration / 2) * 10) / 10);
+    setMode(mode === 'split' ? 'idle' : 'split');
+  };
+
+  const confirmSplit = async () => {
+    if (!timing.onSplit || !isSplitTimeValid) return;
+    setIsSplitting(true);
+    try {
+      await timing.onSplit(splitTime);
+      setMode('idle');
+    } finally {
+      setIsSplitting(false);
+    }
+  };
+
+  const buttonClass = "px-2 py-1 bg-gray-800 hover:bg-gray-700 disabled:opacity-40 disabled:cursor-not-allowed text-gray-300 rounded border border-gray-700 transition-colors flex items-center gap-1";
+
+  return (
+    <div className="border-t border-gray-700 bg-gray-900/60 px-3 py-2 text-xs text-gray-400 space-y-2 no-print">
+      <div className="flex items-center gap-2">
+        <button
+          onClick={() => bounds && timing.onRetime(shot.timestamp - NUDGE_SECONDS)}
+          disabled={!bounds || shot.timestamp - NUDGE_SECONDS < bounds.min}
+          className={buttonClass}
+          title={t('timing.nudgeEarlier', { seconds: NUDGE_SECONDS })}
+        >
+          <ChevronLeft className="w-3 h-3" />
+        </button>
+        <span className="font-mono text-gray-200" title={t('timing.startTime')}>{shot.timestamp.toFixed(2)}s</span>
+        <button
+          onClick={() => bounds && timing.onRetime(shot.timestamp + NUDGE_SECONDS)}
+          disabled={!bounds || shot.timestamp + NUDGE_SECONDS > bounds.max}
+          className={buttonClass}
+          title={t('timing.nudgeLater', { seconds: NUDGE_SECONDS })}
+        >
+          <ChevronRight className="w-3 h-3" />
+        </button>
+
+        <div className="ml-auto flex items-center gap-2">
+          <button
+            onClick={openSplit}
+            disabled={!canSplit}
+            className={buttonClass}
+            title={timing.onSplit ? t('timing.splitHint') : t('timing.splitUnavailable')}
+          >
+            <Scissors className="w-3 h-3" /> {t('timing.split')}
+          </button>
+          <button
+            onClick={() => setMode(mode === 'merge' ? 'idle' : 'merge')}
+            disabled={!timing.hasNext}
+            className={buttonClass}
+            title={t('timing.mergeHint')}
+          >
+            <Merge className="w-3 h-3" /> {t('timing.merge')}
+          </button>
+        </div>
+      </div>
+
+      {mode === 'split' && (
+        <div className="flex items-center gap-2">
+          <label className="whitespace-nowrap">{t('timing.splitAt')}</label>
+          <input
+            type="number"
+            step={0.1}
+            min={shot.timestamp + MIN_SHOT_DURATION}
+            max={end - MIN_SHOT_DURATION}
+            value={splitTime}
+            onChange={(e) => setSplitTime(Number(e.target.value))}
+            className="w-24 bg-gray-900 border border-gray-700 rounded px-2 py-1 text-white font-mono outline-none focus:ring-1 focus:ring-blue-500"
+          />
+          <button
+            onClick={confirmSplit}
+            disabled={!isSplitTimeValid || isSplitting}
+            className={buttonClass}
+          >
+            {isSplitting ? <Loader2 className="w-3 h-3 animate-spin" /> : <Check className="w-3 h-3" />}
+            {t('common.confirm')}
+          </button>
+          <button onClick={() => setMode('idle')} className={buttonClass}>
+            <X className="w-3 h-3" />
+          </button>
+        </div>
+      )}
+
+      {mode === 'merge' && (
+        <div className="flex items-center gap-2">
+          <span className="whitespace-nowrap">{t('timing.afterMerge')}</span>
+          <button
+            onClick={() => { timing.onMerge(true); setMode('idle'); }}
+            disabled={!shot.analysis}
+            className={buttonClass}
+          >
+            {t('timing.keepAnalysis')}
+          </button>
+          <button
+            onClick={() => { timing.onMerge(false); setMode('idle'); }}
+            className={buttonClass}
+          >
+            <RefreshCw className="w-3 h-3" /> {t('shot.reanalyze')}
+          </button>
+          <button onClick={() => setMode('idle')} className={buttonClass}>
+            <X className="w-3 h-3" />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Standard fields shown in the stats grid next to the shot's duration
+const STAT_FIELD_ICONS: Partial<Record<StandardAnalysisField, React.ReactNode>> = {
+  shotSize: <Maximize className="w-3 h-3" />,
+  cameraMovement: <Video className="w-3 h-3" />,
+  soundAtmosphere: <Music className="w-3 h-3" />,
+};
+
 interface ShotCardProps {
   shot: Shot;
+  isActive: boolean;
+  isSelected: boolean;
+  onToggleSelected: () => void;
+  onSeek?: () => void;
   onGenerateImage: () => void;
   onRetryAnalysis: () => void;
   onDelete: () => void;
+  onEdit: (field: EditableAnalysisField, value: string | null) => void;
+  timing: ShotTimingControls;
 }
 
-const ShotCard: React.FC<ShotCardProps> = ({ shot, onGenerateImage, onRetryAnalysis, onDelete }) => {
+const ShotCard: React.FC<ShotCardProps> = ({ shot, isActive, isSelected, onToggleSelected, onSeek, onGenerateImage, onRetryAnalysis, onDelete, onEdit, timing }) => {
+  const { language, t } = useI18n();
+  const keyframes = getShotKeyframes(shot);
+  // Short labels for the keyframe scrubber, in time order
+  const keyframeLabels = [t('shot.keyframe.start'), t('shot.keyframe.middle'), t('shot.keyframe.end')];
+  const analysis = getEffectiveAnalysis(shot);
+
+  const editable = (field: EditableAnalysisField, className: string, multiline = false, options?: EditableTextProps['options'], format?: EditableTextProps['format']) => (
+    <EditableText
+      value={getAnalysisFieldText(analysis, field)}
+      aiValue={getAnalysisFieldText(shot.analysis, field)}
+      isEdited={isFieldEdited(shot, field)}
+      onSave={(value) => onEdit(field, value)}
+      className={className}
+      multiline={multiline}
+      options={options}
+      format={format}
+    />
+  );
+  // Number fields keep their rounding and unit; a correction that isn't a number shows as typed
+  const formatNumberField = (field: CustomFieldValue) => (value: string) =>
+    value.trim() && Number.isFinite(Number(value)) ? formatCustomFieldValue({ ...field, value: Number(value) }) : value;
+  const shotSizeOptions = SHOT_SIZES.map(code => ({ value: code, label: formatShotSize(code, t) }));
+  const cameraMovementOptions = CAMERA_MOVEMENTS.map(code => ({ value: code, label: formatCameraMovement(code, t) }));
+  // The standard fields of the template the shot was analysed with, under its labels
+  const standardFields = getStandardFields(analysis);
+  const statFields = standardFields.filter(({ field }) => field in STAT_FIELD_ICONS);
+  const textFields = standardFields.filter(({ field }) => field === 'visualDescription' || field === 'lightingAndColor');
+  const promptField = standardFields.find(({ field }) => field === 'aiPrompt');
+  const hasPrompt = hasStandardField(analysis, 'aiPrompt');
+  const [frameIndex, setFrameIndex] = useState(0);
+  const currentFrame = keyframes[Math.min(frameIndex, keyframes.length - 1)];
+
   const formatTime = (seconds: number) => {
     const m = Math.floor(seconds / 60);
     const s = Math.floor(seconds % 60);
@@ -61,7 +545,7 @@ const ShotCard: React.FC<ShotCardProps> = ({ shot, onGenerateImage, onRetryAnaly
   };
 
   return (
-    <div className="bg-gray-800 rounded-xl overflow-hidden border border-gray-700 shadow-xl flex flex-col xl:flex-row print:border-gray-300 print:shadow-none print:bg-white print:text-black relative group/card">
+    <div className={`bg-gray-800 rounded-xl overflow-hidden border shadow-xl flex flex-col xl:flex-row print:border-gray-300 print:shadow-none print:bg-white print:text-black relative group/card transition-colors ${isActive ? 'border-blue-500 ring-2 ring-blue-500/40' : isSelected ? 'border-purple-500/70' : 'border-gray-700'}`}>
       
       {/* Delete Button (Fixed: Immediate Action, High Z-Index, Prevent Defaults) */}
       <button 
@@ -72,7 +556,7 @@ const ShotCard: React.FC<ShotCardProps> = ({ shot, onGenerateImage, onRetryAnaly
           onDelete();
         }}
         className="absolute top-2 right-2 z-40 p-2 bg-gray-900/90 text-gray-400 hover:text-red-400 hover:bg-gray-950 rounded-full transition-all border border-gray-600 hover:border-red-500/50 shadow-lg cursor-pointer hover:scale-110 active:scale-95 no-print"
-        title="删除此镜头"
+        title={t('shot.delete')}
       >
         <Trash2 className="w-4 h-4" />
       </button>
@@ -81,41 +565,130 @@ const ShotCard: React.FC<ShotCardProps> = ({ shot, onGenerateImage, onRetryAnaly
       <div className="xl:w-[400px] flex-shrink-0 border-b xl:border-b-0 xl:border-r border-gray-700 flex flex-col bg-black/20 print:bg-white print:border-gray-300">
         <div className="relative group">
           <img 
-            src={shot.originalImage} 
-            alt={`Shot at ${formatTime(shot.timestamp)}`}
+            src={currentFrame.image} 
+            alt={`Shot at ${formatTime(currentFrame.time)}`}
             className="w-full h-auto object-cover"
           />
-          <div className="absolute top-2 left-2 bg-black/70 px-2 py-1 rounded text-xs text-white font-mono border border-gray-600 print:border-black print:text-black print:bg-white/80">
-            {formatTime(shot.timestamp)}
+          <div className="absolute top-2 left-2 flex items-center gap-1">
+            <label
+              className="flex items-center px-1.5 py-1 bg-black/70 rounded border border-gray-600 cursor-pointer hover:border-purple-400 no-print"
+              title={t('shot.select')}
+            >
+              <input
+                type="checkbox"
+                checked={isSelected}
+                onChange={onToggleSelected}
+                className="w-3.5 h-3.5 accent-purple-500 cursor-pointer"
+              />
+            </label>
+            {onSeek ? (
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onSeek();
+                }}
+                className="bg-black/70 hover:bg-blue-600 px-2 py-1 rounded text-xs text-white font-mono border border-gray-600 hover:border-blue-400 transition-colors flex items-center gap-1 print:border-black print:text-black print:bg-white/80"
+                title={t('shot.play')}
+              >
+                <Play className="w-3 h-3 print:hidden" />
+                {formatTime(shot.timestamp)}
+              </button>
+            ) : (
+              <div className="bg-black/70 px-2 py-1 rounded text-xs text-white font-mono border border-gray-600 print:border-black print:text-black print:bg-white/80">
+                {formatTime(shot.timestamp)}
+              </div>
+            )}
           </div>
+          {!!shot.mergedFrames && (
+            <div
+              className="absolute bottom-2 left-2 bg-black/70 px-2 py-0.5 rounded text-[10px] text-gray-300 border border-gray-600 no-print"
+              title={t('shot.mergedFramesHint')}
+            >
+              {t('shot.mergedFrames', { count: shot.mergedFrames })}
+            </div>
+          )}
           <button
             onClick={(e) => {
               e.stopPropagation();
-              downloadImage(shot.originalImage, `shot-${shot.timestamp.toFixed(2)}.jpg`);
+              downloadImage(currentFrame.image, `shot-${currentFrame.time.toFixed(2)}.jpg`);
             }}
             className="absolute bottom-2 right-2 p-1.5 bg-black/60 hover:bg-black/80 text-white rounded transition-colors backdrop-blur-sm border border-white/10 z-20 hover:scale-105 no-print"
-            title="下载原图"
+            title={t('shot.downloadFrame')}
           >
             <Download className="w-4 h-4" />
           </button>
         </div>
+
+        {/* Keyframe Scrubber (hover or click to preview start / middle / end) */}
+        {keyframes.length > 1 && (
+          <div className="flex gap-1 p-1 bg-gray-900/60 border-t border-gray-700 no-print">
+            {keyframes.map((frame, index) => (
+              <button
+                key={`${frame.time}-${index}`}
+                onMouseEnter={() => setFrameIndex(index)}
+                onFocus={() => setFrameIndex(index)}
+                onClick={() => setFrameIndex(index)}
+                className={`relative flex-1 rounded overflow-hidden border transition-all ${index === frameIndex ? 'border-blue-400' : 'border-transparent opacity-60 hover:opacity-100'}`}
+                title={`${formatTime(frame.time)}`}
+              >
+                <img src={frame.image} alt={`Keyframe ${index + 1}`} className="w-full h-auto object-cover" />
+                <span className="absolute bottom-0.5 left-0.5 bg-black/70 px-1 rounded text-[10px] text-white font-mono">
+                  {keyframeLabels[index] || index + 1} {frame.time.toFixed(1)}s
+                </span>
+              </button>
+            ))}
+          </div>
+        )}
+
+        {/* Dominant Palette (computed locally from the frame) */}
+        {shot.palette && (
+          <div className="flex items-center gap-3 px-3 py-2 border-t border-gray-700 print:border-gray-300">
+            <div className="flex flex-1 h-5 rounded overflow-hidden [print-color-adjust:exact]">
+              {shot.palette.swatches.map((swatch, i) => (
+                <div
+                  key={i}
+                  className="h-full"
+                  style={{ backgroundColor: swatch.hex, flexGrow: swatch.share }}
+                  title={`${swatch.hex} · ${Math.round(swatch.share * 100)}%`}
+                />
+              ))}
+            </div>
+            <span className="text-[10px] text-gray-500 font-mono whitespace-nowrap print:text-gray-700">
+              {t('shot.paletteStats', { luminance: Math.round(shot.palette.luminance * 100), saturation: Math.round(shot.palette.saturation * 100) })}
+            </span>
+          </div>
+        )}
+
+        <ShotTimingBar shot={shot} timing={timing} />
         
         {/* Generated Image Section */}
-        {shot.generatedImage ? (
+        {shot.generatedImage && !shot.isGeneratingImage ? (
            <div className="relative mt-auto border-t border-gray-700 print:border-gray-300">
              <div className="absolute top-2 left-2 z-10 bg-purple-600/90 px-2 py-1 rounded text-xs text-white font-bold flex items-center gap-1 shadow-lg backdrop-blur-sm print:hidden">
-               <Zap className="w-3 h-3" /> Nano Banana 重绘
+               <Zap className="w-3 h-3" /> {t('shot.generatedBadge')}
+             </div>
+             <div className="absolute top-2 right-2 z-10 flex gap-1 no-print">
+               <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onGenerateImage();
+                  }}
+                  className="p-1.5 bg-black/60 hover:bg-black/80 text-white rounded transition-colors backdrop-blur-sm border border-white/10 hover:scale-105"
+                  title={t('shot.regenerateImage')}
+                >
+                  <RefreshCw className="w-4 h-4" />
+                </button>
+               <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    downloadImage(shot.generatedImage!, `generated-${shot.id}.jpg`);
+                  }}
+                  className="p-1.5 bg-black/60 hover:bg-black/80 text-white rounded transition-colors backdrop-blur-sm border border-white/10 hover:scale-105"
+                  title={t('shot.downloadGenerated')}
+                >
+                  <Download className="w-4 h-4" />
+                </button>
              </div>
-             <button
-                onClick={(e) => {
-                  e.stopPropagation();
-                  downloadImage(shot.generatedImage!, `generated-${shot.id}.jpg`);
-                }}
-                className="absolute top-2 right-2 z-10 p-1.5 bg-black/60 hover:bg-black/80 text-white rounded transition-colors backdrop-blur-sm border border-white/10 hover:scale-105 no-print"
-                title="下载 AI 生成图"
-              >
-                <Download className="w-4 h-4" />
-              </button>
              <img 
                src={shot.generatedImage} 
                alt="AI Generated"
@@ -127,23 +700,23 @@ const ShotCard: React.FC<ShotCardProps> = ({ shot, onGenerateImage, onRetryAnaly
             {shot.isGeneratingImage ? (
               <div className="flex flex-col items-center gap-3 text-purple-400">
                 <Loader2 className="w-8 h-8 animate-spin" />
-                <span className="text-sm font-medium">Nano Banana 正在绘制分镜...</span>
+                <span className="text-sm font-medium">{t('shot.generatingImage')}</span>
               </div>
             ) : shot.imageGenError ? (
                 <div className="flex flex-col items-center gap-3 text-red-400 p-2 text-center w-full">
                     <div className="flex items-center gap-2">
                          <AlertCircle className="w-5 h-5" />
-                         <span className="text-sm font-bold">生图失败</span>
+                         <span className="text-sm font-bold">{t('shot.imageFailed')}</span>
                     </div>
                     <span className="text-xs text-gray-400 break-words w-full px-2">{shot.imageGenError}</span>
                     <button 
                         onClick={onGenerateImage}
                         className="mt-2 px-3 py-1.5 bg-gray-700 hover:bg-gray-600 text-white text-xs rounded border border-gray-600 flex items-center gap-1 transition-colors"
                     >
-                        <RefreshCw className="w-3 h-3" /> 重试生图
+                        <RefreshCw className="w-3 h-3" /> {t('shot.retryImage')}
                     </button>
                 </div>
-            ) : shot.analysis ? (
+            ) : shot.analysis && hasPrompt ? (
               <button
                 onClick={onGenerateImage}
                 className="group flex flex-col items-center gap-2 text-gray-500 hover:text-purple-400 transition-colors"
@@ -151,10 +724,12 @@ const ShotCard: React.FC<ShotCardProps> = ({ shot, onGenerateImage, onRetryAnaly
                 <div className="w-12 h-12 rounded-full bg-gray-800 group-hover:bg-purple-900/30 flex items-center justify-center border border-gray-700 group-hover:border-purple-500/50 transition-all">
                   <ImageIcon className="w-6 h-6" />
                 </div>
-                <span className="text-sm font-medium">生成 AI 概念图</span>
+                <span className="text-sm font-medium">{t('shot.generateConcept')}</span>
               </button>
+            ) : shot.analysis ? (
+               <span className="text-gray-600 text-sm text-center">{t('shot.noPromptField')}</span>
             ) : (
-               <span className="text-gray-600 text-sm">等待分析完成...</span>
+               <span className="text-gray-600 text-sm">{t('shot.waitingForAnalysis')}</span>
             )}
           </div>
         )}
@@ -165,13 +740,13 @@ const ShotCard: React.FC<ShotCardProps> = ({ shot, onGenerateImage, onRetryAnaly
         {shot.status === 'analyzing' ? (
           <div className="flex-1 flex flex-col items-center justify-center text-blue-400 space-y-3 min-h-[300px]">
             <Loader2 className="w-8 h-8 animate-spin" />
-            <p>Gemini 正在分析此镜头...</p>
+            <p>{t('shot.analyzing')}</p>
           </div>
         ) : shot.status === 'failed' ? (
           <div className="flex-1 flex flex-col items-center justify-center text-red-400 gap-4 min-h-[300px] p-4 text-center">
             <div className="flex items-center gap-2 text-lg font-medium">
                 <AlertCircle className="w-6 h-6" />
-                分析失败
+                {t('shot.analysisFailed')}
             </div>
             <p className="text-sm text-gray-500 break-all max-w-md">{shot.error}</p>
             <button 
@@ -179,89 +754,186 @@ const ShotCard: React.FC<ShotCardProps> = ({ shot, onGenerateImage, onRetryAnaly
                 className="flex items-center gap-2 px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-lg transition-colors shadow-lg border border-gray-600"
             >
                 <RefreshCw className="w-4 h-4" />
-                重新分析
+                {t('shot.reanalyze')}
             </button>
           </div>
-        ) : shot.analysis ? (
+        ) : analysis ? (
           <div className="space-y-6 print:space-y-4">
             
             {/* Shot Stats Grid */}
             <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mr-8"> {/* mr-8 to avoid overlap with delete button */}
               <div className="bg-gray-900/80 p-3 rounded-lg border border-gray-700/50 print:bg-white print:border-gray-300 print:text-black">
                 <div className="flex items-center gap-2 text-gray-500 text-xs mb-1 uppercase font-bold print:text-gray-700">
-                  <Maximize className="w-3 h-3" /> 景别
+                  <Clock className="w-3 h-3" /> {t('shot.duration')}
                 </div>
-                <div className="text-blue-200 font-medium text-sm print:text-black">{shot.analysis.shotSize}</div>
+                <div className="text-blue-200 font-medium text-sm print:text-black">{t('common.seconds', { value: shot.duration })}</div>
               </div>
-              <div className="bg-gray-900/80 p-3 rounded-lg border border-gray-700/50 print:bg-white print:border-gray-300 print:text-black">
-                <div className="flex items-center gap-2 text-gray-500 text-xs mb-1 uppercase font-bold print:text-gray-700">
-                  <Video className="w-3 h-3" /> 镜头运动
+              {statFields.map(setting => (
+                <div key={setting.field} className="bg-gray-900/80 p-3 rounded-lg border border-gray-700/50 print:bg-white print:border-gray-300 print:text-black">
+                  <div className="flex items-center gap-2 text-gray-500 text-xs mb-1 uppercase font-bold print:text-gray-700">
+                    {STAT_FIELD_ICONS[setting.field]} {getStandardFieldLabel(setting, t)}
+                  </div>
+                  {setting.field === 'shotSize' && editable('shotSize', "text-blue-200 font-medium text-sm print:text-black", false, shotSizeOptions)}
+                  {setting.field === 'cameraMovement' && editable('cameraMovement', "text-blue-200 font-medium text-sm print:text-black", false, cameraMovementOptions)}
+                  {setting.field === 'cameraMovement' && analysis.cameraMovementConfidence !== undefined && !isFieldEdited(shot, 'cameraMovement') && (
+                    <div
+                      className={`text-[10px] mt-1 ${analysis.cameraMovementConfidence >= 0.7 ? 'text-green-400' : analysis.cameraMovementConfidence >= 0.4 ? 'text-yellow-400' : 'text-red-400'} print:text-gray-700`}
+                      title={keyframes.length > 1 ? t('shot.confidenceMultiFrame', { count: keyframes.length }) : t('shot.confidenceSingleFrame')}
+                    >
+                      {t('shot.confidence', { percent: Math.round(analysis.cameraMovementConfidence * 100) })}
+                    </div>
+                  )}
+                  {setting.field === 'soundAtmosphere' && editable('soundAtmosphere', "text-blue-200 font-medium text-xs leading-tight print:text-black", true)}
                 </div>
-                <div className="text-blue-200 font-medium text-sm print:text-black">{shot.analysis.cameraMovement}</div>
-              </div>
-              <div className="bg-gray-900/80 p-3 rounded-lg border border-gray-700/50 print:bg-white print:border-gray-300 print:text-black">
-                <div className="flex items-center gap-2 text-gray-500 text-xs mb-1 uppercase font-bold print:text-gray-700">
-                  <Clock className="w-3 h-3" /> 时长
+              ))}
+            </div>
+
+            {/* Nuance the shot size and movement terms can't carry */}
+            {(hasStandardField(analysis, 'shotSize') || hasStandardField(analysis, 'cameraMovement')) && (
+              <div className={`flex items-start gap-2 text-xs mr-8 ${analysis.cinematographyNotes ? '' : 'print:hidden'}`}>
+                <span className="flex-shrink-0 pt-0.5 text-gray-500 font-bold uppercase print:text-gray-700">{t('shot.cinematographyNotes')}</span>
+                <div className="flex-1 min-w-0">
+                  {editable('cinematographyNotes', "text-gray-300 text-xs leading-relaxed print:text-black")}
                 </div>
-                <div className="text-blue-200 font-medium text-sm print:text-black">{shot.duration} 秒</div>
               </div>
-              <div className="bg-gray-900/80 p-3 rounded-lg border border-gray-700/50 print:bg-white print:border-gray-300 print:text-black">
-                 <div className="flex items-center gap-2 text-gray-500 text-xs mb-1 uppercase font-bold print:text-gray-700">
-                  <Music className="w-3 h-3" /> 声音/音乐
-                </div>
-                <div className="text-blue-200 font-medium text-xs leading-tight line-clamp-2 print:text-black" title={shot.analysis.soundAtmosphere}>
-                  {shot.analysis.soundAtmosphere}
-                </div>
+            )}
+
+            {/* Measured Audio (local Web Audio analysis) */}
+            {shot.audioFeatures && (
+              <div className="flex flex-wrap items-center gap-2 text-xs mr-8">
+                <span className="flex items-center gap-1 text-gray-500 font-bold uppercase print:text-gray-700">
+                  <AudioLines className="w-3 h-3" /> {t('shot.measuredAudio')}
+                </span>
+                <span className="px-2 py-0.5 rounded bg-gray-900/80 border border-gray-700/50 text-gray-300 font-mono print:bg-white print:text-black" title={t('shot.loudnessHint')}>
+                  {shot.audioFeatures.loudnessLufs !== null ? `${shot.audioFeatures.loudnessLufs} LUFS` : `${shot.audioFeatures.rmsDb} dBFS`}
+                </span>
+                <span className="px-2 py-0.5 rounded bg-gray-900/80 border border-gray-700/50 text-gray-300 print:bg-white print:text-black" title={t('shot.silenceHint')}>
+                  {t('audio.silenceRatio', { percent: Math.round(shot.audioFeatures.silenceRatio * 100) })}
+                </span>
+                <span
+                  className="px-2 py-0.5 rounded bg-gray-900/80 border border-gray-700/50 text-gray-300 print:bg-white print:text-black"
+                  title={t('shot.audioScores', { speech: shot.audioFeatures.speechScore, music: shot.audioFeatures.musicScore })}
+                >
+                  {t(`audio.${shot.audioFeatures.content}`)}
+                </span>
+                {shot.audioFeatures.tempoBpm !== null && (
+                  <span className="px-2 py-0.5 rounded bg-gray-900/80 border border-gray-700/50 text-gray-300 font-mono print:bg-white print:text-black">
+                    ♩ {shot.audioFeatures.tempoBpm} BPM
+                  </span>
+                )}
               </div>
-            </div>
+            )}
+
+            {/* Dialogue from imported subtitles */}
+            {shot.dialogue && shot.dialogue.length > 0 && (
+              <div className="space-y-2 mr-8">
+                <h4 className="text-xs font-bold uppercase tracking-wider text-gray-500 flex items-center gap-1 print:text-gray-800">
+                  <MessageSquareQuote className="w-3 h-3" /> {t('shot.dialogue')}
+                </h4>
+                <ul className="space-y-1 border-l-2 border-gray-700 pl-3 print:border-gray-300">
+                  {shot.dialogue.map((cue, i) => (
+                    <li key={i} className="text-sm text-gray-300 leading-relaxed print:text-black">
+                      <span className="text-[10px] font-mono text-gray-500 mr-2">{formatTime(cue.start)}</span>
+                      {cue.speaker && <span className="text-blue-300 mr-1 print:text-black">{cue.speaker}:</span>}
+                      <span className="whitespace-pre-line">{cue.text}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
 
             {/* Visual Description & Lighting */}
-            <div className="grid md:grid-cols-2 gap-6 print:gap-4">
-               <div className="space-y-2">
-                 <h4 className="text-xs font-bold uppercase tracking-wider text-gray-500 print:text-gray-800">画面内容</h4>
-                 <p className="text-gray-300 text-sm leading-relaxed print:text-black">
-                   {shot.analysis.visualDescription}
-                 </p>
-               </div>
-               <div className="space-y-2">
-                 <h4 className="text-xs font-bold uppercase tracking-wider text-gray-500 flex items-center gap-1 print:text-gray-800">
-                   <Palette className="w-3 h-3" /> 光影色彩
-                 </h4>
-                 <p className="text-gray-300 text-sm leading-relaxed print:text-black">
-                   {shot.analysis.lightingAndColor}
-                 </p>
-               </div>
-            </div>
+            {textFields.length > 0 && (
+              <div className="grid md:grid-cols-2 gap-6 print:gap-4">
+                {textFields.map(setting => (
+                  <div key={setting.field} className="space-y-2">
+                    <h4 className="text-xs font-bold uppercase tracking-wider text-gray-500 flex items-center gap-1 print:text-gray-800">
+                      {setting.field === 'lightingAndColor' && <Palette className="w-3 h-3" />} {getStandardFieldLabel(setting, t)}
+                    </h4>
+                    {editable(setting.field, "text-gray-300 text-sm leading-relaxed print:text-black", true)}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {/* Extra fields from the analysis template */}
+            {analysis.customFields && analysis.customFields.length > 0 && (
+              <div className="grid sm:grid-cols-2 gap-3 mr-8">
+                {analysis.customFields.map(field => (
+                  <div key={field.key} className="bg-gray-900/80 p-3 rounded-lg border border-gray-700/50 print:bg-white print:border-gray-300 print:text-black">
+                    <div className="flex items-center gap-2 text-gray-500 text-xs mb-1 uppercase font-bold print:text-gray-700">
+                      <LayoutTemplate className="w-3 h-3" /> {field.label}
+                    </div>
+                    {editable(
+                      customFieldEditKey(field.key),
+                      `text-sm leading-relaxed print:text-black ${field.type === 'text' ? 'text-gray-300' : 'text-blue-200 font-medium'}`,
+                      field.type === 'text',
+                      field.type === 'enum' ? field.options?.map(option => ({ value: option, label: option })) : undefined,
+                      field.type === 'number' ? formatNumberField(field) : undefined
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
 
             {/* Prompt */}
-            <div className="mt-auto pt-4 border-t border-gray-700/50 print:border-gray-300">
-              <h4 className="text-xs font-bold uppercase tracking-wider text-purple-400 mb-2 flex items-center gap-2 print:text-purple-800">
-                <Zap className="w-3 h-3" /> MJ / Nano Banana Prompt
-              </h4>
-              <div className="bg-black/40 rounded-lg p-3 font-mono text-xs text-green-400/90 break-all border border-gray-700 relative group transition-all hover:border-green-500/30 print:bg-white print:border-gray-300 print:text-black">
-                 {shot.analysis.aiPrompt}
-                 <button 
-                  onClick={() => navigator.clipboard.writeText(shot.analysis?.aiPrompt || "")}
-                  className="absolute top-2 right-2 p-1.5 bg-gray-700 hover:bg-white hover:text-black text-gray-300 rounded opacity-0 group-hover:opacity-100 transition-all no-print"
-                  title="Copy Prompt"
-                 >
-                   <span className="text-[10px] font-bold">COPY</span>
-                 </button>
+            {promptField && (
+              <div className="mt-auto pt-4 border-t border-gray-700/50 print:border-gray-300">
+                <h4 className="text-xs font-bold uppercase tracking-wider text-purple-400 mb-2 flex items-center gap-2 print:text-purple-800">
+                  <Zap className="w-3 h-3" /> {getStandardFieldLabel(promptField, t)}
+                </h4>
+                <div className="bg-black/40 rounded-lg p-3 pr-14 font-mono text-xs text-green-400/90 break-all border border-gray-700 relative group transition-all hover:border-green-500/30 print:bg-white print:border-gray-300 print:text-black">
+                   {editable('aiPrompt', "", true)}
+                   <button 
+                    onClick={() => navigator.clipboard.writeText(analysis.aiPrompt || "")}
+                    className="absolute top-2 right-2 p-1.5 bg-gray-700 hover:bg-white hover:text-black text-gray-300 rounded opacity-0 group-hover:opacity-100 transition-all no-print"
+                    title="Copy Prompt"
+                   >
+                     <span className="text-[10px] font-bold">COPY</span>
+                   </button>
+                </div>
               </div>
-            </div>
+            )}
 
             {/* Action Bar */}
-            {!shot.generatedImage && !shot.isGeneratingImage && !shot.imageGenError && (
-              <div className="flex justify-end no-print">
+            <div className="flex justify-end items-center gap-2 no-print">
+              {shot.analysisCachedAt !== undefined && (
+                <span
+                  className="flex items-center gap-1 px-2 py-1 rounded bg-emerald-900/30 border border-emerald-600/40 text-emerald-300 text-xs font-bold"
+                  title={t('shot.cachedHint', { date: new Date(shot.analysisCachedAt).toLocaleString(LANGUAGE_TAGS[language]) })}
+                >
+                  <Database className="w-3 h-3" /> {t('shot.cached')}
+                </span>
+              )}
+              <button
+                onClick={onRetryAnalysis}
+                className="flex items-center gap-2 px-4 py-2.5 bg-gray-700 hover:bg-gray-600 text-gray-200 text-sm rounded-lg border border-gray-600 transition-colors"
+                title={shot.analysisCachedAt !== undefined ? t('shot.refreshCachedHint') : t('shot.reanalyzeHint')}
+              >
+                <RefreshCw className="w-4 h-4" />
+                {shot.analysisCachedAt !== undefined ? t('shot.refreshCached') : t('shot.reanalyze')}
+              </button>
+              {!shot.generatedImage && !shot.isGeneratingImage && !shot.imageGenError && (
                 <button
                   onClick={onGenerateImage}
                   className="flex items-center gap-2 px-5 py-2.5 bg-gradient-to-r from-purple-600 to-indigo-600 hover:from-purple-500 hover:to-indigo-500 text-white text-sm font-semibold rounded-lg transition-all shadow-lg shadow-purple-900/20 hover:shadow-purple-900/40 transform hover:-translate-y-0.5"
                 >
                   <Zap className="w-4 h-4" />
-                  生成分镜画面
+                  {t('shot.generateImage')}
                 </button>
-              </div>
-            )}
+              )}
+            </div>
+          </div>
+        ) : shot.status === 'pending' ? (
+          <div className="flex-1 flex flex-col items-center justify-center text-gray-400 gap-4 min-h-[300px] p-4 text-center no-print">
+            <p className="text-sm">{t('shot.notAnalyzed')}</p>
+            <button
+                onClick={onRetryAnalysis}
+                className="flex items-center gap-2 px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-lg transition-colors shadow-lg border border-gray-600"
+            >
+                <Play className="w-4 h-4" />
+                {t('shot.startAnalysis')}
+            </button>
           </div>
         ) : null}
       </div>
@@ -0,0 +1,338 @@
+import React, { useState } from 'react';
+import { AnalysisTemplate, StandardAnalysisField, StandardFieldSetting, TemplateField } from '../types';
+import { createTemplateId, getStandardFieldLabel, getStandardFields, STANDARD_ANALYSIS_FIELDS, validateTemplate } from '../services/templates';
+import { useI18n } from '../services/i18n';
+import { LayoutTemplate, X, Plus, Copy, Trash2, Check, Save, AlertCircle } from 'lucide-react';
+
+interface TemplateManagerProps {
+  templates: AnalysisTemplate[]; // Built-in templates first, then user-defined ones
+  activeTemplateId: string;
+  onSelectTemplate: (templateId: string) => void;
+  onSaveTemplates: (customTemplates: AnalysisTemplate[]) => void;
+  onClose: () => void;
+}
+
+const FIELD_TYPES: TemplateField['type'][] = ['text', 'enum', 'number'];
+
+const emptyField = (): TemplateField => ({ key: '', label: '', type: 'text', instruction: '' });
+
+const inputClass = "w-full bg-gray-900 border border-gray-700 rounded px-2 py-1.5 text-sm text-white focus:ring-2 focus:ring-purple-500 focus:border-transparent outline-none";
+
+/**
+ * Modal for choosing the analysis template and defining custom ones.
+ */
+export const TemplateManager: React.FC<TemplateManagerProps> = ({ templates, activeTemplateId, onSelectTemplate, onSaveTemplates, onClose }) => {
+  const { t } = useI18n();
+  const [viewingId, setViewingId] = useState(activeTemplateId);
+  const [draft, setDraft] = useState<AnalysisTemplate | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const customTemplates = templates.filter(t => !t.builtIn);
+  const viewing = templates.find(t => t.id === viewingId) ?? templates[0];
+
+  const startDraft = (template: AnalysisTemplate) => {
+    setDraft(template);
+    setErrors([]);
+  };
+
+  const handleNew = () => startDraft({ id: createTemplateId(), name: t('templates.newName'), fields: [emptyField()] });
+
+  const handleDuplicate = (template: AnalysisTemplate) => {
+    startDraft({
+      ...template,
+      id: createTemplateId(),
+      name: t('templates.copyName', { name: template.name }),
+      builtIn: false,
+      standardFields: template.standardFields?.map(s => ({ ...s })),
+      fields: template.fields.map(f => ({ ...f })),
+    });
+  };
+
+  const handleDelete = (template: AnalysisTemplate) => {
+    if (!window.confirm(t('templates.confirmDelete', { name: template.name }))) return;
+    onSaveTemplates(customTemplates.filter(t => t.id !== template.id));
+    setViewingId(templates[0].id);
+  };
+
+  const updateField = (index: number, patch: Partial<TemplateField>) => {
+    if (!draft) return;
+    setDraft({ ...draft, fields: draft.fields.map((f, i) => i === index ? { ...f, ...patch } : f) });
+  };
+
+  const updateStandardFields = (update: (settings: StandardFieldSetting[]) => StandardFieldSetting[]) => {
+    if (!draft) return;
+    setDraft({ ...draft, standardFields: update(getStandardFields(draft)) });
+  };
+
+  const toggleStandardField = (field: StandardAnalysisField, included: boolean) => {
+    updateStandardFields(settings => included ? [...settings, { field }] : settings.filter(s => s.field !== field));
+  };
+
+  const relabelStandardField = (field: StandardAnalysisField, label: string) => {
+    updateStandardFields(settings => settings.map(s => s.field === field ? { ...s, label } : s));
+  };
+
+  const handleSaveDraft = () => {
+    if (!draft) return;
+    const standardFields = getStandardFields(draft).map(({ field, label }) => label?.trim() ? { field, label: label.trim() } : { field });
+    const template: AnalysisTemplate = {
+      ...draft,
+      name: draft.name.trim(),
+      // Every standard field under its built-in label is the same as not choosing any
+      standardFields: standardFields.length === STANDARD_ANALYSIS_FIELDS.length && standardFields.every(s => !s.label) ? undefined : standardFields,
+      fields: draft.fields.map(f => ({
+        ...f,
+        key: f.key.trim(),
+        label: f.label.trim(),
+        instruction: f.instruction.trim(),
+        options: f.type === 'enum' ? (f.options ?? []).map(o => o.trim()).filter(Boolean) : undefined,
+        unit: f.type === 'number' ? f.unit?.trim() || undefined : undefined,
+      })),
+    };
+    const problems = validateTemplate(template, t);
+    if (problems.length > 0) {
+      setErrors(problems);
+      return;
+    }
+    const exists = customTemplates.some(t => t.id === template.id);
+    onSaveTemplates(exists ? customTemplates.map(t => t.id === template.id ? template : t) : [...customTemplates, template]);
+    setViewingId(template.id);
+    setDraft(null);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/80 backdrop-blur-sm flex items-center justify-center p-4 animate-[fadeIn_0.2s_ease-out]">
+      <div className="bg-gray-800 border border-gray-700 rounded-xl shadow-2xl max-w-4xl w-full max-h-[85vh] flex flex-col relative">
+        <button onClick={onClose} className="absolute top-4 right-4 text-gray-400 hover:text-white">
+          <X className="w-5 h-5" />
+        </button>
+
+        <div className="flex items-center gap-3 p-6 pb-4">
+          <div className="bg-purple-600/20 p-3 rounded-lg">
+            <LayoutTemplate className="w-6 h-6 text-purple-400" />
+          </div>
+          <div>
+            <h3 className="text-xl font-bold text-white">{t('templates.title')}</h3>
+            <p className="text-xs text-gray-400">{t('templates.subtitle')}</p>
+          </div>
+        </div>
+
+        <div className="flex flex-1 min-h-0 border-t border-gray-700">
+          {/* Template list */}
+          <div className="w-56 flex-shrink-0 border-r border-gray-700 overflow-y-auto p-3 space-y-1">
+            {templates.map(template => (
+              <button
+                key={template.id}
+                onClick={() => { setViewingId(template.id); setDraft(null); }}
+                className={`w-full text-left px-3 py-2 rounded-lg text-sm transition-colors ${template.id === viewing.id && !draft ? 'bg-gray-700 text-white' : 'text-gray-300 hover:bg-gray-700/50'}`}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span className="truncate">{template.name}</span>
+                  {template.id === activeTemplateId && <Check className="w-4 h-4 text-green-400 flex-shrink-0" />}
+                </div>
+                <div className="text-[10px] text-gray-500">
+                  {template.builtIn ? t('templates.builtIn') : t('templates.custom')} · {t('templates.fieldCount', { count: template.fields.length })}
+                </div>
+              </button>
+            ))}
+            <button
+              onClick={handleNew}
+              className="w-full flex items-center justify-center gap-1 px-3 py-2 mt-2 text-sm text-purple-300 border border-dashed border-gray-600 hover:border-purple-500 rounded-lg transition-colors"
+            >
+              <Plus className="w-4 h-4" /> {t('templates.new')}
+            </button>
+          </div>
+
+          {/* Details / editor */}
+          <div className="flex-1 overflow-y-auto p-6">
+            {draft ? (
+              <div className="space-y-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-1">{t('templates.name')}</label>
+                  <input value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} className={inputClass} />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-1">{t('templates.description')}</label>
+                  <input value={draft.description ?? ''} onChange={(e) => setDraft({ ...draft, description: e.target.value })} className={inputClass} placeholder={t('templates.optional')} />
+                </div>
+
+                <div className="space-y-2">
+                  <label className="block text-sm font-medium text-gray-300">{t('templates.standardFields')}</label>
+                  <p className="text-[10px] text-gray-500">{t('templates.standardFieldsHint')}</p>
+                  {STANDARD_ANALYSIS_FIELDS.map(field => {
+                    const setting = getStandardFields(draft).find(s => s.field === field);
+                    return (
+                      <div key={field} className="grid grid-cols-[auto_1fr] gap-2 items-center">
+                        <input
+                          type="checkbox"
+                          checked={!!setting}
+                          onChange={(e) => toggleStandardField(field, e.target.checked)}
+                          className="w-4 h-4 accent-purple-500"
+                          aria-label={getStandardFieldLabel({ field }, t)}
+                        />
+                        <input
+                          value={setting?.label ?? ''}
+                          onChange={(e) => relabelStandardField(field, e.target.value)}
+                          disabled={!setting}
+                          className={`${inputClass} disabled:opacity-50`}
+                          placeholder={t('templates.standardFieldLabel', { label: getStandardFieldLabel({ field }, t) })}
+                        />
+                      </div>
+                    );
+                  })}
+                </div>
+
+                <div className="space-y-3">
+                  <label className="block text-sm font-medium text-gray-300">{t('templates.extraFields')}</label>
+                  {draft.fields.map((field, index) => (
+                    <div key={index} className="bg-gray-900/60 border border-gray-700 rounded-lg p-3 space-y-2">
+                      <div className="grid grid-cols-[1fr_1fr_auto_auto] gap-2 items-center">
+                        <input value={field.label} onChange={(e) => updateField(index, { label: e.target.value })} className={inputClass} placeholder={t('templates.fieldLabel')} />
+                        <input value={field.key} onChange={(e) => updateField(index, { key: e.target.value })} className={`${inputClass} font-mono`} placeholder={t('templates.fieldKey')} />
+                        <select
+                          value={field.type}
+                          onChange={(e) => updateField(index, { type: e.target.value as TemplateField['type'] })}
+                          className="bg-gray-900 border border-gray-700 rounded px-2 py-1.5 text-sm text-white outline-none"
+                        >
+                          {FIELD_TYPES.map(type => (
+                            <option key={type} value={type}>{t(`templates.type.${type}`)}</option>
+                          ))}
+                        </select>
+                        <button
+                          onClick={() => setDraft({ ...draft, fields: draft.fields.filter((_, i) => i !== index) })}
+                          className="p-1.5 text-gray-400 hover:text-red-400 hover:bg-gray-700 rounded transition-colors"
+                          title={t('templates.deleteField')}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                      <textarea
+                        value={field.instruction}
+                        onChange={(e) => updateField(index, { instruction: e.target.value })}
+                        rows={2}
+                        className={`${inputClass} resize-y`}
+                        placeholder={t('templates.fieldInstruction')}
+                      />
+                      {field.type === 'enum' && (
+                        <input
+                          value={(field.options ?? []).join('，')}
+                          onChange={(e) => updateField(index, { options: e.target.value.split(/[,，]/) })}
+                          className={inputClass}
+                          placeholder={t('templates.fieldOptions')}
+                        />
+                      )}
+                      {field.type === 'number' && (
+                        <input
+                          value={field.unit ?? ''}
+                          onChange={(e) => updateField(index, { unit: e.target.value })}
+                          className={`${inputClass} w-40`}
+                          placeholder={t('templates.fieldUnit')}
+                        />
+                      )}
+                    </div>
+                  ))}
+                  <button
+                    onClick={() => setDraft({ ...draft, fields: [...draft.fields, emptyField()] })}
+                    className="flex items-center gap-1 text-sm text-purple-300 hover:text-purple-200"
+                  >
+                    <Plus className="w-4 h-4" /> {t('templates.addField')}
+                  </button>
+                </div>
+
+                {errors.length > 0 && (
+                  <ul className="space-y-1 px-3 py-2 bg-red-900/20 border border-red-500/40 rounded-lg text-xs text-red-300">
+                    {errors.map((error, i) => (
+                      <li key={i} className="flex items-center gap-1"><AlertCircle className="w-3 h-3 flex-shrink-0" /> {error}</li>
+                    ))}
+                  </ul>
+                )}
+
+                <div className="flex justify-end gap-2 pt-2">
+                  <button onClick={() => setDraft(null)} className="px-4 py-2 text-gray-400 hover:text-white text-sm rounded-lg transition-colors">
+                    {t('common.cancel')}
+                  </button>
+                  <button
+                    onClick={handleSaveDraft}
+                    className="flex items-center gap-2 px-4 py-2 bg-purple-600 hover:bg-purple-500 text-white rounded-lg text-sm font-medium transition-colors"
+                  >
+                    <Save className="w-4 h-4" /> {t('templates.save')}
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <div className="space-y-4">
+                <div>
+                  <h4 className="text-lg font-bold text-white">{viewing.name}</h4>
+                  {viewing.description && <p className="text-sm text-gray-400">{viewing.description}</p>}
+                </div>
+
+                <div>
+                  <h5 className="text-sm font-medium text-gray-300 mb-2">{t('templates.standardFields')}</h5>
+                  <div className="flex flex-wrap gap-2">
+                    {getStandardFields(viewing).map(setting => (
+                      <span key={setting.field} className="px-2 py-1 rounded bg-gray-900/60 border border-gray-700 text-xs text-gray-200">
+                        {getStandardFieldLabel(setting, t)}
+                      </span>
+                    ))}
+                  </div>
+                </div>
+
+                <h5 className="text-sm font-medium text-gray-300">{t('templates.extraFields')}</h5>
+                {viewing.fields.length === 0 ? (
+                  <p className="text-sm text-gray-500">{t('templates.noExtraFields')}</p>
+                ) : (
+                  <ul className="space-y-2">
+                    {viewing.fields.map(field => (
+                      <li key={field.key} className="bg-gray-900/60 border border-gray-700 rounded-lg p-3">
+                        <div className="flex items-center gap-2 text-sm">
+                          <span className="text-white font-medium">{field.label}</span>
+                          <span className="font-mono text-[10px] text-gray-500">{field.key}</span>
+                          <span className="px-1.5 py-0.5 rounded bg-gray-700 text-[10px] text-gray-300">
+                            {t(`templates.type.${field.type}`)}{field.unit ? ` (${field.unit})` : ''}
+                          </span>
+                        </div>
+                        <p className="text-xs text-gray-400 mt-1">{field.instruction}</p>
+                        {field.options && <p className="text-xs text-gray-500 mt-1">{t('templates.options', { options: field.options.join(' / ') })}</p>}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+
+                <div className="flex items-center gap-2 pt-2">
+                  <button
+                    onClick={() => onSelectTemplate(viewing.id)}
+                    disabled={viewing.id === activeTemplateId}
+                    className="flex items-center gap-2 px-4 py-2 bg-purple-600 hover:bg-purple-500 disabled:opacity-50 disabled:cursor-not-allowed text-white rounded-lg text-sm font-medium transition-colors"
+                  >
+                    <Check className="w-4 h-4" />
+                    {viewing.id === activeTemplateId ? t('templates.inUse') : t('templates.use')}
+                  </button>
+                  {!viewing.builtIn && (
+                    <button onClick={() => startDraft(viewing)} className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-lg text-sm transition-colors">
+                      {t('templates.edit')}
+                    </button>
+                  )}
+                  <button
+                    onClick={() => handleDuplicate(viewing)}
+                    className="flex items-center gap-1 px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-lg text-sm transition-colors"
+                  >
+                    <Copy className="w-4 h-4" /> {t('templates.duplicate')}
+                  </button>
+                  {!viewing.builtIn && (
+                    <button
+                      onClick={() => handleDelete(viewing)}
+                      className="ml-auto p-2 text-gray-400 hover:text-red-400 hover:bg-gray-700 rounded-lg transition-colors"
+                      title={t('templates.delete')}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,102 @@
+import React, { forwardRef, useImperativeHandle, useRef, useState } from 'react';
+import { Shot } from '../types';
+import { useI18n } from '../services/i18n';
+import { Repeat, ChevronUp, ChevronDown, MonitorPlay } from 'lucide-react';
+
+export interface VideoPlayerHandle {
+  /** Seeks to the start of `shot` and plays it (looping it when loop mode is on). */
+  playShot: (shot: Shot) => void;
+}
+
+interface VideoPlayerProps {
+  src: string;
+  shots: Shot[];
+  activeShotId: string | null;
+  onTimeChange: (time: number) => void;
+}
+
+/**
+ * Source video player for the results view. Follows along with the shot list:
+ * cards seek it, and it reports its position back so the current card can highlight.
+ */
+export const VideoPlayer = forwardRef<VideoPlayerHandle, VideoPlayerProps>(({ src, shots, activeShotId, onTimeChange }, ref) => {
+  const { t } = useI18n();
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [isLooping, setIsLooping] = useState(false);
+  const [loopRange, setLoopRange] = useState<{ start: number; end: number } | null>(null);
+  const [isCollapsed, setIsCollapsed] = useState(false);
+
+  const activeIndex = shots.findIndex(s => s.id === activeShotId);
+  const activeShot = activeIndex === -1 ? null : shots[activeIndex];
+
+  useImperativeHandle(ref, () => ({
+    playShot: (shot: Shot) => {
+      const video = videoRef.current;
+      if (!video) return;
+      setIsCollapsed(false);
+      setLoopRange({ start: shot.timestamp, end: shot.timestamp + shot.duration });
+      video.currentTime = shot.timestamp;
+      video.play().catch(() => { /* Autoplay blocked: user can press play */ });
+    },
+  }), []);
+
+  const handleTimeUpdate = () => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    if (isLooping && loopRange && video.currentTime >= loopRange.end) {
+      video.currentTime = loopRange.start;
+      return;
+    }
+    onTimeChange(video.currentTime);
+  };
+
+  const toggleLoop = () => {
+    // Loop whatever shot is on screen when loop mode is switched on
+    if (!isLooping && activeShot) {
+      setLoopRange({ start: activeShot.timestamp, end: activeShot.timestamp + activeShot.duration });
+    }
+    setIsLooping(!isLooping);
+  };
+
+  return (
+    <div className="sticky top-16 z-30 mb-6 bg-gray-900/95 backdrop-blur-sm border border-gray-700 rounded-xl overflow-hidden shadow-2xl no-print">
+      <div className="flex items-center justify-between px-4 py-2 border-b border-gray-800 text-sm">
+        <div className="flex items-center gap-2 text-gray-300">
+          <MonitorPlay className="w-4 h-4 text-blue-400" />
+          <span className="font-medium">{t('player.title')}</span>
+          {activeShot && (
+            <span className="text-xs text-gray-500">{t('player.current', { index: activeIndex + 1 })}</span>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={toggleLoop}
+            className={`flex items-center gap-1 px-2 py-1 rounded border text-xs transition-colors ${isLooping ? 'bg-blue-600/20 border-blue-500 text-blue-300' : 'bg-gray-800 border-gray-700 text-gray-400 hover:text-white'}`}
+            title={t('player.loopHint')}
+          >
+            <Repeat className="w-3 h-3" /> {t('player.loop')}
+          </button>
+          <button
+            onClick={() => setIsCollapsed(!isCollapsed)}
+            className="p-1 text-gray-400 hover:text-white hover:bg-gray-800 rounded transition-colors"
+            title={isCollapsed ? t('player.expand') : t('player.collapse')}
+          >
+            {isCollapsed ? <ChevronDown className="w-4 h-4" /> : <ChevronUp className="w-4 h-4" />}
+          </button>
+        </div>
+      </div>
+      <video
+        ref={videoRef}
+        src={src}
+        controls
+        playsInline
+        onTimeUpdate={handleTimeUpdate}
+        onSeeked={handleTimeUpdate}
+        className={`w-full max-h-[40vh] bg-black ${isCollapsed ? 'hidden' : ''}`}
+      />
+    </div>
+  );
+});
+
+VideoPlayer.displayName = 'VideoPlayer';
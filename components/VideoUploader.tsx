@@ -1,135 +1,189 @@
-import React, { useRef, useState, useCallback } from 'react';
-import { Upload, Film, Loader2 } from 'lucide-react';
+import React, { useRef, useState } from 'react';
+import { Upload, Film, Play, X, Subtitles } from 'lucide-react';
+import { ExtractionSettings, SubtitleCue } from '../types';
+import { createDefaultSettings } from '../services/extraction';
+import { readSubtitleFile, SUBTITLE_ACCEPT } from '../services/subtitles';
+import { ExtractionSettingsPanel } from './ExtractionSettingsPanel';
+import { describeError, useI18n } from '../services/i18n';
 
 interface VideoUploaderProps {
-  onFramesExtracted: (frames: { time: number; image: string }[]) => void;
-  onLoadingStart: () => void;
+  onStartExtraction: (file: File, settings: ExtractionSettings, videoDuration: number, subtitles?: SubtitleCue[]) => void;
 }
 
-export const VideoUploader: React.FC<VideoUploaderProps> = ({ onFramesExtracted, onLoadingStart }) => {
+interface LoadedSubtitles {
+  name: string;
+  cues: SubtitleCue[];
+}
+
+interface LoadedVideo {
+  file: File;
+  url: string;
+  duration: number;
+}
+
+export const VideoUploader: React.FC<VideoUploaderProps> = ({ onStartExtraction }) => {
+  const { t } = useI18n();
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const subtitleInputRef = useRef<HTMLInputElement>(null);
   const videoRef = useRef<HTMLVideoElement>(null);
-  const canvasRef = useRef<HTMLCanvasElement>(null);
-  const [isProcessing, setIsProcessing] = useState(false);
-  const [progress, setProgress] = useState(0);
+  const [loadedVideo, setLoadedVideo] = useState<LoadedVideo | null>(null);
+  const [settings, setSettings] = useState<ExtractionSettings | null>(null);
+  const [subtitles, setSubtitles] = useState<LoadedSubtitles | null>(null);
 
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (file) {
-      const url = URL.createObjectURL(file);
-      processVideo(url);
+      loadVideo(file);
     }
+    // Allow picking the same file again after cancelling
+    event.target.value = '';
   };
 
-  const processVideo = useCallback((videoUrl: string) => {
+  // Step 1: read metadata so the settings step knows the video length
+  const loadVideo = (file: File) => {
     const video = videoRef.current;
-    const canvas = canvasRef.current;
-    if (!video || !canvas) return;
-
-    onLoadingStart();
-    setIsProcessing(true);
-    setProgress(0);
+    if (!video) return;
 
+    const videoUrl = URL.createObjectURL(file);
     video.src = videoUrl;
     video.muted = true;
     video.playsInline = true;
-    
-    // Config: extract one frame every 3 seconds
-    const INTERVAL_SECONDS = 3; 
-    // Resize frames for API efficiency (720p height max usually enough for analysis)
-    const MAX_HEIGHT = 540; 
-
-    video.onloadedmetadata = async () => {
-      const duration = video.duration;
-      const frames: { time: number; image: string }[] = [];
-      const ctx = canvas.getContext('2d');
-
-      if (!ctx) return;
-
-      // Calculate scale
-      const scale = Math.min(1, MAX_HEIGHT / video.videoHeight);
-      canvas.width = video.videoWidth * scale;
-      canvas.height = video.videoHeight * scale;
-
-      const seekResolve = (el: HTMLVideoElement) => {
-        return new Promise<void>((resolve) => {
-          const onSeeked = () => {
-            el.removeEventListener('seeked', onSeeked);
-            resolve();
-          };
-          el.addEventListener('seeked', onSeeked);
-        });
-      };
-
-      for (let time = 1; time < duration; time += INTERVAL_SECONDS) {
-        video.currentTime = time;
-        await seekResolve(video);
-
-        // Draw to canvas
-        ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
-        const dataUrl = canvas.toDataURL('image/jpeg', 0.8);
-        
-        frames.push({
-          time: time,
-          image: dataUrl
-        });
-
-        setProgress(Math.round((time / duration) * 100));
-      }
-
-      setIsProcessing(false);
-      onFramesExtracted(frames);
+
+    video.onloadedmetadata = () => {
+      setLoadedVideo({ file, url: videoUrl, duration: video.duration });
+      setSettings(createDefaultSettings(video.duration));
     };
-  }, [onFramesExtracted, onLoadingStart]);
+  };
+
+  // Optional subtitles, aligned to shots once they are detected
+  const handleSubtitleChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      setSubtitles({ name: file.name, cues: await readSubtitleFile(file) });
+    } catch (error: any) {
+      console.error("Subtitle import failed:", error);
+      alert(t('error.subtitleImport', { message: describeError(error, t) }));
+    }
+  };
+
+  const resetSelection = () => {
+    if (loadedVideo) URL.revokeObjectURL(loadedVideo.url);
+    setLoadedVideo(null);
+    setSettings(null);
+    setSubtitles(null);
+  };
+
+  // Step 2: hand the file over; extraction itself runs in the background
+  const startExtraction = () => {
+    if (!loadedVideo || !settings) return;
+    onStartExtraction(loadedVideo.file, settings, loadedVideo.duration, subtitles?.cues);
+  };
+
+  const canStart = !!settings && settings.endTime > settings.startTime;
 
   return (
     <div className="w-full max-w-2xl mx-auto mb-12">
-      <div 
-        onClick={() => !isProcessing && fileInputRef.current?.click()}
-        className={`
-          relative border-2 border-dashed rounded-xl p-12 text-center cursor-pointer transition-all
-          ${isProcessing 
-            ? 'border-blue-500 bg-blue-900/10 cursor-wait' 
-            : 'border-gray-600 hover:border-blue-400 hover:bg-gray-800'
-          }
-        `}
-      >
-        <input 
-          type="file" 
-          ref={fileInputRef} 
-          onChange={handleFileChange} 
-          accept="video/*" 
-          className="hidden" 
-        />
-        
-        {isProcessing ? (
-          <div className="flex flex-col items-center gap-4">
-            <Loader2 className="w-12 h-12 text-blue-500 animate-spin" />
-            <div>
-              <p className="text-xl font-medium text-blue-400">正在拆解视频镜头...</p>
-              <p className="text-sm text-gray-400 mt-2">进度: {progress}%</p>
+      {loadedVideo && settings ? (
+        <div className="space-y-4">
+          <div className="flex items-center justify-between gap-3 bg-gray-800 border border-gray-700 rounded-xl px-4 py-3">
+            <div className="flex items-center gap-3 min-w-0">
+              <Film className="w-5 h-5 text-blue-400 flex-shrink-0" />
+              <span className="text-gray-100 font-medium truncate" title={loadedVideo.file.name}>{loadedVideo.file.name}</span>
             </div>
+            <button
+              onClick={resetSelection}
+              className="p-1.5 text-gray-400 hover:text-white hover:bg-gray-700 rounded-full transition-colors"
+              title={t('upload.changeVideo')}
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+
+          <div className="flex items-center justify-between gap-3 bg-gray-800 border border-gray-700 rounded-xl px-4 py-3">
+            <div className="flex items-center gap-3 min-w-0">
+              <Subtitles className="w-5 h-5 text-purple-400 flex-shrink-0" />
+              {subtitles ? (
+                <span className="text-gray-100 text-sm truncate" title={subtitles.name}>
+                  {subtitles.name} <span className="text-gray-500">· {t('upload.subtitleCount', { count: subtitles.cues.length })}</span>
+                </span>
+              ) : (
+                <span className="text-gray-400 text-sm">{t('upload.subtitlePlaceholder')}</span>
+              )}
+            </div>
+            <input
+              type="file"
+              ref={subtitleInputRef}
+              onChange={handleSubtitleChange}
+              accept={SUBTITLE_ACCEPT}
+              className="hidden"
+            />
+            {subtitles ? (
+              <button
+                onClick={() => setSubtitles(null)}
+                className="p-1.5 text-gray-400 hover:text-white hover:bg-gray-700 rounded-full transition-colors"
+                title={t('upload.removeSubtitles')}
+              >
+                <X className="w-4 h-4" />
+              </button>
+            ) : (
+              <button
+                onClick={() => subtitleInputRef.current?.click()}
+                className="px-3 py-1.5 bg-gray-700 hover:bg-gray-600 text-white text-sm rounded-lg border border-gray-600 transition-colors flex-shrink-0"
+              >
+                {t('upload.chooseSubtitles')}
+              </button>
+            )}
           </div>
-        ) : (
+
+          <ExtractionSettingsPanel
+            settings={settings}
+            videoDuration={loadedVideo.duration}
+            onChange={setSettings}
+          />
+
+          <button
+            onClick={startExtraction}
+            disabled={!canStart}
+            className="w-full flex items-center justify-center gap-2 px-6 py-3 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed text-white rounded-lg font-medium transition-colors"
+          >
+            <Play className="w-4 h-4" />
+            {t('upload.start')}
+          </button>
+        </div>
+      ) : (
+        <div
+          onClick={() => fileInputRef.current?.click()}
+          className="relative border-2 border-dashed rounded-xl p-12 text-center cursor-pointer transition-all border-gray-600 hover:border-blue-400 hover:bg-gray-800"
+        >
+          <input
+            type="file"
+            ref={fileInputRef}
+            onChange={handleFileChange}
+            accept="video/*"
+            className="hidden"
+          />
+
           <div className="flex flex-col items-center gap-4">
             <div className="w-16 h-16 bg-gray-700 rounded-full flex items-center justify-center">
               <Film className="w-8 h-8 text-gray-300" />
             </div>
             <div>
-              <p className="text-xl font-medium text-gray-100">上传视频进行拉片</p>
-              <p className="text-sm text-gray-400 mt-2">支持 MP4, WebM 等常见格式</p>
+              <p className="text-xl font-medium text-gray-100">{t('upload.title')}</p>
+              <p className="text-sm text-gray-400 mt-2">{t('upload.formats')}</p>
             </div>
             <button className="mt-4 px-6 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-medium transition-colors flex items-center gap-2">
               <Upload className="w-4 h-4" />
-              选择文件
+              {t('upload.chooseFile')}
             </button>
           </div>
-        )}
-      </div>
+        </div>
+      )}
 
-      {/* Hidden elements for processing */}
+      {/* Hidden element used to read the video's metadata */}
       <video ref={videoRef} className="hidden" />
-      <canvas ref={canvasRef} className="hidden" />
     </div>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,485 @@
+import { zh } from "./zh";
+
+// English interface strings; keys mirror zh.ts.
+
+export const en: Record<keyof typeof zh, string> = {
+  // Shared
+  'common.cancel': 'Cancel',
+  'common.save': 'Save',
+  'common.confirm': 'Confirm',
+  'common.seconds': '{value} s',
+  'common.shotNumber': 'Shot {index}',
+
+  // Language menu
+  'language.menu': 'Language',
+  'language.ui': 'Interface language',
+  'language.analysis': 'Analysis output language',
+  'language.analysisHint': 'Applies to shots analysed from now on',
+  'language.ui.zh': '中文',
+  'language.ui.en': 'English',
+  'language.analysis.zh': 'Chinese',
+  'language.analysis.en': 'English',
+  'language.analysis.bilingual': 'Chinese + English',
+
+  // App header & landing page
+  'app.subtitle': 'Nano Banana Edition',
+  'app.exportReport': 'Export',
+  'app.exportWord': 'Export Word (.docx)',
+  'app.exportProject': 'Export project file ({extension})',
+  'app.print': 'Print / Save as PDF',
+  'app.templates': 'Analysis templates',
+  'app.analysisCache': 'Analysis cache',
+  'app.apiSettings': 'AI provider settings',
+  'app.heroTitle': 'Shot-by-shot Film Breakdown',
+  'app.heroDescription': 'Upload a video: AI splits it into shots, writes professional cinematography notes, and redraws each frame with the Nano Banana model.',
+  'app.restore.title': 'Last breakdown session: {title}',
+  'app.restore.summary': '{count} shots · saved {savedAt}',
+  'app.restore.dismiss': 'Not now',
+  'app.restore.confirm': 'Restore session',
+  'app.openProjectFile': 'Or open an existing breakdown project ({extension})',
+  'app.uploadNew': '← Upload another video',
+  'app.undo': 'Undo: {label} (Ctrl+Z)',
+  'app.redo': 'Redo: {label} (Ctrl+Shift+Z)',
+  'app.nothingToUndo': 'Nothing to undo',
+  'app.nothingToRedo': 'Nothing to redo',
+  'app.dedupeSummary': 'Folded {count} near-duplicate frames, saving as many analysis requests',
+  'app.resumePending': 'Analyse {count} pending shots',
+  'app.relinkPrompt': 'Session restored. Link the source video {fileName} to play and split shots.',
+  'app.relinkVideo': 'Link source video',
+  'app.extracting': 'Splitting the video into shots... {progress}%',
+  'app.extractingDetected': '{count} shots detected, analysis is running alongside',
+  'app.extractingMerged': ', {count} near-duplicate frames folded',
+  'app.stopExtraction': 'Stop',
+  'app.footer': '© 2025 Huanxi AI. All rights reserved.',
+
+  // API settings modal
+  'settings.title': 'AI providers',
+  'settings.subtitle': 'Choose Gemini, an OpenAI-compatible API or the offline mock for each task',
+  'settings.tasks': 'Tasks',
+  'settings.task.analysis': 'Shot analysis',
+  'settings.task.writing': 'Critique and scene headings',
+  'settings.task.image': 'Storyboard images',
+  'settings.provider.gemini': 'Gemini (official API or proxy)',
+  'settings.provider.openai': 'OpenAI-compatible API',
+  'settings.provider.mock': 'Offline mock (no network)',
+  'settings.baseUrl': 'Base URL (API proxy address)',
+  'settings.baseUrlHint': 'Enter the proxy domain (e.g. https://api.proxy.com). ',
+  'settings.baseUrlWarning': 'Do not put your key here.',
+  'settings.apiKey': 'API Key / Proxy Key',
+  'settings.apiKeyHint': 'Enter your key here (AIza... or the key your proxy issued).',
+  'settings.gemini.authScheme': 'Proxy authentication',
+  'settings.gemini.authScheme.apiKey': 'x-goog-api-key header (same as the official Gemini API)',
+  'settings.gemini.authScheme.bearer': 'Authorization: Bearer (OpenAI-style gateways)',
+  'settings.gemini.authSchemeHint': 'The key is sent to the proxy only in the chosen way. The official endpoint always uses x-goog-api-key.',
+  'settings.openai.baseUrl': 'API address',
+  'settings.openai.baseUrlHint': 'The OpenAI or proxy endpoint; /v1 is added when no version is given.',
+  'settings.openai.chatModel': 'Vision chat model',
+  'settings.openai.imageModel': 'Image model',
+  'settings.mockHint': 'The offline mock derives fixed sample results and placeholder images from the frames. It sends no network requests and is meant for development and demos.',
+  'settings.reset': 'Reset',
+  'settings.saveAndContinue': 'Save and continue',
+  'settings.keyInBaseUrl': "Configuration problem:\n\nIt looks like an API key (sk-...) was entered in the 'Base URL' field.\n\n1. Put keys starting with sk- in the 'API Key' field above.\n2. The Base URL field takes the proxy's domain (e.g. https://api.proxy.com).",
+
+  // Errors surfaced by the app
+  'error.requestFailed': 'Request failed',
+  'error.rateLimited': 'Too many requests (429). Click retry.',
+  'error.invalidKey': 'Invalid key. Check the key, or whether the proxy address is configured correctly.',
+  'error.exportProject': 'Could not export the project file: {message}',
+  'error.extraction': 'Could not split the video: {message}',
+  'error.projectMissing': 'Could not open this project; it may have been deleted.',
+  'error.openProjectFile': 'Could not open the project file: {message}',
+  'error.split': 'Could not split the shot: {message}',
+  'error.subtitleImport': 'Could not import subtitles: {message}',
+  'error.critique': 'Could not write the critique: {message}',
+  'error.sceneDetection': 'Could not detect scenes: {message}',
+  'error.clearCache': 'Could not clear the cache: {message}',
+  'error.providerNotConfigured': 'Finish setting up the selected AI service in Settings',
+  'error.modelRefused': 'The model refused to answer: {reason}',
+  'error.emptyResponse': 'The API returned an empty response',
+  'error.invalidJson': 'Could not parse the JSON response',
+  'error.noImageInResponse': 'No image data found in the response',
+  'error.imageGeneration': 'Image generation failed',
+  'error.imageRefused': 'The model declined to generate the image (possibly a safety policy or prompt issue)',
+  'error.canvasUnavailable': 'Canvas 2D is not available',
+  'error.notProjectFile': 'Not a valid breakdown project file',
+  'error.projectFileTooNew': 'This project file (v{version}) is newer than this app supports (v{supported}); update the app to open it',
+  'error.projectFileMigration': 'Cannot upgrade a v{version} project file',
+  'error.projectFileNoManifest': 'The project file has no manifest.json',
+  'error.projectFileMissingImage': 'The project file is missing an image: {path}',
+  'error.unknownImageData': 'Unrecognized image data',
+  'error.readVideo': 'Could not read the video file',
+  'error.encodeFrame': 'Could not encode a video frame',
+  'error.extractionWorker': 'The extraction worker stopped unexpectedly',
+  'error.readShotImage': 'Could not read the shot image',
+  'error.subtitleParse': 'No dialogue could be read from the subtitle file',
+  'error.cancelled': 'Cancelled',
+  'error.audioAnalysis': 'Audio analysis failed, so shots will have no measured sound data: {message}',
+  'error.audioUnsupported': 'This browser cannot decode audio',
+  'error.audioDecode': 'Could not decode the video\'s soundtrack (it may have none, or its codec is not supported)',
+  'error.audioFileTooLarge': 'The soundtrack of this video format cannot be read in parts, and the file is larger than {size} MB, too large to decode whole',
+  'confirm.relinkMismatch': 'The selected file does not match the session\'s source video ({fileName}). Link it anyway?',
+  'confirm.reanalyzeAll': 'Re-analyze all {count} shots? This makes one API request per shot.',
+
+  // Undo history labels
+  'history.reanalyze': 'Re-analyse',
+  'history.delete': 'Delete shot',
+  'history.split': 'Split shot',
+  'history.merge': 'Merge shots',
+  'history.retime': 'Move shot start',
+  'history.detectScenes': 'Detect scenes',
+  'history.splitScene': 'Split scene',
+  'history.mergeScenes': 'Merge scenes',
+  'history.editAnalysis': 'Edit analysis',
+  'history.generateImage': 'Generate frame',
+  'history.regenerateImage': 'Regenerate frame',
+
+  // Video uploader
+  'upload.title': 'Upload a video to break down',
+  'upload.formats': 'MP4, WebM and other common formats',
+  'upload.chooseFile': 'Choose file',
+  'upload.changeVideo': 'Choose another video',
+  'upload.subtitleCount': '{count} lines',
+  'upload.subtitlePlaceholder': 'Subtitle file (optional, SRT / ASS / WebVTT)',
+  'upload.removeSubtitles': 'Remove subtitles',
+  'upload.chooseSubtitles': 'Choose subtitles',
+  'upload.start': 'Start breakdown',
+
+  // Extraction settings
+  'extraction.timeRange': 'Time range',
+  'extraction.totalLength': '(video length {duration})',
+  'extraction.startTime': 'In point (s)',
+  'extraction.endTime': 'Out point (s)',
+  'extraction.invalidRange': 'The out point must be after the in point.',
+  'extraction.sampling': 'Sampling & shot detection',
+  'extraction.detectScenes': 'Detect cuts automatically (when off, every sample is its own shot)',
+  'extraction.cutThreshold': 'Cut threshold',
+  'extraction.samplingMode': 'Sampling mode',
+  'extraction.mode.interval': 'By interval',
+  'extraction.mode.count': 'By frame count',
+  'extraction.sampleInterval': 'Sample interval (s)',
+  'extraction.targetFrameCount': 'Target sample count',
+  'extraction.sampleStep': 'About one frame every {step} s',
+  'extraction.dedupe': 'Near-duplicate frames',
+  'extraction.dedupeFrames': 'Fold frames almost identical to the previous one (perceptual hash, saves analysis requests)',
+  'extraction.dedupeThreshold': 'Similarity tolerance',
+  'extraction.dedupeThresholdHint': 'Maximum differing hash bits (of {bits})',
+  'extraction.output': 'Output frames',
+  'extraction.resolution': 'Resolution (height)',
+  'extraction.jpegQuality': 'JPEG quality',
+  'extraction.maxFrames': 'Max shots',
+  'extraction.estimate': 'Up to {count} analysis requests',
+  'extraction.estimateScenes': 'With shot detection on, requests equal the detected shots, usually far below this cap.',
+  'extraction.estimateDedupe': 'Each sampled frame is analysed separately; near-duplicates are folded first.',
+  'extraction.estimateFixed': 'Each sampled frame is analysed separately.',
+
+  // Shot list & cards
+  'shots.title': 'Breakdown ({count} shots)',
+  'shot.delete': 'Delete this shot',
+  'shot.select': 'Select this shot for bulk analysis',
+  'shot.play': 'Play this shot in the player',
+  'shot.mergedFramesHint': 'Frames nearly identical to the previous one that were folded into this shot',
+  'shot.mergedFrames': '{count} duplicate frames folded',
+  'shot.downloadFrame': 'Download frame',
+  'shot.keyframe.start': 'In',
+  'shot.keyframe.middle': 'Mid',
+  'shot.keyframe.end': 'Out',
+  'shot.paletteStats': 'Luma {luminance}% · Sat {saturation}%',
+  'shot.generatedBadge': 'Nano Banana redraw',
+  'shot.regenerateImage': 'Regenerate (can be undone)',
+  'shot.downloadGenerated': 'Download generated image',
+  'shot.generatingImage': 'Nano Banana is drawing the frame...',
+  'shot.imageFailed': 'Image generation failed',
+  'shot.retryImage': 'Retry',
+  'shot.generateConcept': 'Generate AI concept frame',
+  'shot.noPromptField': 'The analysis template leaves out the AI prompt, so no concept image can be generated',
+  'shot.waitingForAnalysis': 'Waiting for analysis...',
+  'shot.analyzing': 'Gemini is analysing this shot...',
+  'shot.analysisFailed': 'Analysis failed',
+  'shot.reanalyze': 'Re-analyse',
+  'shot.reanalyzeHint': 'Analyse this shot again; undo restores the previous analysis',
+  'shot.cached': 'Cached',
+  'shot.cachedHint': 'Reused from the local cache (analyzed {date}); no API request was made',
+  'shot.refreshCached': 'Force refresh',
+  'shot.refreshCachedHint': 'Ignore the cache and ask the model again; undo restores the previous analysis',
+  'shot.shotSize': 'Shot size',
+  'shot.cameraMovement': 'Camera movement',
+  'shot.cinematographyNotes': 'Camera notes',
+  'shot.confidence': 'Confidence {percent}%',
+  'shot.confidenceMultiFrame': 'Judged from {count} keyframes',
+  'shot.confidenceSingleFrame': 'Single frame only; movement is a guess',
+  'shot.duration': 'Duration',
+  'shot.sound': 'Sound / music',
+  'shot.measuredAudio': 'Measured audio',
+  'shot.loudnessHint': 'Integrated loudness (BS.1770)',
+  'shot.silenceHint': 'Share of the shot below -50 dBFS',
+  'shot.audioScores': 'Speech {speech} / music {music}',
+  'shot.dialogue': 'Dialogue',
+  'shot.visualDescription': 'Visual description',
+  'shot.lightingAndColor': 'Lighting & colour',
+  'shot.aiPrompt': 'MJ / Nano Banana Prompt',
+  'shot.generateImage': 'Generate frame',
+  'shot.notAnalyzed': 'This shot has not been analysed yet',
+  'shot.startAnalysis': 'Analyse',
+
+  // Analysis job control
+  'jobs.progress': 'Analyzed {done} / {total}',
+  'jobs.estimating': 'Estimating time remaining…',
+  'jobs.etaSeconds': 'About {seconds}s left',
+  'jobs.etaMinutes': 'About {minutes}m {seconds}s left',
+  'jobs.paused': 'Paused — requests already sent will finish, no new analyses start',
+  'jobs.pause': 'Pause',
+  'jobs.resume': 'Resume',
+  'jobs.cancel': 'Cancel all',
+  'jobs.cancelHint': 'Cancel queued and running analyses; shots go back to pending',
+  'jobs.retryFailed': 'Retry failed ({count})',
+  'jobs.analyzeSelected': 'Analyze selected ({count})',
+  'jobs.reanalyzeAll': 'Re-analyze all',
+  'jobs.reanalyzeAllHint': 'Re-analyze every shot; each result can be undone',
+  'jobs.selectAll': 'Select all',
+  'jobs.clearSelection': 'Clear selection',
+
+  // Request lanes
+  'queue.waiting': '{count} waiting',
+  'queue.active': '{active}/{limit} running',
+  'queue.backingOff': 'Rate limited, resuming in {seconds}s',
+  'queue.backingOffHint': 'The server asked for fewer requests; this model\'s requests resume automatically once the wait is over',
+
+  // Editable analysis fields
+  'edit.edit': 'Edit',
+  'edit.save': 'Save changes',
+  'edit.edited': 'Edited',
+  'edit.aiValue': 'AI original: {value}',
+  'edit.revert': 'Restore AI original',
+
+  // Split / merge / nudge controls
+  'timing.nudgeEarlier': 'Start {seconds} s earlier',
+  'timing.nudgeLater': 'Start {seconds} s later',
+  'timing.startTime': 'Shot start',
+  'timing.splitHint': 'Split this shot at a given time',
+  'timing.splitUnavailable': 'Source video unavailable; cannot split',
+  'timing.split': 'Split',
+  'timing.mergeHint': 'Merge with the next shot',
+  'timing.merge': 'Merge',
+  'timing.splitAt': 'Split at (s)',
+  'timing.afterMerge': 'After merging:',
+  'timing.keepAnalysis': 'Keep current analysis',
+
+  // Audio measurements
+  'audio.silence': 'Silence',
+  'audio.speech': 'Mostly dialogue',
+  'audio.music': 'Mostly music',
+  'audio.mixed': 'Dialogue + music',
+  'audio.ambient': 'Ambience',
+  'audio.silenceRatio': 'Silent {percent}%',
+  'audio.tempo': '~{bpm} BPM',
+
+  // Cinematography vocabulary
+  'vocab.shotSize.ECU': 'Extreme close-up',
+  'vocab.shotSize.CU': 'Close-up',
+  'vocab.shotSize.MCU': 'Medium close-up',
+  'vocab.shotSize.MS': 'Medium shot',
+  'vocab.shotSize.MLS': 'Medium long shot',
+  'vocab.shotSize.LS': 'Long shot',
+  'vocab.shotSize.ELS': 'Extreme long shot',
+  'vocab.cameraMovement.static': 'Static',
+  'vocab.cameraMovement.pan': 'Pan',
+  'vocab.cameraMovement.tilt': 'Tilt',
+  'vocab.cameraMovement.dolly': 'Dolly',
+  'vocab.cameraMovement.truck': 'Truck',
+  'vocab.cameraMovement.crane': 'Crane',
+  'vocab.cameraMovement.handheld': 'Handheld',
+  'vocab.cameraMovement.zoom': 'Zoom',
+  'vocab.cameraMovement.steadicam': 'Steadicam',
+
+  // Palette
+  'palette.summary': '{swatches} (mean luminance {luminance}%, saturation {saturation}%)',
+
+  // Video player
+  'player.title': 'Source video',
+  'player.current': 'Current: shot {index}',
+  'player.loopHint': 'Loop the current shot',
+  'player.loop': 'Loop shot',
+  'player.expand': 'Expand player',
+  'player.collapse': 'Collapse player',
+
+  // Colour script
+  'colorScript.title': 'Colour script',
+  'colorScript.progress': '({ready}/{total} shots)',
+  'colorScript.download': 'Download colour script PNG',
+
+  // Film summary dashboard
+  'summary.title': 'Film overview',
+  'summary.basis': '({analyzed}/{total} shots analysed)',
+  'summary.shotCount': 'Shots',
+  'summary.totalDuration': 'Total length',
+  'summary.averageShotLength': 'Average shot length',
+  'summary.medianShotLength': 'Median shot length',
+  'summary.shotRange': 'Shortest {shortest}s · longest {longest}s',
+  'summary.cutsPerMinute': 'Cuts per minute',
+  'summary.durationHistogram': 'Shot length distribution',
+  'summary.shotSizes': 'Shot sizes',
+  'summary.cameraMovements': 'Camera movement',
+  'summary.rhythm': 'Cutting rhythm',
+  'summary.rhythmWindow': '{start}–{end} · {rate} cuts per minute',
+  'summary.bucketShots': '{count} shots',
+  'summary.distributionEntry': '{label} {count} ({percent}%)',
+  'summary.other': 'Other',
+  'summary.noAnalysis': 'Shown once shots are analysed',
+  'summary.critique': 'Overall critique',
+  'summary.critiqueHint': 'An AI-written critique of visual style, colour arc and pacing, based on the per-shot analyses',
+  'summary.generateCritique': 'Write critique',
+  'summary.regenerateCritique': 'Regenerate',
+  'summary.critiqueWaiting': 'Available once every shot is analysed',
+  'summary.critiqueGenerating': 'Writing the overall critique...',
+  'summary.critiqueStale': 'This critique is based on {count} analysed shots; analyses finished since are not included',
+  'summary.visualStyle': 'Visual style',
+  'summary.colorArc': 'Colour arc',
+  'summary.pacing': 'Pacing & editing',
+  'summary.overall': 'Verdict',
+
+  // Scene grouping
+  'scenes.detect': 'Detect scenes',
+  'scenes.redetect': 'Re-detect scenes',
+  'scenes.detectHint': 'Group neighbouring shots into scenes by image, colour and analysis text, and have AI write each scene\'s heading and synopsis',
+  'scenes.detecting': 'Detecting scenes...',
+  'scenes.count': '{count} scenes',
+  'scenes.collapseAll': 'Collapse all',
+  'scenes.expandAll': 'Expand all',
+  'scenes.collapse': 'Collapse scene',
+  'scenes.expand': 'Expand scene',
+  'scenes.number': 'Scene {index}',
+  'scenes.unassigned': 'Shots without a scene',
+  'scenes.stats': '{count} shots · {start}–{end}',
+  'scenes.describe': 'Describe scene',
+  'scenes.redescribe': 'Rewrite scene description',
+  'scenes.describing': 'Writing the scene description...',
+  'scenes.describeFailed': 'Could not describe the scene: {message}',
+  'scenes.stale': 'The shots in this scene have changed; the description may be out of date',
+  'scenes.merge': 'Merge with previous scene',
+  'scenes.splitHere': 'Start a new scene at this shot',
+
+  // Analysis cache
+  'cache.title': 'Analysis cache',
+  'cache.subtitle': 'Analyses of identical frames are kept on this device so you only pay once',
+  'cache.entries': 'Entries',
+  'cache.size': 'Size',
+  'cache.oldest': 'Oldest entry',
+  'cache.explanation': 'Entries are keyed by frame content, measured audio, dialogue, template, output language and model version; any difference means a new request. Clearing the cache does not touch saved projects.',
+  'cache.clear': 'Clear cache',
+  'cache.confirmClear': 'Clear the whole analysis cache? Identical frames will be sent to the model again.',
+
+  // Project library
+  'library.title': 'Project library',
+  'library.count': '({count} breakdowns)',
+  'library.open': 'Open',
+  'library.openHint': 'Open project',
+  'library.complete': 'Complete',
+  'library.progress': 'Analysed {completed}/{total}',
+  'library.shotCount': '{count} shots',
+  'library.failedCount': ' · {count} failed',
+  'library.rename': 'Rename',
+  'library.duplicate': 'Duplicate project',
+  'library.delete': 'Delete project',
+  'library.confirmDelete': 'Delete the project "{title}"? This cannot be undone.',
+  'project.untitled': 'Untitled project',
+  'project.copyTitle': '{title} copy',
+  'project.defaultFileName': 'Breakdown project',
+
+  // Analysis templates
+  'templates.title': 'Analysis templates',
+  'templates.subtitle': 'Choose and rename the standard breakdown fields, or define fields the AI should analyse on top of them. Applies to shots analysed from now on.',
+  'templates.builtIn': 'Built-in',
+  'templates.custom': 'Custom',
+  'templates.fieldCount': '{count} extra fields',
+  'templates.new': 'New template',
+  'templates.newName': 'New template',
+  'templates.copyName': '{name} copy',
+  'templates.name': 'Template name',
+  'templates.description': 'Description',
+  'templates.optional': 'Optional',
+  'templates.fieldLabel': 'Display name, e.g. Composition',
+  'templates.fieldKey': 'Field key, e.g. composition',
+  'templates.deleteField': 'Delete field',
+  'templates.fieldInstruction': 'Instruction: tell the AI what to write in this field',
+  'templates.fieldOptions': 'Allowed values, comma-separated, e.g. Eye level, Low angle, High angle',
+  'templates.fieldUnit': 'Unit (optional), e.g. mm',
+  'templates.addField': 'Add field',
+  'templates.save': 'Save template',
+  'templates.standardFields': 'Standard fields',
+  'templates.standardFieldsHint': 'Unticked fields are not analysed, shown or exported. Leave a display name empty to keep the default.',
+  'templates.standardFieldLabel': 'Display name, default: {label}',
+  'templates.extraFields': 'Extra fields',
+  'templates.noExtraFields': 'No extra fields.',
+  'templates.options': 'Allowed values: {options}',
+  'templates.inUse': 'In use',
+  'templates.use': 'Use this template',
+  'templates.edit': 'Edit',
+  'templates.duplicate': 'Duplicate as new template',
+  'templates.delete': 'Delete template',
+  'templates.confirmDelete': 'Delete the template "{name}"? Shots already analysed keep their field values.',
+  'templates.type.text': 'Text',
+  'templates.type.enum': 'Choice',
+  'templates.type.number': 'Number',
+  'templates.error.name': 'The template needs a name',
+  'templates.error.label': 'Field {index} has no display name',
+  'templates.error.key': 'The key of "{field}" may only contain letters, digits and underscores, and must start with a letter',
+  'templates.error.duplicateKey': 'The field key "{key}" is used twice',
+  'templates.error.instruction': '"{field}" has no instruction',
+  'templates.error.options': '"{field}" needs at least two allowed values',
+  'templates.error.empty': 'Keep at least one standard field or add an extra field',
+  'templates.fieldFallback': 'Field {index}',
+
+  // Built-in templates
+  'builtIn.standard.name': 'Standard breakdown',
+  'builtIn.standard.description': 'Shot size, camera movement, lighting, sound and visual description',
+  'builtIn.cinematography.name': 'Composition & lens',
+  'builtIn.cinematography.description': 'Composition, camera angle and focal length estimate',
+  'builtIn.composition.label': 'Composition',
+  'builtIn.composition.instruction': 'Composition and visual weight (e.g. rule of thirds, symmetry, frame within a frame, foreground occlusion, lead room)',
+  'builtIn.cameraAngle.label': 'Camera angle',
+  'builtIn.cameraAngle.instruction': 'Angle of the camera relative to the subject',
+  'builtIn.cameraAngle.options': 'Eye level,Low angle,High angle,Overhead,Dutch angle',
+  'builtIn.focalLength.label': 'Focal length estimate',
+  'builtIn.focalLength.instruction': 'Equivalent focal length judged from perspective compression and depth of field (full-frame equivalent, in millimetres)',
+  'builtIn.performance.name': 'Performance & blocking',
+  'builtIn.performance.description': 'Blocking, emotion and performance details',
+  'builtIn.blocking.label': 'Blocking',
+  'builtIn.blocking.instruction': 'Where characters stand and move in the frame, and how they relate to the camera',
+  'builtIn.emotion.label': 'Emotion',
+  'builtIn.emotion.instruction': 'Dominant emotion of the main character in frame',
+  'builtIn.emotion.options': 'Calm,Joy,Sadness,Anger,Fear,Tension,Surprise,No character',
+  'builtIn.performanceNotes.label': 'Performance notes',
+  'builtIn.performanceNotes.instruction': 'Notable details of expression, eyeline and body language',
+  'builtIn.continuity.name': 'Script supervision & continuity',
+  'builtIn.continuity.description': 'Props, wardrobe and continuity checks',
+  'builtIn.props.label': 'Props',
+  'builtIn.props.instruction': 'Main visible props and where they are',
+  'builtIn.wardrobe.label': 'Wardrobe & makeup',
+  'builtIn.wardrobe.instruction': 'Key features of costume, hair and makeup',
+  'builtIn.continuityNotes.label': 'Continuity notes',
+  'builtIn.continuityNotes.instruction': 'Details that must match the neighbouring shots (prop states, screen direction, light direction, etc.)',
+
+  // Word report
+  'report.title': 'Huanxi AI - Film Breakdown Report',
+  'report.summary': 'Film overview',
+  'report.critique': 'Overall critique',
+  'report.listSeparator': ', ',
+  'report.colorScript': 'Colour script',
+  'report.shotHeading': 'Shot {index} (at {time})',
+  'report.sceneHeading': 'Scene {index}: {heading}',
+  'report.sceneNumber': 'Scene {index}',
+  'report.imageFailed': '[Image failed to load]',
+  'report.duration': 'Duration',
+  'report.shotSize': 'Shot size',
+  'report.cameraMovement': 'Camera movement',
+  'report.cinematographyNotes': 'Camera notes',
+  'report.confidence': '{movement} (confidence {percent}%)',
+  'report.visualDescription': 'Visual description',
+  'report.lightingAndColor': 'Lighting & colour',
+  'report.palette': 'Palette',
+  'report.sound': 'Sound',
+  'report.measuredAudio': 'Measured audio',
+  'report.dialogue': 'Dialogue',
+  'report.prompt': 'AI prompt:',
+  'report.fileName': 'HuanxiAI_Breakdown_Report_{date}.docx',
+};
@@ -0,0 +1,484 @@
+// Chinese interface strings. This is the reference locale: its keys define MessageKey,
+// and every other locale must provide the same keys. `{name}` marks an interpolated value.
+
+export const zh = {
+  // Shared
+  'common.cancel': '取消',
+  'common.save': '保存',
+  'common.confirm': '确认',
+  'common.seconds': '{value} 秒',
+  'common.shotNumber': '镜头 {index}',
+
+  // Language menu
+  'language.menu': '语言设置',
+  'language.ui': '界面语言',
+  'language.analysis': '分析输出语言',
+  'language.analysisHint': '仅对之后分析的镜头生效',
+  'language.ui.zh': '中文',
+  'language.ui.en': 'English',
+  'language.analysis.zh': '中文',
+  'language.analysis.en': '英文',
+  'language.analysis.bilingual': '中英双语',
+
+  // App header & landing page
+  'app.subtitle': 'Nano Banana Edition',
+  'app.exportReport': '导出报告',
+  'app.exportWord': '导出 Word (.docx)',
+  'app.exportProject': '导出项目文件 ({extension})',
+  'app.print': '打印 / 另存为 PDF',
+  'app.templates': '分析模板',
+  'app.analysisCache': '分析缓存',
+  'app.apiSettings': 'AI 服务设置',
+  'app.heroTitle': '智能逐帧拉片工具',
+  'app.heroDescription': '上传视频，AI 自动拆解镜头、生成专业摄影笔记，并使用 Nano Banana 模型重绘分镜。',
+  'app.restore.title': '上次的拉片会话：{title}',
+  'app.restore.summary': '{count} 个镜头 · 保存于 {savedAt}',
+  'app.restore.dismiss': '暂不恢复',
+  'app.restore.confirm': '恢复会话',
+  'app.openProjectFile': '或打开已有的拉片项目 ({extension})',
+  'app.uploadNew': '← 上传新视频',
+  'app.undo': '撤销：{label} (Ctrl+Z)',
+  'app.redo': '重做：{label} (Ctrl+Shift+Z)',
+  'app.nothingToUndo': '没有可撤销的操作',
+  'app.nothingToRedo': '没有可重做的操作',
+  'app.dedupeSummary': '去重合并了 {count} 个近似重复画面，节省了同等数量的分析请求',
+  'app.resumePending': '继续分析 {count} 个待分析镜头',
+  'app.relinkPrompt': '已恢复会话。关联源视频 {fileName} 后可播放镜头并拆分。',
+  'app.relinkVideo': '关联源视频',
+  'app.extracting': '正在拆解视频镜头... {progress}%',
+  'app.extractingDetected': '已检测到 {count} 个镜头，分析已同步开始',
+  'app.extractingMerged': '，已合并 {count} 个近似重复画面',
+  'app.stopExtraction': '停止拆解',
+  'app.footer': '© 2025 Huanxi AI. All rights reserved.',
+
+  // AI settings modal
+  'settings.title': '配置 AI 服务',
+  'settings.subtitle': '为每项任务选择 Gemini、OpenAI 兼容接口或离线模拟',
+  'settings.tasks': '任务分配',
+  'settings.task.analysis': '镜头分析',
+  'settings.task.writing': '整体评析与分场',
+  'settings.task.image': '分镜画面生成',
+  'settings.provider.gemini': 'Gemini (官方接口或代理)',
+  'settings.provider.openai': 'OpenAI 兼容接口',
+  'settings.provider.mock': '离线模拟 (无需网络)',
+  'settings.baseUrl': 'Base URL (API 代理地址)',
+  'settings.baseUrlHint': '请填入中转站的域名 (如 https://api.proxy.com)。',
+  'settings.baseUrlWarning': '请勿在此处填 Key。',
+  'settings.apiKey': 'API Key / Proxy Key',
+  'settings.apiKeyHint': '在此处填入您的密钥 (AIza... 或代理提供的密钥)。',
+  'settings.gemini.authScheme': '代理鉴权方式',
+  'settings.gemini.authScheme.apiKey': 'x-goog-api-key 请求头 (与 Gemini 官方一致)',
+  'settings.gemini.authScheme.bearer': 'Authorization: Bearer (OpenAI 风格中转站)',
+  'settings.gemini.authSchemeHint': '密钥只按所选方式发送给代理。直连官方接口时始终使用 x-goog-api-key。',
+  'settings.openai.baseUrl': 'API 地址',
+  'settings.openai.baseUrlHint': 'OpenAI 或中转站的接口地址，未写版本时自动补全 /v1。',
+  'settings.openai.chatModel': '视觉对话模型',
+  'settings.openai.imageModel': '图像生成模型',
+  'settings.mockHint': '离线模拟根据画面生成固定的示例结果和占位图，不发送任何网络请求，仅用于开发和演示。',
+  'settings.reset': '重置',
+  'settings.saveAndContinue': '保存并继续',
+  'settings.keyInBaseUrl': "配置错误提醒：\n\n您似乎将 API Key (sk-...) 填入到了 'Base URL' 栏中。\n\n1. 请将 sk- 开头的密钥填入上方的 'API Key' 栏。\n2. Base URL 栏应填写中转站的域名 (例如 https://api.proxy.com)。",
+
+  // Errors surfaced by the app
+  'error.requestFailed': '请求失败',
+  'error.rateLimited': '请求频繁 (429)。请点击重试。',
+  'error.invalidKey': 'Key 无效。请检查密钥是否正确，或代理地址是否配置正确。',
+  'error.exportProject': '导出项目文件失败：{message}',
+  'error.extraction': '视频拆解失败：{message}',
+  'error.projectMissing': '无法打开该项目，记录可能已被删除。',
+  'error.openProjectFile': '打开项目文件失败：{message}',
+  'error.split': '拆分镜头失败：{message}',
+  'error.subtitleImport': '字幕导入失败：{message}',
+  'error.critique': '整体评析生成失败：{message}',
+  'error.sceneDetection': '自动分场失败：{message}',
+  'error.clearCache': '清空缓存失败：{message}',
+  'error.providerNotConfigured': '请在设置中完成所选 AI 服务的配置',
+  'error.modelRefused': '模型拒绝回答：{reason}',
+  'error.emptyResponse': 'API 返回内容为空',
+  'error.invalidJson': '无法解析 JSON 响应',
+  'error.noImageInResponse': '响应中未找到图片数据',
+  'error.imageGeneration': '生成图片失败',
+  'error.imageRefused': '模型拒绝生成图片 (可能由于安全策略或 Prompt 问题)',
+  'error.canvasUnavailable': 'Canvas 2D 不可用',
+  'error.notProjectFile': '不是有效的拉片项目文件',
+  'error.projectFileTooNew': '项目文件版本 (v{version}) 高于当前应用支持的版本 (v{supported})，请升级后再打开',
+  'error.projectFileMigration': '无法升级 v{version} 项目文件',
+  'error.projectFileNoManifest': '项目文件缺少 manifest.json',
+  'error.projectFileMissingImage': '项目文件缺少图片：{path}',
+  'error.unknownImageData': '无法识别的图片数据',
+  'error.readVideo': '无法读取视频文件',
+  'error.encodeFrame': '无法编码视频帧',
+  'error.extractionWorker': '拆解线程意外退出',
+  'error.readShotImage': '无法读取镜头画面',
+  'error.subtitleParse': '未能从字幕文件中解析出任何台词',
+  'error.cancelled': '已取消',
+  'error.audioAnalysis': '音频分析失败，镜头将没有实测声音数据：{message}',
+  'error.audioUnsupported': '当前浏览器不支持音频解码',
+  'error.audioDecode': '无法解码视频的音轨 (文件可能没有音轨，或编码格式不受支持)',
+  'error.audioFileTooLarge': '该视频格式无法分段读取音轨，而文件超过 {size} MB，无法整体解码',
+  'confirm.relinkMismatch': '所选文件与会话记录的源视频 ({fileName}) 不一致，仍要关联吗？',
+  'confirm.reanalyzeAll': '将重新分析全部 {count} 个镜头并产生相应的 API 调用，确定继续吗？',
+
+  // Undo history labels
+  'history.reanalyze': '重新分析',
+  'history.delete': '删除镜头',
+  'history.split': '拆分镜头',
+  'history.merge': '合并镜头',
+  'history.retime': '调整镜头入点',
+  'history.detectScenes': '自动分场',
+  'history.splitScene': '拆分场景',
+  'history.mergeScenes': '合并场景',
+  'history.editAnalysis': '修改分析',
+  'history.generateImage': '生成分镜图',
+  'history.regenerateImage': '重新生成分镜图',
+
+  // Video uploader
+  'upload.title': '上传视频进行拉片',
+  'upload.formats': '支持 MP4, WebM 等常见格式',
+  'upload.chooseFile': '选择文件',
+  'upload.changeVideo': '重新选择视频',
+  'upload.subtitleCount': '{count} 条台词',
+  'upload.subtitlePlaceholder': '字幕文件 (可选，SRT / ASS / WebVTT)',
+  'upload.removeSubtitles': '移除字幕',
+  'upload.chooseSubtitles': '选择字幕',
+  'upload.start': '开始拆解',
+
+  // Extraction settings
+  'extraction.timeRange': '时间范围',
+  'extraction.totalLength': '（视频总长 {duration}）',
+  'extraction.startTime': '入点 (秒)',
+  'extraction.endTime': '出点 (秒)',
+  'extraction.invalidRange': '出点必须晚于入点。',
+  'extraction.sampling': '采样与镜头检测',
+  'extraction.detectScenes': '自动检测镜头切换（关闭后每个采样点即为一个镜头）',
+  'extraction.cutThreshold': '镜头切换阈值',
+  'extraction.samplingMode': '采样方式',
+  'extraction.mode.interval': '按间隔',
+  'extraction.mode.count': '按目标帧数',
+  'extraction.sampleInterval': '采样间隔 (秒)',
+  'extraction.targetFrameCount': '目标采样帧数',
+  'extraction.sampleStep': '约每 {step} 秒一帧',
+  'extraction.dedupe': '重复画面去重',
+  'extraction.dedupeFrames': '合并与上一帧几乎相同的画面（感知哈希比对，节省分析请求）',
+  'extraction.dedupeThreshold': '相似度容差',
+  'extraction.dedupeThresholdHint': '哈希中最多允许不同的位数 (共 {bits} 位)',
+  'extraction.output': '输出画面',
+  'extraction.resolution': '分辨率 (高)',
+  'extraction.jpegQuality': 'JPEG 质量',
+  'extraction.maxFrames': '最多镜头数',
+  'extraction.estimate': '预计最多 {count} 次分析请求',
+  'extraction.estimateScenes': '开启镜头检测时，实际请求数等于检测到的镜头数，通常远低于此上限。',
+  'extraction.estimateDedupe': '每个采样帧单独发送一次分析请求，近似重复的画面会先合并。',
+  'extraction.estimateFixed': '每个采样帧都会单独发送一次分析请求。',
+
+  // Shot list & cards
+  'shots.title': '拉片结果 ({count} 镜头)',
+  'shot.delete': '删除此镜头',
+  'shot.select': '选择此镜头，用于批量分析',
+  'shot.play': '在播放器中播放此镜头',
+  'shot.mergedFramesHint': '提取时与前一帧几乎相同、已并入本镜头的画面数',
+  'shot.mergedFrames': '已合并 {count} 帧重复画面',
+  'shot.downloadFrame': '下载原图',
+  'shot.keyframe.start': '起',
+  'shot.keyframe.middle': '中',
+  'shot.keyframe.end': '末',
+  'shot.paletteStats': '亮度 {luminance}% · 饱和 {saturation}%',
+  'shot.generatedBadge': 'Nano Banana 重绘',
+  'shot.regenerateImage': '重新生成（可撤销）',
+  'shot.downloadGenerated': '下载 AI 生成图',
+  'shot.generatingImage': 'Nano Banana 正在绘制分镜...',
+  'shot.imageFailed': '生图失败',
+  'shot.retryImage': '重试生图',
+  'shot.generateConcept': '生成 AI 概念图',
+  'shot.noPromptField': '分析模板未包含 AI 提示词，无法生成概念图',
+  'shot.waitingForAnalysis': '等待分析完成...',
+  'shot.analyzing': 'Gemini 正在分析此镜头...',
+  'shot.analysisFailed': '分析失败',
+  'shot.reanalyze': '重新分析',
+  'shot.reanalyzeHint': '重新分析此镜头，可撤销恢复之前的分析',
+  'shot.cached': '已缓存',
+  'shot.cachedHint': '复用 {date} 的本地缓存结果，未产生 API 调用',
+  'shot.refreshCached': '强制刷新',
+  'shot.refreshCachedHint': '忽略缓存重新请求模型分析，可撤销恢复之前的分析',
+  'shot.shotSize': '景别',
+  'shot.cameraMovement': '镜头运动',
+  'shot.cinematographyNotes': '景别/运镜备注',
+  'shot.confidence': '置信度 {percent}%',
+  'shot.confidenceMultiFrame': '基于 {count} 张关键帧判断',
+  'shot.confidenceSingleFrame': '仅有单帧，运镜为推测',
+  'shot.duration': '时长',
+  'shot.sound': '声音/音乐',
+  'shot.measuredAudio': '实测音频',
+  'shot.loudnessHint': '综合响度 (BS.1770)',
+  'shot.silenceHint': '低于 -50 dBFS 的时长占比',
+  'shot.audioScores': '语音特征 {speech} / 音乐特征 {music}',
+  'shot.dialogue': '对白',
+  'shot.visualDescription': '画面内容',
+  'shot.lightingAndColor': '光影色彩',
+  'shot.aiPrompt': 'MJ / Nano Banana Prompt',
+  'shot.generateImage': '生成分镜画面',
+  'shot.notAnalyzed': '此镜头尚未分析',
+  'shot.startAnalysis': '开始分析',
+
+  // Analysis job control
+  'jobs.progress': '分析进度 {done} / {total}',
+  'jobs.estimating': '正在估算剩余时间…',
+  'jobs.etaSeconds': '预计剩余 {seconds} 秒',
+  'jobs.etaMinutes': '预计剩余 {minutes} 分 {seconds} 秒',
+  'jobs.paused': '已暂停，进行中的请求完成后不再开始新的分析',
+  'jobs.pause': '暂停',
+  'jobs.resume': '继续',
+  'jobs.cancel': '全部取消',
+  'jobs.cancelHint': '取消排队与进行中的分析，镜头恢复为待分析',
+  'jobs.retryFailed': '重试失败镜头 ({count})',
+  'jobs.analyzeSelected': '分析所选镜头 ({count})',
+  'jobs.reanalyzeAll': '全部重新分析',
+  'jobs.reanalyzeAllHint': '重新分析所有镜头，每个镜头的结果均可撤销',
+  'jobs.selectAll': '全选',
+  'jobs.clearSelection': '取消选择',
+
+  // Request lanes
+  'queue.waiting': '等待 {count}',
+  'queue.active': '进行中 {active}/{limit}',
+  'queue.backingOff': '限流退避中，{seconds} 秒后继续',
+  'queue.backingOffHint': '服务端要求降低请求频率，该模型的请求会在等待结束后自动继续',
+
+  // Editable analysis fields
+  'edit.edit': '修改',
+  'edit.save': '保存修改',
+  'edit.edited': '已修改',
+  'edit.aiValue': 'AI 原值：{value}',
+  'edit.revert': '恢复 AI 原值',
+
+  // Split / merge / nudge controls
+  'timing.nudgeEarlier': '入点提前 {seconds} 秒',
+  'timing.nudgeLater': '入点延后 {seconds} 秒',
+  'timing.startTime': '镜头入点',
+  'timing.splitHint': '在指定时间点拆分此镜头',
+  'timing.splitUnavailable': '源视频不可用，无法拆分',
+  'timing.split': '拆分',
+  'timing.mergeHint': '与下一个镜头合并',
+  'timing.merge': '合并',
+  'timing.splitAt': '拆分点 (秒)',
+  'timing.afterMerge': '合并后：',
+  'timing.keepAnalysis': '保留当前分析',
+
+  // Audio measurements
+  'audio.silence': '静默',
+  'audio.speech': '对白为主',
+  'audio.music': '音乐为主',
+  'audio.mixed': '对白 + 音乐',
+  'audio.ambient': '环境音',
+  'audio.silenceRatio': '静音 {percent}%',
+  'audio.tempo': '约 {bpm} BPM',
+
+  // Cinematography vocabulary
+  'vocab.shotSize.ECU': '大特写',
+  'vocab.shotSize.CU': '特写',
+  'vocab.shotSize.MCU': '近景',
+  'vocab.shotSize.MS': '中景',
+  'vocab.shotSize.MLS': '中全景',
+  'vocab.shotSize.LS': '全景',
+  'vocab.shotSize.ELS': '大远景',
+  'vocab.cameraMovement.static': '固定镜头',
+  'vocab.cameraMovement.pan': '摇镜头',
+  'vocab.cameraMovement.tilt': '俯仰摇',
+  'vocab.cameraMovement.dolly': '推拉轨道',
+  'vocab.cameraMovement.truck': '横移',
+  'vocab.cameraMovement.crane': '升降/摇臂',
+  'vocab.cameraMovement.handheld': '手持',
+  'vocab.cameraMovement.zoom': '变焦',
+  'vocab.cameraMovement.steadicam': '斯坦尼康',
+
+  // Palette
+  'palette.summary': '{swatches}（平均亮度 {luminance}%，饱和度 {saturation}%）',
+
+  // Video player
+  'player.title': '源视频',
+  'player.current': '当前：镜头 {index}',
+  'player.loopHint': '循环播放当前镜头区间',
+  'player.loop': '循环镜头',
+  'player.expand': '展开播放器',
+  'player.collapse': '收起播放器',
+
+  // Colour script
+  'colorScript.title': '色彩剧本',
+  'colorScript.progress': '（{ready}/{total} 个镜头）',
+  'colorScript.download': '下载色彩剧本 PNG',
+
+  // Film summary dashboard
+  'summary.title': '影片总览',
+  'summary.basis': '（{analyzed}/{total} 个镜头已分析）',
+  'summary.shotCount': '镜头数',
+  'summary.totalDuration': '总时长',
+  'summary.averageShotLength': '平均镜头长度',
+  'summary.medianShotLength': '镜头长度中位数',
+  'summary.shotRange': '最短 {shortest} 秒 · 最长 {longest} 秒',
+  'summary.cutsPerMinute': '每分钟剪切',
+  'summary.durationHistogram': '镜头长度分布',
+  'summary.shotSizes': '景别分布',
+  'summary.cameraMovements': '运镜分布',
+  'summary.rhythm': '剪切节奏',
+  'summary.rhythmWindow': '{start}–{end} · 每分钟 {rate} 次剪切',
+  'summary.bucketShots': '{count} 个镜头',
+  'summary.distributionEntry': '{label} {count} 个 ({percent}%)',
+  'summary.other': '其他',
+  'summary.noAnalysis': '镜头分析完成后显示',
+  'summary.critique': '整体评析',
+  'summary.critiqueHint': '根据逐镜头分析，由 AI 撰写视觉风格、色彩弧线与节奏的整体评析',
+  'summary.generateCritique': '生成整体评析',
+  'summary.regenerateCritique': '重新生成',
+  'summary.critiqueWaiting': '所有镜头分析完成后可生成',
+  'summary.critiqueGenerating': '正在撰写整体评析...',
+  'summary.critiqueStale': '此评析基于 {count} 个已分析镜头，之后完成的分析未包含在内',
+  'summary.visualStyle': '视觉风格',
+  'summary.colorArc': '色彩弧线',
+  'summary.pacing': '节奏与剪辑',
+  'summary.overall': '总评',
+
+  // Scene grouping
+  'scenes.detect': '自动分场',
+  'scenes.redetect': '重新分场',
+  'scenes.detectHint': '根据画面、色彩和分析文字把相邻镜头分组为场景，并由 AI 撰写场景标题和梗概',
+  'scenes.detecting': '正在分场...',
+  'scenes.count': '{count} 场',
+  'scenes.collapseAll': '全部折叠',
+  'scenes.expandAll': '全部展开',
+  'scenes.collapse': '折叠此场',
+  'scenes.expand': '展开此场',
+  'scenes.number': '第 {index} 场',
+  'scenes.unassigned': '未分场镜头',
+  'scenes.stats': '{count} 个镜头 · {start}–{end}',
+  'scenes.describe': '生成场景描述',
+  'scenes.redescribe': '重新生成场景描述',
+  'scenes.describing': '正在撰写场景描述...',
+  'scenes.describeFailed': '场景描述生成失败：{message}',
+  'scenes.stale': '此场的镜头已变化，描述可能已过时',
+  'scenes.merge': '与上一场合并',
+  'scenes.splitHere': '从此镜头开始新的一场',
+
+  // Analysis cache
+  'cache.title': '分析缓存',
+  'cache.subtitle': '相同画面的分析结果保存在本机，不再重复付费',
+  'cache.entries': '缓存条目',
+  'cache.size': '占用空间',
+  'cache.oldest': '最早条目',
+  'cache.explanation': '缓存按画面内容、实测音频、对白、分析模板、输出语言与模型版本区分，任一项不同都会重新请求。清空缓存不影响已保存的项目。',
+  'cache.clear': '清空缓存',
+  'cache.confirmClear': '确定清空全部分析缓存吗？之后相同画面将重新请求模型。',
+
+  // Project library
+  'library.title': '项目库',
+  'library.count': '（{count} 个拉片项目）',
+  'library.open': '打开',
+  'library.openHint': '打开项目',
+  'library.complete': '已完成',
+  'library.progress': '已分析 {completed}/{total}',
+  'library.shotCount': '{count} 个镜头',
+  'library.failedCount': ' · {count} 个失败',
+  'library.rename': '重命名',
+  'library.duplicate': '复制项目',
+  'library.delete': '删除项目',
+  'library.confirmDelete': '确定删除项目「{title}」吗？删除后无法恢复。',
+  'project.untitled': '未命名项目',
+  'project.copyTitle': '{title} 副本',
+  'project.defaultFileName': '拉片项目',
+
+  // Analysis templates
+  'templates.title': '分析模板',
+  'templates.subtitle': '选择要分析的标准拉片字段并为其改名，或定义需要 AI 额外分析的字段。仅对之后分析的镜头生效。',
+  'templates.builtIn': '内置',
+  'templates.custom': '自定义',
+  'templates.fieldCount': '{count} 个附加字段',
+  'templates.new': '新建模板',
+  'templates.newName': '新模板',
+  'templates.copyName': '{name} 副本',
+  'templates.name': '模板名称',
+  'templates.description': '说明',
+  'templates.optional': '可选',
+  'templates.fieldLabel': '显示名称，如：构图',
+  'templates.fieldKey': '字段键，如：composition',
+  'templates.deleteField': '删除字段',
+  'templates.fieldInstruction': '分析说明：告诉 AI 这个字段要写什么',
+  'templates.fieldOptions': '可选值，用逗号分隔，如：平视，仰拍，俯拍',
+  'templates.fieldUnit': '单位 (可选)，如：mm',
+  'templates.addField': '添加字段',
+  'templates.save': '保存模板',
+  'templates.standardFields': '标准字段',
+  'templates.standardFieldsHint': '未勾选的字段不会交给 AI 分析，也不会显示或导出。显示名称留空则使用默认名称。',
+  'templates.standardFieldLabel': '显示名称，默认：{label}',
+  'templates.extraFields': '附加字段',
+  'templates.noExtraFields': '没有附加字段。',
+  'templates.options': '可选值：{options}',
+  'templates.inUse': '当前使用中',
+  'templates.use': '使用此模板',
+  'templates.edit': '编辑',
+  'templates.duplicate': '复制为新模板',
+  'templates.delete': '删除模板',
+  'templates.confirmDelete': '确定删除模板「{name}」吗？已分析的镜头会保留其字段内容。',
+  'templates.type.text': '文本',
+  'templates.type.enum': '选项',
+  'templates.type.number': '数值',
+  'templates.error.name': '模板名称不能为空',
+  'templates.error.label': '第 {index} 个字段缺少显示名称',
+  'templates.error.key': '「{field}」的字段键只能包含英文字母、数字和下划线，且以字母开头',
+  'templates.error.duplicateKey': '字段键「{key}」重复',
+  'templates.error.instruction': '「{field}」缺少分析说明',
+  'templates.error.options': '「{field}」至少需要两个可选值',
+  'templates.error.empty': '请至少保留一个标准字段或添加一个附加字段',
+  'templates.fieldFallback': '第 {index} 个字段',
+
+  // Built-in templates
+  'builtIn.standard.name': '标准拉片',
+  'builtIn.standard.description': '景别、运镜、光影、声音与画面描述',
+  'builtIn.cinematography.name': '构图与镜头',
+  'builtIn.cinematography.description': '构图方式、机位角度与镜头焦段推测',
+  'builtIn.composition.label': '构图',
+  'builtIn.composition.instruction': '构图方式与画面重心 (如：三分法、中心对称、框中框、前景遮挡、留白方向)',
+  'builtIn.cameraAngle.label': '机位角度',
+  'builtIn.cameraAngle.instruction': '摄影机相对被摄主体的角度',
+  'builtIn.cameraAngle.options': '平视,仰拍,俯拍,顶拍,荷兰角',
+  'builtIn.focalLength.label': '焦段推测',
+  'builtIn.focalLength.instruction': '根据透视压缩与景深推测的等效焦段 (35mm 画幅等效，单位毫米)',
+  'builtIn.performance.name': '表演与调度',
+  'builtIn.performance.description': '人物调度、情绪与表演细节',
+  'builtIn.blocking.label': '人物调度',
+  'builtIn.blocking.instruction': '人物在画面中的站位、走位及与摄影机的关系',
+  'builtIn.emotion.label': '人物情绪',
+  'builtIn.emotion.instruction': '画面主要人物的主导情绪',
+  'builtIn.emotion.options': '平静,喜悦,悲伤,愤怒,恐惧,紧张,惊讶,无人物',
+  'builtIn.performanceNotes.label': '表演细节',
+  'builtIn.performanceNotes.instruction': '表情、眼神、肢体动作等值得注意的表演细节',
+  'builtIn.continuity.name': '场记与连戏',
+  'builtIn.continuity.description': '道具、服装与连戏检查',
+  'builtIn.props.label': '道具',
+  'builtIn.props.instruction': '画面中可见的主要道具及其位置',
+  'builtIn.wardrobe.label': '服装造型',
+  'builtIn.wardrobe.instruction': '人物服装、发型、妆容的关键特征',
+  'builtIn.continuityNotes.label': '连戏要点',
+  'builtIn.continuityNotes.instruction': '与前后镜头衔接时需要保持一致的细节 (道具状态、人物朝向、光线方向等)',
+
+  // Word report
+  'report.title': '欢玺AI - 智能拉片报告',
+  'report.summary': '影片总览',
+  'report.critique': '整体评析',
+  'report.listSeparator': '、',
+  'report.colorScript': '色彩剧本',
+  'report.shotHeading': '镜头 {index} (时间点: {time})',
+  'report.sceneHeading': '第 {index} 场：{heading}',
+  'report.sceneNumber': '第 {index} 场',
+  'report.imageFailed': '[图片加载失败]',
+  'report.duration': '时长',
+  'report.shotSize': '景别',
+  'report.cameraMovement': '运镜',
+  'report.cinematographyNotes': '景别/运镜备注',
+  'report.confidence': '{movement}（置信度 {percent}%）',
+  'report.visualDescription': '画面内容',
+  'report.lightingAndColor': '光影色彩',
+  'report.palette': '主色板',
+  'report.sound': '声音氛围',
+  'report.measuredAudio': '实测音频',
+  'report.dialogue': '对白',
+  'report.prompt': 'AI 提示词 (Prompt):',
+  'report.fileName': '欢玺AI_拉片报告_{date}.docx',
+};
@@ -0,0 +1,120 @@
+import { AiProviderId, AiSettings, AiTask, GeminiAuthScheme, SceneDescription, ShotAnalysis } from "../types";
+import { AnalysisLanguage, LocalizedError } from "./i18n";
+import { RequestPriority } from "./requestQueue";
+import { AiProvider, ANALYSIS_PROMPT_VERSION, CritiqueResult, ShotAnalysisRequest } from "./aiProvider";
+import { geminiProvider } from "./gemini";
+import { openAiCompatibleProvider } from "./openaiCompatible";
+import { mockProvider } from "./mockProvider";
+
+// Routes each AI task to the provider chosen for it in the settings, and keeps those settings.
+
+const STORAGE_KEY = 'huanxi_ai_settings';
+// Where the Gemini key and proxy were kept before providers could be chosen
+const LEGACY_KEY_STORAGE_KEY = 'huanxi_api_key';
+const LEGACY_BASE_URL_STORAGE_KEY = 'huanxi_base_url';
+
+const PROVIDERS: Record<AiProviderId, AiProvider> = {
+  gemini: geminiProvider,
+  openai: openAiCompatibleProvider,
+  mock: mockProvider,
+};
+
+export const AI_PROVIDER_IDS = Object.keys(PROVIDERS) as AiProviderId[];
+
+export const AI_TASKS: AiTask[] = ['analysis', 'writing', 'image'];
+
+export const DEFAULT_AI_SETTINGS: AiSettings = {
+  tasks: { analysis: 'gemini', writing: 'gemini', image: 'gemini' },
+  gemini: { apiKey: '', baseUrl: '', authScheme: 'apiKey' },
+  openai: { apiKey: '', baseUrl: '', chatModel: 'gpt-4o', imageModel: 'gpt-image-1' },
+};
+
+// Settings saved before the scheme was a choice: proxies were sent OpenAI-style keys as bearer tokens
+const inferAuthScheme = (apiKey: string): GeminiAuthScheme => apiKey.startsWith('sk-') ? 'bearer' : 'apiKey';
+
+// A build-time key stands in for a Gemini key the user has not entered
+const withEnvironmentKey = (settings: AiSettings): AiSettings => {
+  return settings.gemini.apiKey || !process.env.API_KEY
+    ? settings
+    : { ...settings, gemini: { ...settings.gemini, apiKey: process.env.API_KEY } };
+};
+
+/**
+ * Stored AI settings, carrying over a Gemini key and proxy saved by earlier versions.
+ */
+export const loadAiSettings = (): AiSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+    if (stored && typeof stored === 'object') {
+      return withEnvironmentKey({
+        tasks: { ...DEFAULT_AI_SETTINGS.tasks, ...stored.tasks },
+        gemini: { ...DEFAULT_AI_SETTINGS.gemini, authScheme: inferAuthScheme(stored.gemini?.apiKey ?? ''), ...stored.gemini },
+        openai: { ...DEFAULT_AI_SETTINGS.openai, ...stored.openai },
+      });
+    }
+  } catch {
+    // Unreadable settings fall through to the defaults
+  }
+  return withEnvironmentKey({
+    ...DEFAULT_AI_SETTINGS,
+    gemini: {
+      apiKey: localStorage.getItem(LEGACY_KEY_STORAGE_KEY) || '',
+      baseUrl: localStorage.getItem(LEGACY_BASE_URL_STORAGE_KEY) || '',
+      authScheme: inferAuthScheme(localStorage.getItem(LEGACY_KEY_STORAGE_KEY) || ''),
+    },
+  });
+};
+
+export const saveAiSettings = (settings: AiSettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  localStorage.removeItem(LEGACY_KEY_STORAGE_KEY);
+  localStorage.removeItem(LEGACY_BASE_URL_STORAGE_KEY);
+};
+
+export const hasStoredAiSettings = () => [STORAGE_KEY, LEGACY_KEY_STORAGE_KEY, LEGACY_BASE_URL_STORAGE_KEY].some(key => localStorage.getItem(key));
+
+/**
+ * Forgets the stored settings and returns the defaults.
+ */
+export const clearAiSettings = (): AiSettings => {
+  [STORAGE_KEY, LEGACY_KEY_STORAGE_KEY, LEGACY_BASE_URL_STORAGE_KEY].forEach(key => localStorage.removeItem(key));
+  return withEnvironmentKey(DEFAULT_AI_SETTINGS);
+};
+
+/**
+ * Whether the provider chosen for `task` has what it needs to run.
+ */
+export const isTaskReady = (settings: AiSettings, task: AiTask): boolean => {
+  return PROVIDERS[settings.tasks[task]].isConfigured(settings, task);
+};
+
+const providerFor = (settings: AiSettings, task: AiTask): AiProvider => {
+  const provider = PROVIDERS[settings.tasks[task]];
+  if (!provider.isConfigured(settings, task)) {
+    throw new LocalizedError('error.providerNotConfigured');
+  }
+  return provider;
+};
+
+/**
+ * Model and prompt version analyses are made with, part of the analysis cache key.
+ */
+export const describeAnalysisVersion = (settings: AiSettings): string => {
+  return `${PROVIDERS[settings.tasks.analysis].analysisModel(settings)}/prompt-v${ANALYSIS_PROMPT_VERSION}`;
+};
+
+export const requestShotAnalysis = (settings: AiSettings, request: ShotAnalysisRequest, signal?: AbortSignal): Promise<ShotAnalysis> => {
+  return providerFor(settings, 'analysis').analyzeShot(settings, request, signal);
+};
+
+export const requestFilmCritique = (settings: AiSettings, digest: string, language: AnalysisLanguage): Promise<CritiqueResult> => {
+  return providerFor(settings, 'writing').critiqueFilm(settings, digest, language);
+};
+
+export const requestSceneDescription = (settings: AiSettings, digest: string, frames: string[], language: AnalysisLanguage, priority: RequestPriority): Promise<SceneDescription> => {
+  return providerFor(settings, 'writing').describeScene(settings, digest, frames, language, priority);
+};
+
+export const requestImage = (settings: AiSettings, prompt: string): Promise<string> => {
+  return providerFor(settings, 'image').generateImage(settings, prompt);
+};
@@ -0,0 +1,210 @@
+import { AiProviderId, AiSettings, AiTask, AnalysisContext, AnalysisTemplate, FilmCritique, Keyframe, SceneDescription, ShotAnalysis } from "../types";
+import { describeAudioFeatures } from "./audio";
+import { formatDialogue } from "./subtitles";
+import { describeTemplateFields, getAnalysisProperties, readCustomFields, STANDARD_ANALYSIS_FIELDS } from "./templates";
+import { describeCameraMovementsForPrompt, describeShotSizesForPrompt, normalizeAnalysis } from "./vocabulary";
+import { AnalysisLanguage, LocalizedError } from "./i18n";
+import { RequestPriority } from "./requestQueue";
+
+// What every AI backend implements, plus the prompts and answer parsing they share. Providers
+// differ only in transport and in how strictly they can enforce the JSON shape, so the
+// wording sent to the model is the same whichever one a task is routed to.
+
+// Bump when the analysis prompt or schema changes, so cached analyses made with the old one are not reused
+export const ANALYSIS_PROMPT_VERSION = 1;
+
+export type CritiqueResult = Pick<FilmCritique, 'visualStyle' | 'colorArc' | 'pacing' | 'overall'>;
+
+export interface ShotAnalysisRequest {
+  keyframes: Keyframe[]; // Start / middle / end, in time order
+  context: AnalysisContext;
+  template?: AnalysisTemplate;
+  language: AnalysisLanguage;
+  priority?: RequestPriority; // Batch analyses run in the background unless a click started them
+}
+
+// Critiques and images are asked for by a click, so they are scheduled with 'user' priority
+// ahead of queued analyses on the same model. Scene headings take the caller's priority:
+// describing every detected scene at once is batch work.
+export interface AiProvider {
+  id: AiProviderId;
+  /** Whether `settings` hold what this provider needs to run `task`. */
+  isConfigured: (settings: AiSettings, task: AiTask) => boolean;
+  /** Model answering analysis requests, so cached analyses are kept apart per model. */
+  analysisModel: (settings: AiSettings) => string;
+  /** Aborting `signal` cancels the request whether it is queued, waiting to retry or in flight. */
+  analyzeShot: (settings: AiSettings, request: ShotAnalysisRequest, signal?: AbortSignal) => Promise<ShotAnalysis>;
+  critiqueFilm: (settings: AiSettings, digest: string, language: AnalysisLanguage) => Promise<CritiqueResult>;
+  describeScene: (settings: AiSettings, digest: string, frames: string[], language: AnalysisLanguage, priority: RequestPriority) => Promise<SceneDescription>;
+  /** Resolves to a data URL. */
+  generateImage: (settings: AiSettings, prompt: string) => Promise<string>;
+}
+
+const formatFrameTime = (seconds: number) => {
+    const m = Math.floor(seconds / 60);
+    const s = (seconds % 60).toFixed(1);
+    return `${m.toString().padStart(2, '0')}:${s.padStart(4, '0')}`;
+};
+
+const KEYFRAME_LABELS = ['起始帧', '中间帧', '结束帧'];
+
+// How descriptive fields should be written
+const OUTPUT_LANGUAGE_INSTRUCTIONS: Record<AnalysisLanguage, string> = {
+    zh: '所有描述性文字请使用中文',
+    en: '所有描述性文字请使用英文 (write every descriptive field in English)',
+    bilingual: '所有描述性文字先写中文，再另起一行写对应的英文翻译',
+};
+
+/**
+ * The text placed before each keyframe, so the model can relate changes between them to time.
+ */
+export const labelKeyframes = (keyframes: Keyframe[]): string[] => {
+  return keyframes.map((frame, index) =>
+    `${keyframes.length === 1 ? '画面' : (KEYFRAME_LABELS[index] || `帧 ${index + 1}`)} (${formatFrameTime(frame.time)})：`
+  );
+};
+
+/**
+ * The base64 payload of an image data URL.
+ */
+export const stripDataUrl = (image: string) => image.replace(/^data:image\/(png|jpeg|jpg|webp);base64,/, "");
+
+/**
+ * Instructions following the labelled keyframes of a shot analysis request: the standard fields
+ * the template keeps, and its extra fields under `custom`.
+ */
+export const buildAnalysisPrompt = ({ keyframes, context, template, language }: ShotAnalysisRequest): string => {
+  const isSingleFrame = keyframes.length === 1;
+
+  const movementInstruction = isSingleFrame
+    ? '本镜头只有一张画面，请根据构图推测最可能的运镜方式，并给出较低的置信度'
+    : '对比各关键帧之间画面主体、背景透视与取景范围的变化，判断实际发生的运镜 (背景水平移动=pan 或 truck，透视变化=dolly，取景缩放但透视不变=zoom，轻微不规则晃动=handheld，平稳的跟随运动=steadicam)';
+
+  // Measured soundtrack facts replace guessing the sound from a silent image
+  const audioContext = context.audio
+    ? `本镜头的音轨已在本地实测：${describeAudioFeatures(context.audio)} (语音特征 ${context.audio.speechScore}，音乐特征 ${context.audio.musicScore})。`
+    : '';
+  const soundInstruction = context.audio
+    ? '结合上面的实测音频数据描述本镜头实际的声音构成与氛围 (响度、对白/音乐/环境声、节奏)，不要与实测数据矛盾'
+    : '建议的音乐与音效氛围 (如：紧张的弦乐、嘈杂的街道环境音、寂静无声、轻快的钢琴曲等)';
+  // Imported subtitles tell the model what is being said during the shot
+  const dialogueContext = context.dialogue && context.dialogue.length > 0
+    ? `本镜头期间的对白字幕如下，可结合对白理解人物关系与情节，但画面描述仍以画面为准：\n${formatDialogue(context.dialogue)}`
+    : '';
+
+  // Only the standard fields the template keeps are asked for, numbered in order
+  const properties = getAnalysisProperties(template);
+  const fieldInstructions: [keyof ShotAnalysis, string][] = [
+    ['visualDescription', `画面内容描述 (客观描述画面中的人物、动作、环境${isSingleFrame ? '' : '，以及镜头内的变化'})。`],
+    ['shotSize', `景别，必须是以下代码之一：${describeShotSizesForPrompt()}。若镜头内景别变化，取起始景别。`],
+    ['cameraMovement', `镜头运动，必须是以下代码之一：${describeCameraMovementsForPrompt()}。复合运镜取最主要的一种。${movementInstruction}。`],
+    ['cameraMovementConfidence', '对 cameraMovement 判断的置信度，0 到 1 之间的小数。'],
+    ['cinematographyNotes', '代码无法表达的景别与运镜细节 (如：由特写拉至全景、向左摇并缓慢推进、低角度仰拍)，没有则留空。'],
+    ['lightingAndColor', '光影与色彩分析 (如：侧逆光、高对比度、赛博朋克霓虹色调、低饱和度冷调等)。'],
+    ['soundAtmosphere', `${soundInstruction}。`],
+    ['aiPrompt', `一个用于 Midjourney 或 Gemini Image Model 的**高质量英文提示词**。
+       - 格式要求：[Subject Description], [Environment], [Lighting & Color], [Camera Angle/Shot Size], [Style/Aesthetics].
+       - 必须包含美学关键词：cinematic lighting, photorealistic, 8k, highly detailed, film grain, shot on 35mm lens, masterpiece.
+       - 目标是生成一张在构图、光影和质感上都极度接近原图的电影感画面。`],
+  ];
+  const instructions = fieldInstructions
+    .filter(([property]) => properties.includes(property))
+    .map(([property, text], index) => `${index + 1}. ${property}: ${text}`);
+  const templateFields = template?.fields ?? [];
+  if (templateFields.length > 0) {
+    instructions.push(`${instructions.length + 1}. custom: 「${template!.name}」模板的附加分析项，放在 custom 对象中 (选项类字段必须原样使用给定的选项)：\n${describeTemplateFields(templateFields)}`);
+  }
+
+  return `
+    作为一名资深的电影摄影师和拉片专家，请深入分析这个电影镜头。
+    ${isSingleFrame ? '' : `上面按时间顺序给出了同一镜头的 ${keyframes.length} 张关键帧。`}
+    ${audioContext}
+    ${dialogueContext}
+    请提供以下 JSON 格式的输出 (${OUTPUT_LANGUAGE_INSTRUCTIONS[language]}${properties.includes('aiPrompt') ? '；aiPrompt 是给生图模型的，只使用英文' : ''})：
+
+    ${instructions.join('\n    ')}
+  `;
+};
+
+/**
+ * Asks for the whole-film critique from a digest of the breakdown, see describeFilmForCritique.
+ */
+export const buildCritiquePrompt = (digest: string, language: AnalysisLanguage): string => `
+    作为一名资深的电影评论家和剪辑指导，请根据下面这部影片的拉片数据，对整部影片做一次整体评析。
+    数据包括本地实测的镜头长度与剪切节奏统计，以及逐镜头的景别、运镜、光影色彩和画面摘要。
+    请提供以下 JSON 格式的输出 (${OUTPUT_LANGUAGE_INSTRUCTIONS[language]})：
+
+    1. visualStyle: 视觉风格 (构图习惯、景别与运镜的偏好、整体美学取向)。
+    2. colorArc: 色彩弧线 (色调与明暗随影片推进的变化，以及它与情节情绪的关系)。
+    3. pacing: 节奏与剪辑 (镜头长度、剪切频率的起伏，快慢段落的分布与作用)。
+    4. overall: 总评 (一段概括性的评价，指出最值得学习的手法)。
+
+    每一项都要引用具体的数据或镜头编号作为依据，不要泛泛而谈。
+
+    拉片数据：
+    ${digest}
+  `;
+
+/**
+ * Asks for a scene's slugline and synopsis; the scene's frames go before this text.
+ */
+export const buildScenePrompt = (digest: string, frameCount: number, language: AnalysisLanguage): string => `
+    作为一名资深的场记和剧本分析师，请根据上面 ${frameCount} 张取自同一场戏的画面，以及下面按时间顺序列出的该场戏各镜头摘要，为这场戏写一个剧本式的场景标题和梗概。
+    请提供以下 JSON 格式的输出 (${OUTPUT_LANGUAGE_INSTRUCTIONS[language]}；setting 只能使用给定的英文选项)：
+
+    1. setting: 内景还是外景，只能是 INT、EXT 或 INT/EXT。
+    2. location: 场景地点，简短具体 (如：咖啡馆、高速公路、主角公寓客厅)。
+    3. timeOfDay: 时间 (如：日、夜、黄昏、清晨；无法判断时写最可能的一个)。
+    4. title: 用几个字概括这场戏。
+    5. synopsis: 两到三句话的梗概，说明人物、发生了什么以及这场戏在叙事上的作用。
+
+    镜头摘要：
+    ${digest}
+  `;
+
+/**
+ * Parses a JSON answer. An HTML page in its place (a proxy's error page) becomes a readable error.
+ */
+export const parseJsonResponse = (text: string | undefined | null): any => {
+  if (!text) throw new LocalizedError('error.emptyResponse');
+  try {
+    // Endpoints without a JSON mode tend to wrap the object in a code fence
+    return JSON.parse(text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, ''));
+  } catch (e) {
+    if (text.trim().startsWith("<")) {
+      const titleMatch = text.match(/<title>(.*?)<\/title>/i);
+      const title = titleMatch ? titleMatch[1] : "Unknown HTML Error (Proxy?)";
+      throw new Error(`Proxy Error: ${title}`);
+    }
+    throw new LocalizedError('error.invalidJson');
+  }
+};
+
+/**
+ * A parsed analysis answer as stored on the shot: the template's standard fields (others left
+ * blank) with its layout, template fields under `customFields`, and free-text shot size and
+ * movement mapped onto the vocabulary.
+ */
+export const readAnalysisResponse = (json: any, template?: AnalysisTemplate): ShotAnalysis => {
+  const { custom, ...answer } = json;
+  const properties = getAnalysisProperties(template);
+  const analysis = {
+    ...Object.fromEntries(STANDARD_ANALYSIS_FIELDS.map(field => [field, ''])),
+    ...Object.fromEntries(Object.entries(answer).filter(([property]) => properties.includes(property as keyof ShotAnalysis))),
+  } as unknown as ShotAnalysis;
+  const customFields = readCustomFields(template?.fields ?? [], custom);
+  if (customFields.length > 0) analysis.customFields = customFields;
+  if (template?.standardFields) analysis.standardFields = template.standardFields;
+  // Backends that drop the schema's enums still get free text mapped onto the vocabulary
+  return normalizeAnalysis(analysis);
+};
+
+export const readCritiqueResponse = (json: any): CritiqueResult => {
+  const { visualStyle, colorArc, pacing, overall } = json;
+  return { visualStyle, colorArc, pacing, overall };
+};
+
+export const readSceneResponse = (json: any): SceneDescription => {
+  const { setting, location, timeOfDay, title, synopsis } = json;
+  return { setting, location, timeOfDay, title, synopsis } as SceneDescription;
+};
@@ -0,0 +1,131 @@
+import { AnalysisContext, AnalysisTemplate, Keyframe, ShotAnalysis } from "../types";
+import { AnalysisLanguage } from "./i18n";
+
+// Local cache of shot analyses in IndexedDB, keyed by a hash of everything the request is
+// made of: frame bytes, measured audio, dialogue, template, output language and the model /
+// prompt version. Frame times are left out, so the same frames at other times, e.g. in a
+// re-encode with a different lead-in, still reuse what was paid for.
+
+const DB_NAME = 'huanxi-lapian-cache';
+const DB_VERSION = 1;
+const CACHE_STORE = 'analyses';
+
+export interface CachedAnalysis {
+  key: string;
+  analysis: ShotAnalysis;
+  createdAt: number; // ms since epoch
+  size: number; // Approximate bytes of the stored analysis
+}
+
+export interface AnalysisCacheStats {
+  entries: number;
+  bytes: number;
+  oldest: number | null; // createdAt of the oldest entry
+}
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error("IndexedDB not available"));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(CACHE_STORE, { keyPath: 'key' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a later retry if opening failed (e.g. private mode)
+    databasePromise.catch(() => { databasePromise = null; });
+  }
+  return databasePromise;
+};
+
+const runRequest = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(CACHE_STORE, mode);
+    const request = action(transaction.objectStore(CACHE_STORE));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+/**
+ * SHA-256 (hex) of the request an analysis would be made from. `version` names the model and
+ * prompt version, see describeAnalysisVersion.
+ */
+export const createAnalysisCacheKey = async (
+  version: string,
+  keyframes: Keyframe[],
+  context: AnalysisContext,
+  template: AnalysisTemplate | undefined,
+  language: AnalysisLanguage
+): Promise<string> => {
+  const fingerprint = JSON.stringify({
+    version,
+    // The base64 payload stands in for the JPEG bytes it encodes
+    frames: keyframes.map(frame => frame.image.slice(frame.image.indexOf(',') + 1)),
+    audio: context.audio ?? null,
+    dialogue: context.dialogue ?? null,
+    template: template && (template.fields.length > 0 || template.standardFields) ? { name: template.name, standardFields: template.standardFields, fields: template.fields } : null,
+    language,
+  });
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(fingerprint));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+export const readCachedAnalysis = async (key: string): Promise<CachedAnalysis | null> => {
+  try {
+    return (await runRequest<CachedAnalysis | undefined>('readonly', store => store.get(key))) ?? null;
+  } catch (error) {
+    console.warn("Could not read analysis cache:", error);
+    return null;
+  }
+};
+
+export const writeCachedAnalysis = async (key: string, analysis: ShotAnalysis): Promise<void> => {
+  const entry: CachedAnalysis = { key, analysis, createdAt: Date.now(), size: JSON.stringify(analysis).length * 2 };
+  try {
+    await runRequest('readwrite', store => store.put(entry));
+  } catch (error) {
+    console.warn("Could not write analysis cache:", error);
+  }
+};
+
+/**
+ * Entry count and approximate size, for the cache management screen.
+ */
+export const getAnalysisCacheStats = async (): Promise<AnalysisCacheStats> => {
+  try {
+    const db = await openDatabase();
+    return await new Promise((resolve, reject) => {
+      const stats: AnalysisCacheStats = { entries: 0, bytes: 0, oldest: null };
+      const transaction = db.transaction(CACHE_STORE, 'readonly');
+      const request = transaction.objectStore(CACHE_STORE).openCursor();
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) return;
+        const entry = cursor.value as CachedAnalysis;
+        stats.entries++;
+        stats.bytes += entry.size;
+        stats.oldest = stats.oldest === null ? entry.createdAt : Math.min(stats.oldest, entry.createdAt);
+        cursor.continue();
+      };
+      transaction.oncomplete = () => resolve(stats);
+      transaction.onerror = () => reject(transaction.error);
+    });
+  } catch (error) {
+    console.warn("Could not read analysis cache:", error);
+    return { entries: 0, bytes: 0, oldest: null };
+  }
+};
+
+export const clearAnalysisCache = async (): Promise<void> => {
+  await runRequest('readwrite', store => store.clear());
+};
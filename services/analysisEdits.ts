@@ -0,0 +1,72 @@
+import { AnalysisEdits, CustomFieldValue, EditableAnalysisField, Shot, ShotAnalysis } from "../types";
+
+// Human corrections layered over the AI analysis. `shot.analysis` always holds the model's
+// output; `shot.analysisEdits` holds overrides, so re-analysis never clobbers them.
+// Template fields are corrected the same way, under "custom.<key>".
+
+export const EDITABLE_ANALYSIS_FIELDS: EditableAnalysisField[] = [
+  'shotSize',
+  'cameraMovement',
+  'cinematographyNotes',
+  'soundAtmosphere',
+  'visualDescription',
+  'lightingAndColor',
+  'aiPrompt',
+];
+
+const CUSTOM_FIELD_PREFIX = 'custom.';
+
+/**
+ * The edit key of a template field.
+ */
+export const customFieldEditKey = (key: string): EditableAnalysisField => `custom.${key}`;
+
+// A corrected template field; numbers stay numbers when the correction is one
+const applyCustomFieldEdit = (field: CustomFieldValue, edit: string | undefined): CustomFieldValue => {
+  if (edit === undefined) return field;
+  const number = Number(edit);
+  return { ...field, value: field.type === 'number' && edit.trim() && Number.isFinite(number) ? number : edit };
+};
+
+/**
+ * The analysis as it should be shown and exported: AI values with human edits applied.
+ */
+export const getEffectiveAnalysis = (shot: Pick<Shot, 'analysis' | 'analysisEdits'>): ShotAnalysis | undefined => {
+  if (!shot.analysis) return undefined;
+  const edits = Object.entries(shot.analysisEdits ?? {});
+  const standardEdits = Object.fromEntries(edits.filter(([field]) => !field.startsWith(CUSTOM_FIELD_PREFIX)));
+  const customFields = shot.analysis.customFields?.map(field =>
+    applyCustomFieldEdit(field, shot.analysisEdits?.[customFieldEditKey(field.key)])
+  );
+  return { ...shot.analysis, ...standardEdits, ...(customFields ? { customFields } : {}) };
+};
+
+/**
+ * A field's value as editable text; template fields are looked up by key.
+ */
+export const getAnalysisFieldText = (analysis: ShotAnalysis | undefined, field: EditableAnalysisField): string => {
+  if (!analysis) return '';
+  if (field.startsWith(CUSTOM_FIELD_PREFIX)) {
+    const value = analysis.customFields?.find(custom => customFieldEditKey(custom.key) === field)?.value;
+    return value === undefined ? '' : String(value);
+  }
+  return analysis[field as Exclude<EditableAnalysisField, `custom.${string}`>] ?? '';
+};
+
+export const isFieldEdited = (shot: Pick<Shot, 'analysisEdits'>, field: EditableAnalysisField): boolean => {
+  return shot.analysisEdits?.[field] !== undefined;
+};
+
+/**
+ * Sets (or with `value` null, clears) the human override for one field.
+ * An override equal to the AI value is dropped, so it doesn't show as edited.
+ */
+export const applyAnalysisEdit = (shot: Shot, field: EditableAnalysisField, value: string | null): Shot => {
+  const edits: AnalysisEdits = { ...shot.analysisEdits };
+  if (value === null || value === getAnalysisFieldText(shot.analysis, field)) {
+    delete edits[field];
+  } else {
+    edits[field] = value;
+  }
+  return { ...shot, analysisEdits: Object.keys(edits).length > 0 ? edits : undefined };
+};
@@ -0,0 +1,41 @@
+// Progress of the analysis requests started since the queue last ran empty. Jobs join the
+// running batch as they start, so shots streaming in during extraction extend it.
+
+export interface AnalysisBatch {
+  total: number; // Jobs started in this batch
+  done: number; // Jobs finished, failed or cancelled
+  startedAt: number; // ms timestamp
+  pausedMs: number; // Time spent paused, left out of the rate
+  pausedAt: number | null; // Set while paused
+}
+
+export const addBatchJob = (batch: AnalysisBatch | null, now = Date.now()): AnalysisBatch => {
+  if (!batch) return { total: 1, done: 0, startedAt: now, pausedMs: 0, pausedAt: null };
+  return { ...batch, total: batch.total + 1 };
+};
+
+/**
+ * Counts one job as finished; the batch ends (null) once every job has.
+ */
+export const completeBatchJob = (batch: AnalysisBatch | null): AnalysisBatch | null => {
+  if (!batch) return null;
+  const done = batch.done + 1;
+  return done >= batch.total ? null : { ...batch, done };
+};
+
+export const pauseBatch = (batch: AnalysisBatch | null, now = Date.now()): AnalysisBatch | null => {
+  return batch && batch.pausedAt === null ? { ...batch, pausedAt: now } : batch;
+};
+
+export const resumeBatch = (batch: AnalysisBatch | null, now = Date.now()): AnalysisBatch | null => {
+  return batch && batch.pausedAt !== null ? { ...batch, pausedMs: batch.pausedMs + now - batch.pausedAt, pausedAt: null } : batch;
+};
+
+/**
+ * Seconds until the batch is done at the rate so far, or null before the first job finishes.
+ */
+export const estimateRemainingSeconds = (batch: AnalysisBatch, now = Date.now()): number | null => {
+  if (batch.done === 0) return null;
+  const elapsed = (batch.pausedAt ?? now) - batch.startedAt - batch.pausedMs;
+  return Math.max(0, Math.round((elapsed / batch.done) * (batch.total - batch.done) / 1000));
+};
@@ -0,0 +1,428 @@
+import { createFile, Movie, MP4BoxBuffer, Sample, Track } from "mp4box";
+import { AudioFeatures, Shot } from "../types";
+import { LocalizedError, Translate, translateZh } from "./i18n";
+
+// Audio is analysed at a low rate: plenty for loudness, speech/music cues and tempo, and
+// keeps a feature-length soundtrack within a few hundred MB.
+const ANALYSIS_SAMPLE_RATE = 11025;
+
+// Analysis frame (~46ms) for level, zero-crossing and silence measurements
+const FRAME_SIZE = 512;
+// Hop (~23ms) for the onset envelope used by tempo estimation
+const ONSET_HOP = 256;
+
+const SILENCE_DB = -50;
+// Floor for reported levels (digital silence)
+const MIN_DB = -96;
+const LUFS_BLOCK_SECONDS = 0.4;
+const LUFS_ABSOLUTE_GATE = -70;
+const LUFS_RELATIVE_GATE = -10;
+
+// Bytes read from the file per mp4box append
+const CHUNK_SIZE = 4 * 1024 * 1024;
+// Appends without finding a movie header before the container counts as not MP4/MOV
+const MAX_APPENDS_BEFORE_READY = 32;
+// Encoded chunks allowed in the decoder before we wait for it to catch up
+const MAX_DECODE_QUEUE = 32;
+// Audio decoded ahead of the range so the codec has primed by its start
+const PREROLL_SECONDS = 0.2;
+// Containers mp4box can't read are decoded whole by decodeAudioData, but only up to this size
+const MAX_WHOLE_FILE_MB = 256;
+
+const MIN_TEMPO_SECONDS = 4;
+const MIN_BPM = 60;
+const MAX_BPM = 180;
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+const toDb = (meanSquare: number) => meanSquare > 0 ? 10 * Math.log10(meanSquare) : -Infinity;
+
+const meanSquare = (samples: Float32Array, from: number, to: number) => {
+  let sum = 0;
+  for (let i = from; i < to; i++) sum += samples[i] * samples[i];
+  return to > from ? sum / (to - from) : 0;
+};
+
+/**
+ * Decoded (mono, low-rate) soundtrack of the extraction range.
+ * `weighted` is the same signal through the BS.1770 K-weighting filters.
+ */
+export class AudioTrack {
+  private mono: Float32Array;
+  private weighted: Float32Array;
+  private sampleRate: number;
+  private offset: number; // Video time of the first sample, in seconds
+
+  constructor(mono: Float32Array, weighted: Float32Array, sampleRate: number, offset: number) {
+    this.mono = mono;
+    this.weighted = weighted;
+    this.sampleRate = sampleRate;
+    this.offset = offset;
+  }
+
+  /**
+   * Measures the soundtrack between `start` and `start + duration` (video time).
+   */
+  measure(start: number, duration: number): AudioFeatures {
+    const from = Math.max(0, Math.floor((start - this.offset) * this.sampleRate));
+    const to = Math.min(this.mono.length, Math.ceil((start + duration - this.offset) * this.sampleRate));
+    const segment = this.mono.subarray(from, Math.max(from, to));
+    const weighted = this.weighted.subarray(from, Math.max(from, to));
+
+    const rmsDb = toDb(meanSquare(segment, 0, segment.length));
+    const frames = this.frameStats(segment);
+    const silentFrames = frames.filter(f => f.db < SILENCE_DB).length;
+    const silenceRatio = frames.length > 0 ? silentFrames / frames.length : 1;
+    const { speechScore, musicScore } = this.classify(frames);
+
+    return {
+      rmsDb: Math.round(Math.max(MIN_DB, rmsDb) * 10) / 10,
+      loudnessLufs: this.integratedLoudness(weighted),
+      silenceRatio: Math.round(silenceRatio * 100) / 100,
+      content: silenceRatio > 0.8
+        ? 'silence'
+        : speechScore >= 0.6 && musicScore < 0.4 ? 'speech'
+        : musicScore >= 0.6 && speechScore < 0.4 ? 'music'
+        : speechScore >= 0.4 && musicScore >= 0.4 ? 'mixed'
+        : 'ambient',
+      speechScore: Math.round(speechScore * 100) / 100,
+      musicScore: Math.round(musicScore * 100) / 100,
+      tempoBpm: duration >= MIN_TEMPO_SECONDS && silenceRatio < 0.5 ? this.estimateTempo(segment) : null,
+    };
+  }
+
+  private frameStats(segment: Float32Array) {
+    const frames: { db: number; energy: number; zcr: number }[] = [];
+    for (let i = 0; i + FRAME_SIZE <= segment.length; i += FRAME_SIZE) {
+      const energy = meanSquare(segment, i, i + FRAME_SIZE);
+      let crossings = 0;
+      for (let j = i + 1; j < i + FRAME_SIZE; j++) {
+        if ((segment[j] >= 0) !== (segment[j - 1] >= 0)) crossings++;
+      }
+      frames.push({ db: toDb(energy), energy, zcr: crossings / FRAME_SIZE });
+    }
+    return frames;
+  }
+
+  /**
+   * Heuristic speech/music scores. Speech alternates syllables and pauses, so it has many
+   * low-energy frames (high LSTER) and a jumpy zero-crossing rate; music is steadier.
+   */
+  private classify(frames: { db: number; energy: number; zcr: number }[]) {
+    const audible = frames.filter(f => f.db >= SILENCE_DB);
+    if (audible.length < 10) return { speechScore: 0, musicScore: 0 };
+
+    // Low short-time energy ratio over ~1s windows
+    const window = Math.max(1, Math.round(this.sampleRate / FRAME_SIZE));
+    let lowEnergyFrames = 0;
+    for (let i = 0; i < frames.length; i++) {
+      const windowFrames = frames.slice(Math.max(0, i - window / 2), i + window / 2);
+      const average = windowFrames.reduce((sum, f) => sum + f.energy, 0) / windowFrames.length;
+      if (frames[i].energy < 0.5 * average) lowEnergyFrames++;
+    }
+    const lster = lowEnergyFrames / frames.length;
+
+    const meanZcr = audible.reduce((sum, f) => sum + f.zcr, 0) / audible.length;
+    const zcrDeviation = Math.sqrt(audible.reduce((sum, f) => sum + (f.zcr - meanZcr) ** 2, 0) / audible.length);
+
+    const speechScore = clamp01((lster - 0.1) / 0.3) * 0.6 + clamp01(zcrDeviation / 0.08) * 0.4;
+    const musicScore = clamp01(1 - lster / 0.25) * 0.7 + clamp01(1 - zcrDeviation / 0.08) * 0.3;
+    return { speechScore, musicScore };
+  }
+
+  /**
+   * Gated integrated loudness (ITU-R BS.1770). Null when the shot is (near) silent.
+   */
+  private integratedLoudness(weighted: Float32Array): number | null {
+    const blockSize = Math.round(LUFS_BLOCK_SECONDS * this.sampleRate);
+    const step = Math.max(1, Math.round(blockSize / 4));
+    const blocks: number[] = [];
+
+    if (weighted.length < blockSize) {
+      blocks.push(meanSquare(weighted, 0, weighted.length));
+    } else {
+      for (let i = 0; i + blockSize <= weighted.length; i += step) {
+        blocks.push(meanSquare(weighted, i, i + blockSize));
+      }
+    }
+
+    const loudness = (ms: number) => -0.691 + toDb(ms);
+    const aboveAbsolute = blocks.filter(ms => loudness(ms) > LUFS_ABSOLUTE_GATE);
+    if (aboveAbsolute.length === 0) return null;
+
+    const ungated = aboveAbsolute.reduce((a, b) => a + b, 0) / aboveAbsolute.length;
+    const relativeGate = loudness(ungated) + LUFS_RELATIVE_GATE;
+    const gated = aboveAbsolute.filter(ms => loudness(ms) > relativeGate);
+    const integrated = loudness(gated.reduce((a, b) => a + b, 0) / gated.length);
+    return Math.round(integrated * 10) / 10;
+  }
+
+  /**
+   * Tempo from the autocorrelation of an onset (rising energy) envelope.
+   * Returns null when no periodicity stands out.
+   */
+  private estimateTempo(segment: Float32Array): number | null {
+    const envelope: number[] = [];
+    let previous = 0;
+    for (let i = 0; i + ONSET_HOP <= segment.length; i += ONSET_HOP) {
+      const energy = Math.log10(1e-10 + meanSquare(segment, i, i + ONSET_HOP));
+      envelope.push(Math.max(0, energy - previous));
+      previous = energy;
+    }
+
+    const mean = envelope.reduce((a, b) => a + b, 0) / Math.max(1, envelope.length);
+    const centered = envelope.map(v => v - mean);
+    const framesPerSecond = this.sampleRate / ONSET_HOP;
+    const minLag = Math.floor((60 / MAX_BPM) * framesPerSecond);
+    const maxLag = Math.ceil((60 / MIN_BPM) * framesPerSecond);
+
+    const autocorrelation = (lag: number) => {
+      let sum = 0;
+      for (let i = 0; i + lag < centered.length; i++) sum += centered[i] * centered[i + lag];
+      return sum;
+    };
+
+    const zeroLag = autocorrelation(0);
+    if (zeroLag <= 0) return null;
+
+    let bestLag = 0;
+    let bestValue = 0;
+    for (let lag = minLag; lag <= maxLag && lag < centered.length; lag++) {
+      const value = autocorrelation(lag);
+      if (value > bestValue) {
+        bestValue = value;
+        bestLag = lag;
+      }
+    }
+
+    if (bestLag === 0 || bestValue / zeroLag < 0.3) return null;
+    return Math.round((60 * framesPerSecond) / bestLag);
+  }
+}
+
+// Mono samples of the range at the rate they were decoded at
+interface DecodedRange {
+  samples: Float32Array;
+  sampleRate: number;
+}
+
+/**
+ * Pulls the AAC AudioSpecificConfig out of the sample description, which AudioDecoder needs
+ * as `description`. Other codecs go without.
+ */
+const getAudioDescription = (mp4: ReturnType<typeof createFile>, track: Track): Uint8Array | undefined => {
+  const entry = mp4.getTrackById(track.id).mdia.minf.stbl.stsd.entries[0] as { esds?: { esd?: { findDescriptor: (tag: number) => any } } };
+  // DecoderConfigDescriptor (0x04) → DecoderSpecificInfo (0x05)
+  const data = entry?.esds?.esd?.findDescriptor(0x04)?.findDescriptor(0x05)?.data;
+  return data ? new Uint8Array(data) : undefined;
+};
+
+/**
+ * Streams [startTime, endTime] of an MP4/MOV's first audio track through WebCodecs, reading
+ * only the part of the file that holds it. 'noAudio' for a file without an audio track,
+ * 'unsupported' when the container or codec can't be handled this way.
+ */
+const decodeRangeWithWebCodecs = async (file: File, startTime: number, endTime: number): Promise<DecodedRange | 'noAudio' | 'unsupported'> => {
+  if (typeof AudioDecoder === 'undefined') return 'unsupported';
+
+  const mp4 = createFile();
+  let movie: Movie | null = null;
+  let parseError = false;
+  const queuedSamples: Sample[] = [];
+  mp4.onReady = (info) => { movie = info; };
+  mp4.onError = () => { parseError = true; };
+  mp4.onSamples = (_id, _user, samples) => { queuedSamples.push(...samples); };
+
+  // 1. Read until the movie header has been parsed
+  let offset = 0;
+  for (let appends = 0; !movie; appends++) {
+    if (parseError || offset >= file.size || appends >= MAX_APPENDS_BEFORE_READY) return 'unsupported';
+    const buffer = await file.slice(offset, offset + CHUNK_SIZE).arrayBuffer();
+    const next = mp4.appendBuffer(MP4BoxBuffer.fromArrayBuffer(buffer, offset));
+    offset = typeof next === 'number' ? next : offset + buffer.byteLength;
+  }
+
+  const track = (movie as Movie).audioTracks[0];
+  if (!track?.audio) return 'noAudio';
+  const sampleRate = track.audio.sample_rate;
+  const config: AudioDecoderConfig = {
+    codec: track.codec,
+    sampleRate,
+    numberOfChannels: track.audio.channel_count,
+    description: getAudioDescription(mp4, track),
+  };
+  if (!(await AudioDecoder.isConfigSupported(config)).supported) return 'unsupported';
+
+  // 2. Decode the range's samples, downmixing each chunk into place
+  const samples = new Float32Array(Math.ceil((endTime - startTime) * sampleRate));
+  let decodeError: Error | null = null;
+  const decoder = new AudioDecoder({
+    output: (data) => {
+      try {
+        const position = Math.round((data.timestamp / 1e6 - startTime) * sampleRate);
+        const plane = new Float32Array(data.numberOfFrames);
+        for (let channel = 0; channel < data.numberOfChannels; channel++) {
+          data.copyTo(plane, { planeIndex: channel, format: 'f32-planar' });
+          for (let i = Math.max(0, -position); i < plane.length && position + i < samples.length; i++) {
+            samples[position + i] += plane[i] / data.numberOfChannels;
+          }
+        }
+      } finally {
+        data.close();
+      }
+    },
+    error: (e) => { decodeError = e instanceof Error ? e : new Error(String(e)); },
+  });
+  decoder.configure(config);
+
+  const waitForDecoder = () => new Promise<void>(resolve => {
+    decoder.addEventListener('dequeue', () => resolve(), { once: true });
+  });
+
+  let reachedEnd = false;
+  const drainSamples = async () => {
+    while (queuedSamples.length > 0 && !reachedEnd && !decodeError) {
+      const sample = queuedSamples.shift()!;
+      const time = sample.cts / sample.timescale;
+      const duration = sample.duration / sample.timescale;
+      if (time >= endTime) {
+        reachedEnd = true;
+        break;
+      }
+      if (time + duration > startTime - PREROLL_SECONDS) {
+        while (decoder.decodeQueueSize > MAX_DECODE_QUEUE) await waitForDecoder();
+        decoder.decode(new EncodedAudioChunk({ type: 'key', timestamp: time * 1e6, duration: duration * 1e6, data: sample.data! }));
+      }
+      mp4.releaseUsedSamples(track.id, sample.number);
+    }
+  };
+
+  mp4.setExtractionOptions(track.id, null, { nbSamples: 100 });
+  offset = mp4.seek(Math.max(0, startTime - PREROLL_SECONDS), true).offset;
+  mp4.start();
+
+  try {
+    while (!reachedEnd && !decodeError && offset < file.size) {
+      const buffer = await file.slice(offset, offset + CHUNK_SIZE).arrayBuffer();
+      const next = mp4.appendBuffer(MP4BoxBuffer.fromArrayBuffer(buffer, offset), offset + buffer.byteLength >= file.size);
+      offset = typeof next === 'number' && next > offset ? next : offset + buffer.byteLength;
+      await drainSamples();
+    }
+    mp4.flush();
+    await drainSamples();
+    if (!decodeError) await decoder.flush();
+  } finally {
+    if (decoder.state !== 'closed') decoder.close();
+  }
+  if (decodeError) {
+    console.warn("Audio decoding failed:", decodeError);
+    throw new LocalizedError('error.audioDecode');
+  }
+
+  return { samples, sampleRate };
+};
+
+/**
+ * Fallback for containers mp4box can't read (WebM, MKV …): decodeAudioData needs the whole
+ * file in memory, so it is only tried on files up to MAX_WHOLE_FILE_MB. Null without audio.
+ */
+const decodeRangeFromWholeFile = async (file: File, startTime: number, endTime: number): Promise<DecodedRange | null> => {
+  if (file.size > MAX_WHOLE_FILE_MB * 1024 * 1024) {
+    throw new LocalizedError('error.audioFileTooLarge', { size: MAX_WHOLE_FILE_MB });
+  }
+
+  const decodeContext = new OfflineAudioContext(1, 1, ANALYSIS_SAMPLE_RATE);
+  let buffer: AudioBuffer;
+  try {
+    // decodeAudioData resamples to the context's rate
+    buffer = await decodeContext.decodeAudioData(await file.arrayBuffer());
+  } catch (error) {
+    console.warn("No decodable audio track:", error);
+    throw new LocalizedError('error.audioDecode');
+  }
+
+  const from = Math.max(0, Math.floor(startTime * ANALYSIS_SAMPLE_RATE));
+  const to = Math.min(buffer.length, Math.ceil(endTime * ANALYSIS_SAMPLE_RATE));
+  if (to <= from) return null;
+
+  // Downmix to mono
+  const samples = new Float32Array(to - from);
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel);
+    for (let i = 0; i < samples.length; i++) samples[i] += data[from + i] / buffer.numberOfChannels;
+  }
+  return { samples, sampleRate: ANALYSIS_SAMPLE_RATE };
+};
+
+// The range at the analysis rate
+const resample = async ({ samples, sampleRate }: DecodedRange): Promise<Float32Array> => {
+  if (sampleRate === ANALYSIS_SAMPLE_RATE) return samples;
+  const context = new OfflineAudioContext(1, Math.ceil(samples.length * ANALYSIS_SAMPLE_RATE / sampleRate), ANALYSIS_SAMPLE_RATE);
+  const buffer = context.createBuffer(1, samples.length, sampleRate);
+  buffer.copyToChannel(samples, 0);
+  const source = context.createBufferSource();
+  source.buffer = buffer;
+  source.connect(context.destination);
+  source.start();
+  return (await context.startRendering()).getChannelData(0);
+};
+
+/**
+ * Decodes the file's soundtrack for [startTime, endTime]. MP4/MOV files are streamed so only
+ * the range is read; other containers fall back to decoding the whole (size-capped) file.
+ * Resolves null when the file has no audio track; failures reject with a LocalizedError.
+ */
+export const decodeAudioTrack = async (file: File, startTime: number, endTime: number): Promise<AudioTrack | null> => {
+  if (typeof OfflineAudioContext === 'undefined') throw new LocalizedError('error.audioUnsupported');
+  if (endTime <= startTime) return null;
+
+  const streamed = await decodeRangeWithWebCodecs(file, startTime, endTime);
+  if (streamed === 'noAudio') return null;
+  const range = streamed === 'unsupported' ? await decodeRangeFromWholeFile(file, startTime, endTime) : streamed;
+  if (!range) return null;
+  const mono = await resample(range);
+
+  // K-weighting: high shelf (head effects) followed by a low-cut, as in BS.1770
+  const weightingContext = new OfflineAudioContext(1, mono.length, ANALYSIS_SAMPLE_RATE);
+  const monoBuffer = weightingContext.createBuffer(1, mono.length, ANALYSIS_SAMPLE_RATE);
+  monoBuffer.copyToChannel(mono, 0);
+  const source = weightingContext.createBufferSource();
+  source.buffer = monoBuffer;
+  const shelf = weightingContext.createBiquadFilter();
+  shelf.type = 'highshelf';
+  shelf.frequency.value = 1500;
+  shelf.gain.value = 4;
+  const highpass = weightingContext.createBiquadFilter();
+  highpass.type = 'highpass';
+  highpass.frequency.value = 38;
+  highpass.Q.value = 0.5;
+  source.connect(shelf).connect(highpass).connect(weightingContext.destination);
+  source.start();
+  const weighted = (await weightingContext.startRendering()).getChannelData(0);
+
+  return new AudioTrack(mono, weighted, ANALYSIS_SAMPLE_RATE, startTime);
+};
+
+/**
+ * Re-measures shots that an edit replaced or re-timed (i.e. objects not present in `before`).
+ */
+export const remeasureChangedShots = (track: AudioTrack | null, before: Shot[], after: Shot[]): Shot[] => {
+  if (!track) return after;
+  const unchanged = new Set(before);
+  return after.map(shot => unchanged.has(shot)
+    ? shot
+    : { ...shot, audioFeatures: track.measure(shot.timestamp, shot.duration) });
+};
+
+/**
+ * One-line summary of the measurements, used in exports and (in Chinese) in the prompt.
+ */
+export const describeAudioFeatures = (features: AudioFeatures, t: Translate = translateZh): string => {
+  const parts = [
+    features.loudnessLufs !== null ? `${features.loudnessLufs} LUFS` : `${features.rmsDb} dBFS`,
+    t('audio.silenceRatio', { percent: Math.round(features.silenceRatio * 100) }),
+    t(`audio.${features.content}`),
+  ];
+  if (features.tempoBpm !== null) parts.push(t('audio.tempo', { bpm: features.tempoBpm }));
+  return parts.join(' · ');
+};
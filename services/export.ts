@@ -1,6 +1,25 @@
 import { Document, Packer, Paragraph, TextRun, ImageRun, Table, TableRow, TableCell, WidthType, BorderStyle, HeadingLevel, AlignmentType } from "docx";
 import FileSaver from "file-saver";
-import { Shot } from "../types";
+import { FilmCritique, Scene, Shot, StandardAnalysisField } from "../types";
+import { describeAudioFeatures } from "./audio";
+import { formatDialogue } from "./subtitles";
+import { describePalette, renderColorScript } from "./palette";
+import { getEffectiveAnalysis, isFieldEdited } from "./analysisEdits";
+import { formatCustomFieldValue, getStandardFields, hasStandardField } from "./templates";
+import { MessageKey, Translate, translateZh } from "./i18n";
+import { computeFilmStatistics, DistributionEntry, formatDurationBucket } from "./filmSummary";
+import { formatSceneHeading, groupShotsByScene, hasScenes } from "./scenes";
+import { formatCameraMovement, formatShotSize } from "./vocabulary";
+
+// Built-in report labels of the standard fields; a template's own labels replace them
+const REPORT_FIELD_LABELS: Record<StandardAnalysisField, MessageKey> = {
+  visualDescription: 'report.visualDescription',
+  shotSize: 'report.shotSize',
+  cameraMovement: 'report.cameraMovement',
+  lightingAndColor: 'report.lightingAndColor',
+  soundAtmosphere: 'report.sound',
+  aiPrompt: 'report.prompt',
+};
 
 // Helper to convert base64 to Uint8Array for docx
 const base64ToUint8Array = (base64: string): Uint8Array => {
@@ -13,30 +32,136 @@ const base64ToUint8Array = (base64: string): Uint8Array => {
   return bytes;
 };
 
-export const exportToWord = async (shots: Shot[]) => {
+/**
+ * Opening chapter of the report: measured pacing statistics and, when written, the film critique.
+ */
+const createSummaryChapter = (shots: Shot[], critique: FilmCritique | null, t: Translate): Paragraph[] => {
+  const stats = computeFilmStatistics(shots);
+  const seconds = (value: number) => t('common.seconds', { value: value.toFixed(1) });
+  const describeDistribution = (entries: DistributionEntry[], format: (value: string, t: Translate) => string) => entries
+    .map(e => t('summary.distributionEntry', { label: format(e.label, t), count: e.count, percent: Math.round((e.count / stats.analyzedCount) * 100) }))
+    .join(t('report.listSeparator'));
+
+  const infoRow = (label: string, value: string) => new Paragraph({
+    children: [
+      new TextRun({ text: `${label}: `, bold: true }),
+      new TextRun({ text: value }),
+    ],
+    spacing: { after: 100 },
+  });
+
+  const rows = [
+    new Paragraph({ text: t('report.summary'), heading: HeadingLevel.HEADING_1, spacing: { after: 200 } }),
+    infoRow(t('summary.shotCount'), String(stats.shotCount)),
+    infoRow(t('summary.totalDuration'), formatTime(stats.totalDuration)),
+    infoRow(t('summary.averageShotLength'), seconds(stats.averageShotLength)),
+    infoRow(t('summary.medianShotLength'), `${seconds(stats.medianShotLength)} (${t('summary.shotRange', { shortest: stats.shortestShot.toFixed(1), longest: stats.longestShot.toFixed(1) })})`),
+    infoRow(t('summary.cutsPerMinute'), stats.cutsPerMinute.toFixed(1)),
+    infoRow(t('summary.durationHistogram'), stats.durationHistogram
+      .map((count, index) => `${formatDurationBucket(index)} ${count}`)
+      .join(t('report.listSeparator'))),
+    infoRow(t('summary.rhythm'), stats.rhythm
+      .map(w => `${formatTime(w.start)} ${w.cutsPerMinute.toFixed(1)}`)
+      .join(t('report.listSeparator'))),
+  ];
+  if (stats.analyzedCount > 0) {
+    rows.push(infoRow(t('summary.shotSizes'), describeDistribution(stats.shotSizes, formatShotSize)));
+    rows.push(infoRow(t('summary.cameraMovements'), describeDistribution(stats.cameraMovements, formatCameraMovement)));
+  }
+
+  if (critique) {
+    rows.push(new Paragraph({ text: t('report.critique'), heading: HeadingLevel.HEADING_2, spacing: { before: 300, after: 200 } }));
+    [
+      [t('summary.visualStyle'), critique.visualStyle],
+      [t('summary.colorArc'), critique.colorArc],
+      [t('summary.pacing'), critique.pacing],
+      [t('summary.overall'), critique.overall],
+    ].forEach(([label, text]) => {
+      rows.push(new Paragraph({ children: [new TextRun({ text: label, bold: true })], spacing: { before: 100, after: 50 } }));
+      rows.push(new Paragraph({ text, spacing: { after: 150 } }));
+    });
+  }
+
+  rows.push(new Paragraph({ text: "", spacing: { after: 200 } }));
+  return rows;
+};
+
+/**
+ * Heading (and synopsis, when written) for each scene, keyed by the id of its first shot.
+ */
+const createSceneHeadings = (shots: Shot[], scenes: Scene[], t: Translate): Map<string, Paragraph[]> => {
+  const headings = new Map<string, Paragraph[]>();
+  if (!hasScenes(shots)) return headings;
+
+  let number = 0;
+  groupShotsByScene(shots).forEach(group => {
+    const description = scenes.find(scene => scene.id === group.sceneId)?.description;
+    if (group.sceneId !== undefined) number++;
+    const text = group.sceneId === undefined
+      ? t('scenes.unassigned')
+      : description
+        ? t('report.sceneHeading', { index: number, heading: formatSceneHeading(description) })
+        : t('report.sceneNumber', { index: number });
+
+    const paragraphs = [new Paragraph({ text, heading: HeadingLevel.HEADING_1, spacing: { before: 600, after: 200 } })];
+    if (description) {
+      paragraphs.push(
+        new Paragraph({ children: [new TextRun({ text: description.title, bold: true })], spacing: { after: 100 } }),
+        new Paragraph({ text: description.synopsis, spacing: { after: 200 } }),
+      );
+    }
+    headings.set(group.shots[0].id, paragraphs);
+  });
+  return headings;
+};
+
+export const exportToWord = async (shots: Shot[], t: Translate = translateZh, critique: FilmCritique | null = null, scenes: Scene[] = []) => {
   if (shots.length === 0) return;
 
+  const sceneHeadings = createSceneHeadings(shots, scenes, t);
+
+  // Colour script strip: 600 x 60 on the page, rendered at twice that for sharpness
+  const colorScript = renderColorScript(shots, 1200, 120);
+
   const doc = new Document({
     sections: [
       {
         properties: {},
         children: [
           new Paragraph({
-            text: "欢玺AI - 智能拉片报告",
+            text: t('report.title'),
             heading: HeadingLevel.TITLE,
             alignment: AlignmentType.CENTER,
             spacing: { after: 400 },
           }),
+
+          ...createSummaryChapter(shots, critique, t),
+
+          ...(colorScript ? [
+            new Paragraph({
+              children: [new TextRun({ text: t('report.colorScript'), bold: true })],
+              spacing: { after: 100 },
+            }),
+            new Paragraph({
+              children: [
+                new ImageRun({
+                  data: base64ToUint8Array(colorScript),
+                  transformation: { width: 600, height: 60 },
+                }),
+              ],
+              spacing: { after: 400 },
+            }),
+          ] : []),
           
           ...shots.flatMap((shot, index) => {
-            const shotRows = [];
+            const shotRows = [...(sceneHeadings.get(shot.id) ?? [])];
 
             // Title for the shot
             shotRows.push(
               new Paragraph({
                 children: [
                     new TextRun({
-                        text: `镜头 ${index + 1} (时间点: ${formatTime(shot.timestamp)})`,
+                        text: t('report.shotHeading', { index: index + 1, time: formatTime(shot.timestamp) }),
                         bold: true,
                         size: 28,
                     })
@@ -46,12 +171,13 @@ export const exportToWord = async (shots: Shot[]) => {
               })
             );
 
-            // Analysis Content
-            if (shot.analysis) {
+            // Analysis Content (with human corrections applied)
+            const analysis = getEffectiveAnalysis(shot);
+            if (analysis) {
                 // Determine image to show (Original)
                 // Note: Adding images increases file size significantly. 
                 // We constrain width to 300px (approx) to keep it manageable.
-                let imageParagraph = new Paragraph({ text: "[图片加载失败]" });
+                let imageParagraph = new Paragraph({ text: t('report.imageFailed') });
                 try {
                     const imageBytes = base64ToUint8Array(shot.originalImage);
                     imageParagraph = new Paragraph({
@@ -85,38 +211,69 @@ export const exportToWord = async (shots: Shot[]) => {
                 };
 
                 shotRows.push(new Paragraph({ text: "", spacing: { after: 100 } })); // Spacer
-                shotRows.push(createInfoRow("时长", `${shot.duration} 秒`));
-                shotRows.push(createInfoRow("景别", shot.analysis.shotSize));
-                shotRows.push(createInfoRow("运镜", shot.analysis.cameraMovement));
-                shotRows.push(createInfoRow("画面内容", shot.analysis.visualDescription));
-                shotRows.push(createInfoRow("光影色彩", shot.analysis.lightingAndColor));
-                shotRows.push(createInfoRow("声音氛围", shot.analysis.soundAtmosphere));
+                shotRows.push(createInfoRow(t('report.duration'), t('common.seconds', { value: shot.duration })));
+                // The standard fields of the shot's template, under its labels
+                const standardFields = getStandardFields(analysis);
+                const notesFollow: StandardAnalysisField = hasStandardField(analysis, 'cameraMovement') ? 'cameraMovement' : 'shotSize';
+                standardFields.filter(({ field }) => field !== 'aiPrompt').forEach(setting => {
+                    const label = setting.label || t(REPORT_FIELD_LABELS[setting.field]);
+                    if (setting.field === 'shotSize') {
+                        shotRows.push(createInfoRow(label, formatShotSize(analysis.shotSize, t)));
+                    } else if (setting.field === 'cameraMovement') {
+                        // The model's confidence no longer applies once a person corrected the movement
+                        const confidence = isFieldEdited(shot, 'cameraMovement') ? undefined : analysis.cameraMovementConfidence;
+                        const movement = formatCameraMovement(analysis.cameraMovement, t);
+                        shotRows.push(createInfoRow(label, confidence !== undefined
+                            ? t('report.confidence', { movement, percent: Math.round(confidence * 100) })
+                            : movement));
+                    } else {
+                        shotRows.push(createInfoRow(label, analysis[setting.field]));
+                    }
+                    if (setting.field === notesFollow && analysis.cinematographyNotes) {
+                        shotRows.push(createInfoRow(t('report.cinematographyNotes'), analysis.cinematographyNotes));
+                    }
+                });
+                if (shot.palette) {
+                    shotRows.push(createInfoRow(t('report.palette'), describePalette(shot.palette, t)));
+                }
+                if (shot.audioFeatures) {
+                    shotRows.push(createInfoRow(t('report.measuredAudio'), describeAudioFeatures(shot.audioFeatures, t)));
+                }
+                if (shot.dialogue && shot.dialogue.length > 0) {
+                    shotRows.push(createInfoRow(t('report.dialogue'), formatDialogue(shot.dialogue).replace(/\n/g, " / ")));
+                }
+                analysis.customFields?.forEach(field => {
+                    shotRows.push(createInfoRow(field.label, formatCustomFieldValue(field)));
+                });
                 
                 // Prompt Box
-                shotRows.push(
-                    new Paragraph({
-                        children: [
-                            new TextRun({ text: "AI 提示词 (Prompt):", bold: true, color: "5b21b6" }),
-                        ],
-                        spacing: { before: 200, after: 100 },
-                    })
-                );
-                
-                shotRows.push(
-                    new Paragraph({
-                        children: [
-                            new TextRun({ 
-                                text: shot.analysis.aiPrompt, 
-                                font: "Courier New",
-                                size: 20 
-                            }),
-                        ],
-                        border: {
-                            left: { color: "cccccc", space: 10, style: BorderStyle.SINGLE, size: 6 },
-                        },
-                        spacing: { after: 400 },
-                    })
-                );
+                const promptField = standardFields.find(({ field }) => field === 'aiPrompt');
+                if (promptField) {
+                    shotRows.push(
+                        new Paragraph({
+                            children: [
+                                new TextRun({ text: promptField.label || t(REPORT_FIELD_LABELS.aiPrompt), bold: true, color: "5b21b6" }),
+                            ],
+                            spacing: { before: 200, after: 100 },
+                        })
+                    );
+
+                    shotRows.push(
+                        new Paragraph({
+                            children: [
+                                new TextRun({ 
+                                    text: analysis.aiPrompt, 
+                                    font: "Courier New",
+                                    size: 20 
+                                }),
+                            ],
+                            border: {
+                                left: { color: "cccccc", space: 10, style: BorderStyle.SINGLE, size: 6 },
+                            },
+                            spacing: { after: 400 },
+                        })
+                    );
+                }
             }
 
             // Divider
@@ -136,7 +293,7 @@ export const exportToWord = async (shots: Shot[]) => {
   });
 
   const blob = await Packer.toBlob(doc);
-  FileSaver.saveAs(blob, `欢玺AI_拉片报告_${new Date().toISOString().slice(0, 10)}.docx`);
+  FileSaver.saveAs(blob, t('report.fileName', { date: new Date().toISOString().slice(0, 10) }));
 };
 
 const formatTime = (seconds: number) => {
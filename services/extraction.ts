@@ -0,0 +1,292 @@
+import { ExtractedShot, ExtractionSettings, Keyframe } from "../types";
+import { computeHistogram, histogramDistance, probeFrame, ShotCollector, DEFAULT_CUT_THRESHOLD, DEFAULT_DEDUPE_THRESHOLD, PROBE_WIDTH, PROBE_HEIGHT } from "./sceneDetection";
+import { blobToDataUrl } from "./image";
+import { LocalizedError } from "./i18n";
+import type { ExtractionWorkerMessage, ExtractionWorkerRequest } from "./extraction.worker";
+
+// Sampling density defaults: cut detection needs dense probes, fixed sampling does not.
+export const SCENE_SAMPLE_INTERVAL = 0.5;
+export const FIXED_SAMPLE_INTERVAL = 3;
+
+export const RESOLUTION_OPTIONS = [360, 540, 720, 1080];
+
+/**
+ * Default settings for a freshly loaded video covering its full length.
+ */
+export const createDefaultSettings = (videoDuration: number): ExtractionSettings => ({
+  startTime: 0,
+  endTime: Math.floor(videoDuration * 10) / 10,
+  detectScenes: true,
+  cutThreshold: DEFAULT_CUT_THRESHOLD,
+  dedupeFrames: true,
+  dedupeThreshold: DEFAULT_DEDUPE_THRESHOLD,
+  samplingMode: 'interval',
+  sampleInterval: SCENE_SAMPLE_INTERVAL,
+  targetFrameCount: 60,
+  maxHeight: 540,
+  jpegQuality: 0.8,
+  maxFrames: 200,
+});
+
+/**
+ * Seconds between two consecutive samples for the given settings.
+ */
+export const getSampleStep = (settings: ExtractionSettings): number => {
+  const range = Math.max(0, settings.endTime - settings.startTime);
+  if (settings.samplingMode === 'count') {
+    return Math.max(0.1, range / Math.max(1, settings.targetFrameCount));
+  }
+  return Math.max(0.1, settings.sampleInterval);
+};
+
+/**
+ * Upper bound on the analysis requests a run will make.
+ * With cut detection the real number is usually much lower.
+ */
+export const estimateAnalysisCalls = (settings: ExtractionSettings): number => {
+  const range = Math.max(0, settings.endTime - settings.startTime);
+  const samples = Math.ceil(range / getSampleStep(settings));
+  return Math.min(samples, settings.maxFrames);
+};
+
+export interface ExtractionHandlers {
+  onShot: (shot: ExtractedShot) => void;
+  onProgress: (progress: number) => void;
+  signal: AbortSignal;
+}
+
+// Containers the worker's mp4box demuxer understands
+const WORKER_CONTAINER_PATTERN = /\.(mp4|m4v|mov)$/i;
+
+const canUseWorker = (file: File) => {
+  return typeof Worker !== 'undefined'
+    && typeof VideoDecoder !== 'undefined'
+    && typeof OffscreenCanvas !== 'undefined'
+    && (WORKER_CONTAINER_PATTERN.test(file.name) || file.type === 'video/mp4' || file.type === 'video/quicktime');
+};
+
+/**
+ * WebCodecs pipeline. Resolves 'unsupported' (before any shot was emitted) when the
+ * file or browser can't be handled there, so the caller can fall back.
+ */
+const extractInWorker = (file: File, settings: ExtractionSettings, handlers: ExtractionHandlers): Promise<'done' | 'unsupported'> => {
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('./extraction.worker.ts', import.meta.url), { type: 'module' });
+
+    const cleanup = () => {
+      worker.terminate();
+      handlers.signal.removeEventListener('abort', onAbort);
+    };
+    const onAbort = () => {
+      cleanup();
+      resolve('done');
+    };
+    handlers.signal.addEventListener('abort', onAbort);
+    // Falling back after shots were emitted would emit them again
+    let emittedShots = 0;
+
+    worker.onmessage = (event: MessageEvent<ExtractionWorkerMessage>) => {
+      const message = event.data;
+      switch (message.type) {
+        case 'shot':
+          emittedShots++;
+          handlers.onShot(message.shot);
+          break;
+        case 'progress':
+          handlers.onProgress(message.progress);
+          break;
+        case 'done':
+          cleanup();
+          resolve('done');
+          break;
+        case 'unsupported':
+          console.warn(`WebCodecs extraction unavailable (${message.reason}), falling back to seeking.`);
+          cleanup();
+          resolve('unsupported');
+          break;
+        case 'error':
+          cleanup();
+          reject(new Error(message.message));
+          break;
+      }
+    };
+    worker.onerror = (event) => {
+      cleanup();
+      if (emittedShots > 0) {
+        reject(event.message ? new Error(event.message) : new LocalizedError('error.extractionWorker'));
+        return;
+      }
+      // Worker failed to load at all (e.g. module workers unsupported)
+      console.warn("Extraction worker failed to start:", event.message);
+      resolve('unsupported');
+    };
+
+    if (handlers.signal.aborted) {
+      onAbort();
+      return;
+    }
+    const request: ExtractionWorkerRequest = { type: 'start', file, settings, sampleStep: getSampleStep(settings) };
+    worker.postMessage(request);
+  });
+};
+
+const loadVideoElement = (video: HTMLVideoElement, videoUrl: string) => {
+  video.src = videoUrl;
+  video.muted = true;
+  video.playsInline = true;
+
+  return new Promise<void>((resolve, reject) => {
+    video.onloadedmetadata = () => resolve();
+    video.onerror = () => reject(new LocalizedError('error.readVideo'));
+  });
+};
+
+const seekVideo = (video: HTMLVideoElement, time: number) => {
+  return new Promise<void>((resolve) => {
+    const onSeeked = () => {
+      video.removeEventListener('seeked', onSeeked);
+      resolve();
+    };
+    video.addEventListener('seeked', onSeeked);
+    video.currentTime = time;
+  });
+};
+
+const encodeCanvas = async (canvas: HTMLCanvasElement, quality: number) => {
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', quality));
+  if (!blob) throw new LocalizedError('error.encodeFrame');
+  return blobToDataUrl(blob);
+};
+
+/**
+ * Fallback for browsers without WebCodecs and for containers the worker can't demux:
+ * seeks a detached <video> element sample by sample on the main thread.
+ */
+const extractBySeeking = async (file: File, settings: ExtractionSettings, handlers: ExtractionHandlers): Promise<void> => {
+  const videoUrl = URL.createObjectURL(file);
+  const video = document.createElement('video');
+  const canvas = document.createElement('canvas');
+  const probeCanvas = document.createElement('canvas');
+
+  try {
+    await loadVideoElement(video, videoUrl);
+
+    const ctx = canvas.getContext('2d');
+    const probeCtx = probeCanvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx || !probeCtx) throw new LocalizedError('error.canvasUnavailable');
+
+    const { startTime, endTime } = settings;
+    const sampleStep = getSampleStep(settings);
+    // Bisection passes used to narrow a detected cut down inside one sample step
+    const REFINE_STEPS = 3;
+
+    // Calculate scale
+    const scale = Math.min(1, settings.maxHeight / video.videoHeight);
+    canvas.width = video.videoWidth * scale;
+    canvas.height = video.videoHeight * scale;
+    probeCanvas.width = PROBE_WIDTH;
+    probeCanvas.height = PROBE_HEIGHT;
+
+    const seekTo = (time: number) => seekVideo(video, time);
+
+    const probePixels = () => {
+      probeCtx.drawImage(video, 0, 0, PROBE_WIDTH, PROBE_HEIGHT);
+      return probeCtx.getImageData(0, 0, PROBE_WIDTH, PROBE_HEIGHT).data;
+    };
+    const sampleHistogram = () => computeHistogram(probePixels());
+
+    const collector = new ShotCollector(settings, handlers.onShot, snapshot => {
+      ctx.drawImage(snapshot, 0, 0, canvas.width, canvas.height);
+      return encodeCanvas(canvas, settings.jpegQuality);
+    });
+
+    for (let time = startTime; time < endTime && !collector.done; time += sampleStep) {
+      if (handlers.signal.aborted) return;
+      await seekTo(time);
+
+      await collector.addSample(
+        time,
+        settings.detectScenes || settings.dedupeFrames ? probeFrame(probePixels()) : null,
+        () => createImageBitmap(video, { resizeWidth: canvas.width, resizeHeight: canvas.height, resizeQuality: 'high' }),
+        async (reference, from, to) => {
+          // The cut lies between the previous sample and this one, bisect to find it
+          let low = from;
+          let high = to;
+          for (let i = 0; i < REFINE_STEPS; i++) {
+            const mid = (low + high) / 2;
+            await seekTo(mid);
+            if (histogramDistance(reference, sampleHistogram()) >= settings.cutThreshold) {
+              high = mid;
+            } else {
+              low = mid;
+            }
+          }
+          return high;
+        }
+      );
+
+      handlers.onProgress(Math.round(((time - startTime) / (endTime - startTime)) * 100));
+    }
+
+    if (!handlers.signal.aborted) await collector.finish(endTime);
+  } finally {
+    video.removeAttribute('src');
+    video.load();
+    URL.revokeObjectURL(videoUrl);
+  }
+};
+
+/**
+ * Extracts shots from `file`, streaming each one to `onShot` as soon as it is complete.
+ * Uses the WebCodecs worker where possible and falls back to seeking otherwise.
+ * Aborting `signal` stops extraction; shots already emitted are kept.
+ */
+export const extractShots = async (file: File, settings: ExtractionSettings, handlers: ExtractionHandlers): Promise<void> => {
+  if (canUseWorker(file)) {
+    const result = await extractInWorker(file, settings, handlers);
+    if (result === 'done') return;
+  }
+  await extractBySeeking(file, settings, handlers);
+};
+
+/**
+ * Grabs start / middle / end frames for the range [start, end), encoded with the
+ * run's output settings. Used when shots are edited by hand after extraction.
+ */
+export const captureKeyframes = async (
+  file: File,
+  start: number,
+  end: number,
+  settings: Pick<ExtractionSettings, 'maxHeight' | 'jpegQuality'>
+): Promise<Keyframe[]> => {
+  const videoUrl = URL.createObjectURL(file);
+  const video = document.createElement('video');
+  const canvas = document.createElement('canvas');
+
+  try {
+    await loadVideoElement(video, videoUrl);
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new LocalizedError('error.canvasUnavailable');
+
+    const scale = Math.min(1, settings.maxHeight / video.videoHeight);
+    canvas.width = video.videoWidth * scale;
+    canvas.height = video.videoHeight * scale;
+
+    // Stay a little inside the range so the end frame doesn't belong to the next shot
+    const last = Math.max(start, Math.min(end, video.duration) - 0.1);
+    const times = [start, (start + last) / 2, last].filter((t, i, all) => i === 0 || t - all[i - 1] > 0.05);
+
+    const keyframes: Keyframe[] = [];
+    for (const time of times) {
+      await seekVideo(video, time);
+      ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+      keyframes.push({ time: Math.round(time * 100) / 100, image: await encodeCanvas(canvas, settings.jpegQuality) });
+    }
+    return keyframes;
+  } finally {
+    video.removeAttribute('src');
+    video.load();
+    URL.revokeObjectURL(videoUrl);
+  }
+};
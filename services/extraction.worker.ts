@@ -0,0 +1,257 @@
+import { createFile, DataStream, Endianness, MP4BoxBuffer, Sample, Track } from "mp4box";
+import { ExtractedShot, ExtractionSettings } from "../types";
+import { computeHistogram, histogramDistance, probeFrame, ShotCollector, PROBE_WIDTH, PROBE_HEIGHT } from "./sceneDetection";
+import { blobToDataUrl } from "./image";
+
+/**
+ * Frame extraction worker.
+ * Demuxes MP4/MOV with mp4box, decodes with WebCodecs and encodes frames on an
+ * OffscreenCanvas, streaming finished shots back to the main thread.
+ */
+
+export type ExtractionWorkerRequest = {
+  type: 'start';
+  file: File;
+  settings: ExtractionSettings;
+  sampleStep: number;
+};
+
+export type ExtractionWorkerMessage =
+  | { type: 'shot'; shot: ExtractedShot }
+  | { type: 'progress'; progress: number }
+  | { type: 'done' }
+  | { type: 'unsupported'; reason: string }
+  | { type: 'error'; message: string };
+
+// Bytes read from the file per mp4box append
+const CHUNK_SIZE = 4 * 1024 * 1024;
+// Encoded chunks allowed in the decoder before we wait for it to catch up
+const MAX_DECODE_QUEUE = 16;
+// Appends without finding a movie header before we give up on the container
+const MAX_APPENDS_BEFORE_READY = 32;
+// Extra probes between two samples, used to pin down where a cut happened
+const REFINE_PROBES_PER_SAMPLE = 8;
+
+const post = (message: ExtractionWorkerMessage) => self.postMessage(message);
+
+class UnsupportedError extends Error {}
+
+/**
+ * Pulls the codec specific box (avcC/hvcC/vpcC/av1C) out of the sample description,
+ * which VideoDecoder needs as `description`.
+ */
+const getCodecDescription = (file: ReturnType<typeof createFile>, track: Track): Uint8Array | undefined => {
+  const trak = file.getTrackById(track.id);
+  for (const entry of trak.mdia.minf.stbl.stsd.entries) {
+    const visual = entry as { avcC?: { write: (s: DataStream) => void }; hvcC?: { write: (s: DataStream) => void }; vpcC?: { write: (s: DataStream) => void }; av1C?: { write: (s: DataStream) => void } };
+    const box = visual.avcC || visual.hvcC || visual.vpcC || visual.av1C;
+    if (box) {
+      const stream = new DataStream(undefined, 0, Endianness.BIG_ENDIAN);
+      box.write(stream);
+      // Strip the 8 byte box header
+      return new Uint8Array(stream.buffer, 8);
+    }
+  }
+  return undefined;
+};
+
+const run = async ({ file, settings, sampleStep }: ExtractionWorkerRequest) => {
+  if (typeof VideoDecoder === 'undefined' || typeof OffscreenCanvas === 'undefined') {
+    throw new UnsupportedError('WebCodecs not available');
+  }
+
+  const { startTime, endTime } = settings;
+  const mp4 = createFile();
+  let track: Track | null = null;
+  let readyInfoSeen = false;
+  let parseError: string | null = null;
+  const queuedSamples: Sample[] = [];
+
+  mp4.onReady = (info) => {
+    readyInfoSeen = true;
+    track = info.videoTracks[0] || null;
+  };
+  mp4.onError = (_module: string, message: string) => {
+    parseError = message;
+  };
+  mp4.onSamples = (_id, _user, samples) => {
+    queuedSamples.push(...samples);
+  };
+
+  // 1. Read until the movie header has been parsed
+  let offset = 0;
+  let appends = 0;
+  while (!readyInfoSeen) {
+    if (parseError) throw new UnsupportedError(parseError);
+    if (offset >= file.size || appends >= MAX_APPENDS_BEFORE_READY) {
+      throw new UnsupportedError('No movie header found');
+    }
+    const buffer = await file.slice(offset, offset + CHUNK_SIZE).arrayBuffer();
+    const next = mp4.appendBuffer(MP4BoxBuffer.fromArrayBuffer(buffer, offset));
+    offset = typeof next === 'number' ? next : offset + buffer.byteLength;
+    appends++;
+  }
+
+  const videoTrack = track as Track | null;
+  if (!videoTrack) throw new UnsupportedError('No video track');
+
+  const decoderConfig: VideoDecoderConfig = {
+    codec: videoTrack.codec,
+    codedWidth: videoTrack.video?.width ?? videoTrack.track_width,
+    codedHeight: videoTrack.video?.height ?? videoTrack.track_height,
+    description: getCodecDescription(mp4, videoTrack),
+  };
+  const support = await VideoDecoder.isConfigSupported(decoderConfig);
+  if (!support.supported) throw new UnsupportedError(`Codec ${videoTrack.codec} not supported`);
+
+  // 2. Decode frames and feed samples into the shot collector
+  let outputCanvas: OffscreenCanvas | null = null;
+  const encode = async (snapshot: ImageBitmap) => {
+    outputCanvas ??= new OffscreenCanvas(snapshot.width, snapshot.height);
+    const ctx = outputCanvas.getContext('2d');
+    if (!ctx) throw new Error('OffscreenCanvas 2D not available');
+    ctx.drawImage(snapshot, 0, 0, outputCanvas.width, outputCanvas.height);
+    const blob = await outputCanvas.convertToBlob({ type: 'image/jpeg', quality: settings.jpegQuality });
+    return blobToDataUrl(blob);
+  };
+
+  const collector = new ShotCollector(settings, (shot) => post({ type: 'shot', shot }), encode);
+  const probeCanvas = new OffscreenCanvas(PROBE_WIDTH, PROBE_HEIGHT);
+  const probeCtx = probeCanvas.getContext('2d', { willReadFrequently: true });
+  if (!probeCtx) throw new UnsupportedError('OffscreenCanvas 2D not available');
+
+  const refineStep = sampleStep / REFINE_PROBES_PER_SAMPLE;
+  let nextSampleTime = startTime;
+  let nextRefineTime = startTime;
+  let refineProbes: { time: number; histogram: Float32Array }[] = [];
+  let finished = false;
+  let decodeError: Error | null = null;
+  let processing = Promise.resolve();
+
+  const probePixels = (frame: VideoFrame) => {
+    probeCtx.drawImage(frame, 0, 0, PROBE_WIDTH, PROBE_HEIGHT);
+    return probeCtx.getImageData(0, 0, PROBE_WIDTH, PROBE_HEIGHT).data;
+  };
+
+  // Scaled to the output size, so the frame can be released before the shot is encoded
+  const capture = (frame: VideoFrame) => {
+    const scale = Math.min(1, settings.maxHeight / frame.displayHeight);
+    return createImageBitmap(frame, {
+      resizeWidth: Math.round(frame.displayWidth * scale),
+      resizeHeight: Math.round(frame.displayHeight * scale),
+      resizeQuality: 'high',
+    });
+  };
+
+  const handleFrame = (frame: VideoFrame) => {
+    const time = frame.timestamp / 1e6;
+
+    if (finished || time < startTime) {
+      frame.close();
+      return;
+    }
+    if (time >= endTime || collector.done) {
+      finished = true;
+      frame.close();
+      return;
+    }
+
+    if (time < nextSampleTime) {
+      // In-between frame: only keep a cheap probe for cut refinement
+      if (settings.detectScenes && time >= nextRefineTime) {
+        refineProbes.push({ time, histogram: computeHistogram(probePixels(frame)) });
+        nextRefineTime = time + refineStep;
+      }
+      frame.close();
+      return;
+    }
+
+    while (nextSampleTime <= time) nextSampleTime += sampleStep;
+    nextRefineTime = time + refineStep;
+
+    const probe = settings.detectScenes || settings.dedupeFrames ? probeFrame(probePixels(frame)) : null;
+    const probesSinceLastSample = refineProbes;
+    refineProbes = [];
+
+    processing = processing.then(async () => {
+      try {
+        await collector.addSample(
+          time,
+          probe,
+          () => capture(frame),
+          async (reference, _from, to) => {
+            // The first in-between frame that no longer matches the old shot starts the new one
+            const firstDifferent = probesSinceLastSample.find(p => histogramDistance(reference, p.histogram) >= settings.cutThreshold);
+            return firstDifferent ? firstDifferent.time : to;
+          }
+        );
+        post({ type: 'progress', progress: Math.round(((time - startTime) / (endTime - startTime)) * 100) });
+      } finally {
+        frame.close();
+      }
+    });
+  };
+
+  const decoder = new VideoDecoder({
+    output: handleFrame,
+    error: (e) => { decodeError = e instanceof Error ? e : new Error(String(e)); },
+  });
+  decoder.configure(decoderConfig);
+
+  const waitForDecoder = () => new Promise<void>(resolve => {
+    decoder.addEventListener('dequeue', () => resolve(), { once: true });
+  });
+
+  const drainSamples = async () => {
+    while (queuedSamples.length > 0 && !finished) {
+      const sample = queuedSamples.shift()!;
+      if (decodeError) throw decodeError;
+      while (decoder.decodeQueueSize > MAX_DECODE_QUEUE) await waitForDecoder();
+      decoder.decode(new EncodedVideoChunk({
+        type: sample.is_sync ? 'key' : 'delta',
+        timestamp: (sample.cts * 1e6) / sample.timescale,
+        duration: (sample.duration * 1e6) / sample.timescale,
+        data: sample.data!,
+      }));
+      mp4.releaseUsedSamples(videoTrack.id, sample.number);
+    }
+    // Keep at most one batch of frames waiting to be snapshotted or encoded
+    await processing;
+  };
+
+  mp4.setExtractionOptions(videoTrack.id, null, { nbSamples: 50 });
+  const seekInfo = mp4.seek(startTime, true);
+  mp4.start();
+  offset = seekInfo.offset;
+
+  while (!finished && offset < file.size) {
+    const buffer = await file.slice(offset, offset + CHUNK_SIZE).arrayBuffer();
+    const next = mp4.appendBuffer(MP4BoxBuffer.fromArrayBuffer(buffer, offset), offset + buffer.byteLength >= file.size);
+    offset = typeof next === 'number' && next > offset ? next : offset + buffer.byteLength;
+    await drainSamples();
+  }
+
+  mp4.flush();
+  await drainSamples();
+  if (!finished) await decoder.flush();
+  await processing;
+  decoder.close();
+  if (decodeError) throw decodeError;
+
+  await collector.finish(endTime);
+};
+
+self.onmessage = async (event: MessageEvent<ExtractionWorkerRequest>) => {
+  if (event.data.type !== 'start') return;
+
+  try {
+    await run(event.data);
+    post({ type: 'done' });
+  } catch (error: any) {
+    if (error instanceof UnsupportedError) {
+      post({ type: 'unsupported', reason: error.message });
+    } else {
+      post({ type: 'error', message: error?.message || String(error) });
+    }
+  }
+};
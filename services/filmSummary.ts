@@ -0,0 +1,156 @@
+import { Shot } from "../types";
+import { getEffectiveAnalysis } from "./analysisEdits";
+import { formatCameraMovement, formatShotSize } from "./vocabulary";
+
+// Film-level view computed from the shot list: pacing statistics measured locally, plus the
+// digest of per-shot analyses the model reads when writing the overall critique.
+
+// Upper bounds (seconds) of the shot-length histogram buckets; the last bucket is open-ended
+export const DURATION_BUCKET_EDGES = [1, 2, 4, 8, 16];
+
+/**
+ * Label of a histogram bucket, e.g. "<1s", "2–4s", "≥16s".
+ */
+export const formatDurationBucket = (index: number): string => {
+  if (index === 0) return `<${DURATION_BUCKET_EDGES[0]}s`;
+  if (index >= DURATION_BUCKET_EDGES.length) return `≥${DURATION_BUCKET_EDGES[DURATION_BUCKET_EDGES.length - 1]}s`;
+  return `${DURATION_BUCKET_EDGES[index - 1]}–${DURATION_BUCKET_EDGES[index]}s`;
+};
+
+// Candidate window lengths (seconds) for the cutting-rate timeline, shortest first
+const RHYTHM_WINDOWS = [10, 30, 60, 120, 300, 600];
+const MAX_RHYTHM_WINDOWS = 24;
+
+export interface DistributionEntry {
+  label: string; // Vocabulary code, or the free text of an old analysis that could not be mapped
+  count: number;
+  duration: number; // Total seconds of the shots with this label
+}
+
+export interface RhythmWindow {
+  start: number; // Seconds
+  end: number; // Seconds
+  cuts: number;
+  cutsPerMinute: number;
+}
+
+export interface FilmStatistics {
+  shotCount: number;
+  analyzedCount: number;
+  totalDuration: number; // Sum of shot lengths in seconds
+  averageShotLength: number;
+  medianShotLength: number;
+  shortestShot: number;
+  longestShot: number;
+  cutsPerMinute: number;
+  durationHistogram: number[]; // Shot counts per DURATION_BUCKET_EDGES bucket (one more than the edges)
+  shotSizes: DistributionEntry[]; // Most frequent first; analyzed shots only
+  cameraMovements: DistributionEntry[];
+  rhythm: RhythmWindow[];
+}
+
+const distribution = (shots: Shot[], read: (shot: Shot) => string | undefined): DistributionEntry[] => {
+  const entries = new Map<string, DistributionEntry>();
+  for (const shot of shots) {
+    const value = read(shot);
+    if (!value?.trim()) continue;
+    const label = value.trim();
+    const entry = entries.get(label) ?? { label, count: 0, duration: 0 };
+    entry.count++;
+    entry.duration += shot.duration;
+    entries.set(label, entry);
+  }
+  return [...entries.values()].sort((a, b) => b.count - a.count || b.duration - a.duration);
+};
+
+/**
+ * Cuts per minute in consecutive windows, sized so a feature fits in a couple of dozen bars.
+ * A cut is the start of every shot after the first.
+ */
+const computeRhythm = (shots: Shot[]): RhythmWindow[] => {
+  if (shots.length === 0) return [];
+  const start = shots[0].timestamp;
+  const end = Math.max(...shots.map(s => s.timestamp + s.duration));
+  const span = Math.max(end - start, 1);
+  const windowLength = RHYTHM_WINDOWS.find(length => span / length <= MAX_RHYTHM_WINDOWS) ?? RHYTHM_WINDOWS[RHYTHM_WINDOWS.length - 1];
+
+  const windows: RhythmWindow[] = [];
+  for (let windowStart = start; windowStart < end; windowStart += windowLength) {
+    const windowEnd = Math.min(windowStart + windowLength, end);
+    const cuts = shots.slice(1).filter(s => s.timestamp >= windowStart && s.timestamp < windowEnd).length;
+    windows.push({
+      start: windowStart,
+      end: windowEnd,
+      cuts,
+      cutsPerMinute: cuts / (Math.max(windowEnd - windowStart, 1) / 60),
+    });
+  }
+  return windows;
+};
+
+export const computeFilmStatistics = (shots: Shot[]): FilmStatistics => {
+  const sorted = [...shots].sort((a, b) => a.timestamp - b.timestamp);
+  const lengths = sorted.map(s => s.duration).sort((a, b) => a - b);
+  const totalDuration = lengths.reduce((sum, length) => sum + length, 0);
+  const middle = Math.floor(lengths.length / 2);
+  const median = lengths.length === 0
+    ? 0
+    : lengths.length % 2 === 1 ? lengths[middle] : (lengths[middle - 1] + lengths[middle]) / 2;
+
+  const durationHistogram = new Array(DURATION_BUCKET_EDGES.length + 1).fill(0);
+  for (const length of lengths) {
+    const bucket = DURATION_BUCKET_EDGES.findIndex(edge => length < edge);
+    durationHistogram[bucket === -1 ? DURATION_BUCKET_EDGES.length : bucket]++;
+  }
+
+  const analyzed = sorted.filter(s => s.analysis);
+
+  return {
+    shotCount: sorted.length,
+    analyzedCount: analyzed.length,
+    totalDuration,
+    averageShotLength: lengths.length > 0 ? totalDuration / lengths.length : 0,
+    medianShotLength: median,
+    shortestShot: lengths[0] ?? 0,
+    longestShot: lengths[lengths.length - 1] ?? 0,
+    cutsPerMinute: totalDuration > 0 ? Math.max(sorted.length - 1, 0) / (totalDuration / 60) : 0,
+    durationHistogram,
+    shotSizes: distribution(analyzed, shot => getEffectiveAnalysis(shot)?.shotSize),
+    cameraMovements: distribution(analyzed, shot => getEffectiveAnalysis(shot)?.cameraMovement),
+    rhythm: computeRhythm(sorted),
+  };
+};
+
+const formatTimecode = (seconds: number) => {
+  const m = Math.floor(seconds / 60);
+  const s = (seconds % 60).toFixed(1);
+  return `${m.toString().padStart(2, '0')}:${s.padStart(4, '0')}`;
+};
+
+// Keeps the digest of a feature-length breakdown within a single request
+const truncate = (text: string, length: number) => text.length > length ? `${text.slice(0, length)}…` : text;
+
+/**
+ * Prompt text for the film critique: the measured statistics followed by one line per analyzed shot.
+ */
+export const describeFilmForCritique = (shots: Shot[], stats: FilmStatistics): string => {
+  const topLabels = (entries: DistributionEntry[], format: (value: string) => string) => entries.slice(0, 6).map(e => `${format(e.label)} ${e.count}`).join('、');
+  const header = [
+    `镜头总数 ${stats.shotCount}，已分析 ${stats.analyzedCount}，总时长 ${formatTimecode(stats.totalDuration)}`,
+    `平均镜头长度 ${stats.averageShotLength.toFixed(1)} 秒，中位数 ${stats.medianShotLength.toFixed(1)} 秒，每分钟 ${stats.cutsPerMinute.toFixed(1)} 次剪切`,
+    `景别分布：${topLabels(stats.shotSizes, formatShotSize) || '无'}`,
+    `运镜分布：${topLabels(stats.cameraMovements, formatCameraMovement) || '无'}`,
+    `剪切节奏 (每分钟剪切数，按时间顺序)：${stats.rhythm.map(w => w.cutsPerMinute.toFixed(0)).join(' ')}`,
+  ];
+
+  const shotLines = [...shots]
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .flatMap((shot, index) => {
+      const analysis = getEffectiveAnalysis(shot);
+      if (!analysis) return [];
+      const palette = shot.palette ? ` | 色板 ${shot.palette.swatches.slice(0, 3).map(s => s.hex).join(' ')}` : '';
+      return [`#${index + 1} [${formatTimecode(shot.timestamp)}, ${shot.duration.toFixed(1)}秒] ${formatShotSize(analysis.shotSize)} | ${formatCameraMovement(analysis.cameraMovement)}${analysis.cinematographyNotes ? ` (${truncate(analysis.cinematographyNotes, 40)})` : ''} | ${truncate(analysis.lightingAndColor, 60)}${palette} | ${truncate(analysis.visualDescription, 80)}`];
+    });
+
+  return `${header.join('\n')}\n\n逐镜头摘要：\n${shotLines.join('\n')}`;
+};
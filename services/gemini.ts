@@ -1,312 +1,320 @@
-import { GoogleGenAI, Type, HarmCategory, HarmBlockThreshold } from "@google/genai";
-import { ShotAnalysis } from "../types";
+import { Type, HarmCategory, HarmBlockThreshold } from "@google/genai";
+import { AiSettings, AnalysisContext, AnalysisTemplate, Keyframe, SceneDescription, ShotAnalysis, TemplateField } from "../types";
+import { CAMERA_MOVEMENTS, SHOT_SIZES } from "./vocabulary";
+import { AnalysisLanguage, LocalizedError } from "./i18n";
+import { isAbortError, RequestPriority, scheduleRequest } from "./requestQueue";
+import { createHttpClient, HttpClient, normalizeBaseUrl } from "./http";
+import { AiProvider, buildAnalysisPrompt, buildCritiquePrompt, buildScenePrompt, CritiqueResult, labelKeyframes, parseJsonResponse, readAnalysisResponse, readCritiqueResponse, readSceneResponse, stripDataUrl } from "./aiProvider";
+import { getAnalysisProperties } from "./templates";
+
+// Gemini native provider. Requests go to the REST API through the shared scoped transport, so
+// they carry their own auth headers and surface status and headers (Retry-After) like any other
+// provider; @google/genai only supplies the schema and safety enums.
 
 // Models mapping
 const MODEL_ANALYSIS = 'gemini-2.5-flash';
 const MODEL_IMAGE_GEN = 'gemini-2.5-flash-image'; // Nano Banana
 
+// Request lanes, one per model
+const ANALYSIS_LANE = `gemini/${MODEL_ANALYSIS}`;
+const IMAGE_LANE = `gemini/${MODEL_IMAGE_GEN}`;
+
+const GEMINI_API_ROOT = 'https://generativelanguage.googleapis.com';
+
+type GeminiConnection = AiSettings['gemini'];
+
+type ContentPart = { text: string } | { inlineData: { mimeType: string; data: string } };
+
+interface GenerateContentResponse {
+    candidates?: { content?: { parts?: { text?: string; thought?: boolean; inlineData?: { data?: string } }[] } }[];
+}
+
 /**
- * Concurrent Queue Manager
- * Allows limited concurrency (e.g., 2 requests) with a recovery window.
- * Balances speed with rate stability.
+ * A client of its own for each call: the proxy address and auth headers travel with it,
+ * never through the page-wide fetch, so overlapping requests cannot pick up each other's headers.
  */
-class ConcurrentQueue {
-  private queue: Array<{
-    task: () => Promise<any>;
-    resolve: (value: any) => void;
-    reject: (reason?: any) => void;
-  }> = [];
-  private activeCount = 0;
-  private maxConcurrency: number;
-  private minDelayMs: number;
-
-  constructor(maxConcurrency: number = 2, minDelayMs: number = 800) {
-    this.maxConcurrency = maxConcurrency;
-    this.minDelayMs = minDelayMs;
-  }
+const createAIClient = ({ apiKey, baseUrl, authScheme }: GeminiConnection): HttpClient => {
+    if (!baseUrl.trim()) {
+        return createHttpClient({ baseUrl: GEMINI_API_ROOT, headers: { 'x-goog-api-key': apiKey } });
+    }
 
-  add<T>(task: () => Promise<T>): Promise<T> {
-    return new Promise((resolve, reject) => {
-      this.queue.push({ task, resolve, reject });
-      this.processNext();
+    // The API version is part of each request path
+    const root = normalizeBaseUrl(baseUrl).replace(/\/v1beta$/i, '').replace(/\/v1$/i, '');
+    return createHttpClient({
+        baseUrl: root,
+        headers: authScheme === 'bearer' ? { Authorization: `Bearer ${apiKey}` } : { 'x-goog-api-key': apiKey },
     });
-  }
+};
 
-  private async processNext() {
-    // If we are at max concurrency or queue is empty, stop.
-    if (this.activeCount >= this.maxConcurrency || this.queue.length === 0) {
-      return;
-    }
+/**
+ * One generateContent call with the shared safety settings.
+ */
+const generateContent = async (
+    client: HttpClient,
+    model: string,
+    parts: ContentPart[],
+    generationConfig: Record<string, unknown>,
+    signal?: AbortSignal
+): Promise<GenerateContentResponse> => {
+    return parseJsonResponse(await client.postJson(`/v1beta/models/${model}:generateContent`, {
+        contents: [{ role: 'user', parts }],
+        // Without these, "violent" or "suggestive" movie frames might be blocked without a clear error
+        safetySettings: SAFETY_SETTINGS,
+        generationConfig,
+    }, signal));
+};
 
-    const item = this.queue.shift();
-    if (!item) return;
+// The answer's text parts joined, leaving out thoughts
+const responseText = (response: GenerateContentResponse): string | undefined => {
+    const parts = response.candidates?.[0]?.content?.parts ?? [];
+    return parts.filter(part => typeof part.text === 'string' && !part.thought).map(part => part.text).join('') || undefined;
+};
 
-    this.activeCount++;
+/**
+ * Shared Safety Settings (Crucial for preventing silent failures)
+ */
+const SAFETY_SETTINGS = [
+    { category: HarmCategory.HARM_CATEGORY_HATE_SPEECH, threshold: HarmBlockThreshold.BLOCK_NONE },
+    { category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT, threshold: HarmBlockThreshold.BLOCK_NONE },
+    { category: HarmCategory.HARM_CATEGORY_HARASSMENT, threshold: HarmBlockThreshold.BLOCK_NONE },
+    { category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT, threshold: HarmBlockThreshold.BLOCK_NONE },
+];
 
-    try {
-      const result = await item.task();
-      item.resolve(result);
-    } catch (error) {
-      item.reject(error);
-    } finally {
-      // Logic: Wait for the minDelayMs BEFORE releasing the slot for the next task.
-      // This acts as a rate limiter between the completion of one task and start of another in this "lane".
-      setTimeout(() => {
-        this.activeCount--;
-        this.processNext();
-      }, this.minDelayMs);
-    }
-  }
-}
+const FIELD_SCHEMA_TYPES: Record<TemplateField['type'], Type> = {
+    text: Type.STRING,
+    enum: Type.STRING,
+    number: Type.NUMBER,
+};
 
-// Config: Concurrency 2, Delay 800ms.
-// This allows roughly 2 requests per second in parallel, much faster than before.
-const apiQueue = new ConcurrentQueue(2, 800);
+const STANDARD_PROPERTY_SCHEMAS: Partial<Record<keyof ShotAnalysis, object>> = {
+    visualDescription: { type: Type.STRING },
+    shotSize: { type: Type.STRING, enum: SHOT_SIZES },
+    cameraMovement: { type: Type.STRING, enum: CAMERA_MOVEMENTS },
+    cameraMovementConfidence: { type: Type.NUMBER },
+    cinematographyNotes: { type: Type.STRING },
+    lightingAndColor: { type: Type.STRING },
+    soundAtmosphere: { type: Type.STRING },
+    aiPrompt: { type: Type.STRING },
+};
 
 /**
- * Utility: Wait for a specified duration (ms)
+ * Response schema for a template's extra fields, nested under `custom`.
  */
-const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+const templateFieldsSchema = (fields: TemplateField[]) => ({
+    type: Type.OBJECT,
+    properties: Object.fromEntries(fields.map(field => [field.key, {
+        type: FIELD_SCHEMA_TYPES[field.type],
+        description: field.label,
+        ...(field.type === 'enum' ? { enum: field.options } : {}),
+    }])),
+    required: fields.map(field => field.key),
+});
 
 /**
- * Helper to patch window.fetch temporarily to inject headers.
+ * Analyzes a shot from its keyframes (start / middle / end, in time order).
+ * All frames go out in one request so camera movement can be observed between them.
+ * The template picks the standard fields in the prompt and schema; its extra fields are added
+ * and returned as `customFields`.
+ * Aborting `signal` cancels the request whether it is queued, waiting to retry or in flight.
  */
-const withAuthHeaderInjection = async <T>(
-    apiKey: string, 
-    baseUrl: string | undefined, 
-    fn: () => Promise<T>
-): Promise<T> => {
-    const isProxyKey = apiKey.startsWith("sk-");
-    const needsPatch = !!baseUrl || isProxyKey;
-
-    if (!needsPatch) {
-        return fn();
-    }
+export const analyzeFrameWithGemini = async (
+  keyframes: Keyframe[],
+  connection: GeminiConnection,
+  context: AnalysisContext = {},
+  template?: AnalysisTemplate,
+  language: AnalysisLanguage = 'zh',
+  signal?: AbortSignal,
+  priority: RequestPriority = 'background'
+): Promise<ShotAnalysis> => {
+  if (!connection.apiKey && !connection.baseUrl) {
+    throw new LocalizedError('error.providerNotConfigured');
+  }
 
-    const originalFetch = window.fetch;
-    
-    window.fetch = async (input, init) => {
-        const urlStr = input.toString();
-        
-        const shouldIntercept = baseUrl 
-            ? urlStr.includes(baseUrl.replace(/^https?:\/\//, '').replace(/\/$/, '')) 
-            : urlStr.includes("googleapis.com");
-        
-        if (shouldIntercept) {
-            const newInit = { ...init } || {};
-            const headers = new Headers(newInit.headers);
-            
-            if (!headers.has("Authorization")) {
-                headers.set("Authorization", `Bearer ${apiKey}`);
-            }
-            if (!headers.has("x-goog-api-key")) {
-                headers.set("x-goog-api-key", apiKey);
-            }
-            
-            newInit.headers = headers;
-            return originalFetch(urlStr, newInit);
-        }
-        return originalFetch(input, init);
-    };
+  return scheduleRequest(ANALYSIS_LANE, async () => {
+    const ai = createAIClient(connection);
+    const labels = labelKeyframes(keyframes);
+
+    // Each frame is labelled so the model can relate changes between them to time
+    const frameParts = keyframes.flatMap((frame, index) => [
+      { text: labels[index] },
+      { inlineData: { mimeType: 'image/jpeg', data: stripDataUrl(frame.image) } },
+    ]);
+    const templateFields = template?.fields ?? [];
+    // Only the standard fields the template keeps are in the schema
+    const properties = getAnalysisProperties(template);
+    const standardSchema = Object.fromEntries(Object.entries(STANDARD_PROPERTY_SCHEMAS).filter(([property]) => properties.includes(property as keyof ShotAnalysis)));
 
     try {
-        return await fn();
-    } finally {
-        window.fetch = originalFetch;
+      const response = await generateContent(ai, MODEL_ANALYSIS, [
+        ...frameParts,
+        { text: buildAnalysisPrompt({ keyframes, context, template, language }) }
+      ], {
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            ...standardSchema,
+            ...(templateFields.length > 0 ? { custom: templateFieldsSchema(templateFields) } : {}),
+          },
+          required: [
+            ...Object.keys(standardSchema),
+            ...(templateFields.length > 0 ? ["custom"] : []),
+          ],
+        }
+      }, signal);
+
+      return readAnalysisResponse(parseJsonResponse(responseText(response)), template);
+
+    } catch (error: any) {
+      if (isAbortError(error)) throw error;
+      console.error("Gemini Analysis Error:", error);
+      if (error.message) throw error;
+      throw new LocalizedError('error.requestFailed');
     }
+  }, { priority, signal });
 };
 
 /**
- * Retry wrapper for API calls with Exponential Backoff.
- * Optimized: Starts with shorter delay (1s) to be more responsive.
+ * Writes the whole-film critique (visual style, colour arc, pacing) from a digest of the
+ * breakdown, see describeFilmForCritique. Text only: the shot analyses stand in for the frames.
  */
-async function withRetry<T>(fn: () => Promise<T>, retries = 3, initialDelay = 1000): Promise<T> {
-    let currentDelay = initialDelay;
-    
-    for (let i = 0; i < retries; i++) {
-        try {
-            return await fn();
-        } catch (error: any) {
-            const msg = error.message || "";
-            const isQuotaError = msg.includes("429") || msg.includes("Quota") || msg.includes("RESOURCE_EXHAUSTED") || (error.status === 429);
-            const isServerError = msg.includes("500") || msg.includes("502") || msg.includes("503") || msg.includes("Overloaded");
-            
-            // If it's the last attempt, throw
-            if (i === retries - 1) throw error;
-
-            if (isQuotaError || isServerError) {
-                console.warn(`API Error (${isQuotaError ? '429 Rate Limit' : 'Server'}). Retrying in ${currentDelay}ms... (Attempt ${i + 1}/${retries})`);
-                await delay(currentDelay);
-                currentDelay *= 2; 
-            } else {
-                // Throw immediately for other errors (e.g., 400 Bad Request, Auth errors)
-                throw error;
-            }
-        }
-    }
-    throw new Error("Retry failed");
-}
+export const critiqueFilmWithGemini = async (
+  digest: string,
+  connection: GeminiConnection,
+  language: AnalysisLanguage = 'zh'
+): Promise<CritiqueResult> => {
+  if (!connection.apiKey && !connection.baseUrl) {
+    throw new LocalizedError('error.providerNotConfigured');
+  }
 
-const createAIClient = (apiKey: string, baseUrl?: string) => {
-    let finalBaseUrl = baseUrl ? baseUrl.trim() : undefined;
-    
-    if (finalBaseUrl) {
-        if (!/^https?:\/\//i.test(finalBaseUrl)) {
-            finalBaseUrl = `https://${finalBaseUrl}`;
-        }
-        if (finalBaseUrl.endsWith('/')) {
-            finalBaseUrl = finalBaseUrl.slice(0, -1);
+  return scheduleRequest(ANALYSIS_LANE, async () => {
+    const ai = createAIClient(connection);
+
+    try {
+      const response = await generateContent(ai, MODEL_ANALYSIS, [{ text: buildCritiquePrompt(digest, language) }], {
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            visualStyle: { type: Type.STRING },
+            colorArc: { type: Type.STRING },
+            pacing: { type: Type.STRING },
+            overall: { type: Type.STRING },
+          },
+          required: ["visualStyle", "colorArc", "pacing", "overall"],
         }
-        finalBaseUrl = finalBaseUrl.replace(/\/v1beta\/?$/i, '').replace(/\/v1\/?$/i, '');
-    }
+      });
 
-    return new GoogleGenAI({ 
-        apiKey: apiKey, 
-        baseUrl: finalBaseUrl 
-    });
-};
+      return readCritiqueResponse(parseJsonResponse(responseText(response)));
 
-/**
- * Shared Safety Settings (Crucial for preventing silent failures)
- */
-const SAFETY_SETTINGS = [
-    { category: HarmCategory.HARM_CATEGORY_HATE_SPEECH, threshold: HarmBlockThreshold.BLOCK_NONE },
-    { category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT, threshold: HarmBlockThreshold.BLOCK_NONE },
-    { category: HarmCategory.HARM_CATEGORY_HARASSMENT, threshold: HarmBlockThreshold.BLOCK_NONE },
-    { category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT, threshold: HarmBlockThreshold.BLOCK_NONE },
-];
+    } catch (error: any) {
+      console.error("Gemini Critique Error:", error);
+      if (error.message) throw error;
+      throw new LocalizedError('error.requestFailed');
+    }
+  }, { priority: 'user' });
+};
 
 /**
- * Analyzes a video frame.
+ * Writes a scene's slugline (INT/EXT, location, time of day), title and synopsis from a few
+ * of its frames and the per-shot digest, see describeSceneForPrompt.
  */
-export const analyzeFrameWithGemini = async (base64Image: string, apiKey: string, baseUrl?: string): Promise<ShotAnalysis> => {
-  if (!apiKey && !baseUrl) {
-    throw new Error("请在设置中配置 API Key 或 Base URL");
+export const describeSceneWithGemini = async (
+  digest: string,
+  frames: string[],
+  connection: GeminiConnection,
+  language: AnalysisLanguage = 'zh',
+  priority: RequestPriority = 'user'
+): Promise<SceneDescription> => {
+  if (!connection.apiKey && !connection.baseUrl) {
+    throw new LocalizedError('error.providerNotConfigured');
   }
 
-  return apiQueue.add(() => withRetry(async () => {
-    return withAuthHeaderInjection(apiKey, baseUrl, async () => {
-        const ai = createAIClient(apiKey, baseUrl);
-        const cleanBase64 = base64Image.replace(/^data:image\/(png|jpeg|jpg|webp);base64,/, "");
-
-        const prompt = `
-          作为一名资深的电影摄影师和拉片专家，请深入分析这张电影画面。
-          请提供以下 JSON 格式的输出 (所有描述性文字请使用中文，aiPrompt 使用英文)：
-
-          1. visualDescription: 画面内容描述 (客观描述画面中的人物、动作、环境)。
-          2. shotSize: 景别 (如：特写、中景、全景、大远景等)。
-          3. cameraMovement: 推测的镜头运动 (如：固定镜头、推轨、手持跟拍、摇镜头等。如果是静态图看不出，请根据构图推测最可能的运镜方式)。
-          4. lightingAndColor: 光影与色彩分析 (如：侧逆光、高对比度、赛博朋克霓虹色调、低饱和度冷调等)。
-          5. soundAtmosphere: 建议的音乐与音效氛围 (如：紧张的弦乐、嘈杂的街道环境音、寂静无声、轻快的钢琴曲等)。
-          6. aiPrompt: 一个用于 Midjourney 或 Gemini Image Model 的**高质量英文提示词**。
-             - 格式要求：[Subject Description], [Environment], [Lighting & Color], [Camera Angle/Shot Size], [Style/Aesthetics].
-             - 必须包含美学关键词：cinematic lighting, photorealistic, 8k, highly detailed, film grain, shot on 35mm lens, masterpiece.
-             - 目标是生成一张在构图、光影和质感上都极度接近原图的电影感画面。
-        `;
-
-        try {
-          const response = await ai.models.generateContent({
-            model: MODEL_ANALYSIS,
-            contents: {
-              parts: [
-                { inlineData: { mimeType: 'image/jpeg', data: cleanBase64 } },
-                { text: prompt }
-              ]
-            },
-            config: {
-              responseMimeType: "application/json",
-              // Add safety settings here too! 
-              // Without this, "violent" or "suggestive" movie frames might cause the API to block without a clear 429 error.
-              safetySettings: SAFETY_SETTINGS,
-              responseSchema: {
-                type: Type.OBJECT,
-                properties: {
-                  visualDescription: { type: Type.STRING },
-                  shotSize: { type: Type.STRING },
-                  cameraMovement: { type: Type.STRING },
-                  lightingAndColor: { type: Type.STRING },
-                  soundAtmosphere: { type: Type.STRING },
-                  aiPrompt: { type: Type.STRING },
-                },
-                required: ["visualDescription", "shotSize", "cameraMovement", "lightingAndColor", "soundAtmosphere", "aiPrompt"],
-              }
-            }
-          });
-
-          const text = response.text;
-          if (!text) throw new Error("API 返回内容为空");
-
-          try {
-              return JSON.parse(text) as ShotAnalysis;
-          } catch (e) {
-              if (text.trim().startsWith("<")) {
-                  const titleMatch = text.match(/<title>(.*?)<\/title>/i);
-                  const title = titleMatch ? titleMatch[1] : "Unknown HTML Error (Proxy?)";
-                  throw new Error(`Proxy Error: ${title}`);
-              }
-              throw new Error("无法解析 JSON 响应");
-          }
-
-        } catch (error: any) {
-          console.error("Gemini Analysis Error:", error);
-          if (error.message) throw error;
-          throw new Error("Gemini Request Failed");
+  return scheduleRequest(ANALYSIS_LANE, async () => {
+    const ai = createAIClient(connection);
+
+    const frameParts = frames.map(image => ({
+      inlineData: { mimeType: 'image/jpeg', data: stripDataUrl(image) },
+    }));
+
+    try {
+      const response = await generateContent(ai, MODEL_ANALYSIS, [...frameParts, { text: buildScenePrompt(digest, frames.length, language) }], {
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            setting: { type: Type.STRING, enum: ['INT', 'EXT', 'INT/EXT'] },
+            location: { type: Type.STRING },
+            timeOfDay: { type: Type.STRING },
+            title: { type: Type.STRING },
+            synopsis: { type: Type.STRING },
+          },
+          required: ["setting", "location", "timeOfDay", "title", "synopsis"],
         }
-    });
-  }, 3, 1000));
+      });
+
+      return readSceneResponse(parseJsonResponse(responseText(response)));
+
+    } catch (error: any) {
+      console.error("Gemini Scene Error:", error);
+      if (error.message) throw error;
+      throw new LocalizedError('error.requestFailed');
+    }
+  }, { priority });
 };
 
 /**
  * Generates an image using Nano Banana.
  */
-export const generateImageWithNanoBanana = async (prompt: string, apiKey: string, baseUrl?: string): Promise<string> => {
-  if (!apiKey && !baseUrl) {
-    throw new Error("请在设置中配置 API Key 或 Base URL");
+export const generateImageWithNanoBanana = async (prompt: string, connection: GeminiConnection): Promise<string> => {
+  if (!connection.apiKey && !connection.baseUrl) {
+    throw new LocalizedError('error.providerNotConfigured');
   }
 
-  return apiQueue.add(() => withRetry(async () => {
-      return withAuthHeaderInjection(apiKey, baseUrl, async () => {
-          const ai = createAIClient(apiKey, baseUrl);
-
-          try {
-            const response = await ai.models.generateContent({
-              model: MODEL_IMAGE_GEN,
-              contents: {
-                parts: [
-                  { text: prompt }
-                ]
-              },
-              config: {
-                imageConfig: {
-                  aspectRatio: "16:9", 
-                },
-                safetySettings: SAFETY_SETTINGS // Use shared safety settings
-              }
-            });
-
-            if (response.candidates && response.candidates.length > 0) {
-                 const parts = response.candidates[0].content?.parts;
-                 if (parts) {
-                     for (const part of parts) {
-                        if (part.inlineData && part.inlineData.data) {
-                          return `data:image/png;base64,${part.inlineData.data}`;
-                        }
-                     }
+  return scheduleRequest(IMAGE_LANE, async () => {
+      const ai = createAIClient(connection);
+
+      try {
+        const response = await generateContent(ai, MODEL_IMAGE_GEN, [{ text: prompt }], {
+          imageConfig: {
+            aspectRatio: "16:9",
+          },
+        });
+
+        if (response.candidates && response.candidates.length > 0) {
+             const parts = response.candidates[0].content?.parts;
+             if (parts) {
+                 for (const part of parts) {
+                    if (part.inlineData && part.inlineData.data) {
+                      return `data:image/png;base64,${part.inlineData.data}`;
+                    }
                  }
-            }
-            
-            if (response.text) {
-                console.warn("Nano Banana returned text instead of image:", response.text);
-                throw new Error("模型拒绝生成图片 (可能由于安全策略或 Prompt 问题)");
-            }
-
-            throw new Error("响应中未找到图片数据");
-
-          } catch (error: any) {
-            console.error("Nano Banana Generation Error:", error);
-            if (error.message) throw error;
-            throw new Error("生成图片失败");
-          }
-      });
-  }, 3, 1000));
-};
\ No newline at end of file
+             }
+        }
+        
+        const text = responseText(response);
+        if (text) {
+            console.warn("Nano Banana returned text instead of image:", text);
+            throw new LocalizedError('error.imageRefused');
+        }
+
+        throw new LocalizedError('error.noImageInResponse');
+
+      } catch (error: any) {
+        console.error("Nano Banana Generation Error:", error);
+        if (error.message) throw error;
+        throw new LocalizedError('error.imageGeneration');
+      }
+  }, { priority: 'user' });
+};
+
+export const geminiProvider: AiProvider = {
+  id: 'gemini',
+  isConfigured: ({ gemini }) => !!(gemini.apiKey || gemini.baseUrl),
+  analysisModel: () => MODEL_ANALYSIS,
+  analyzeShot: ({ gemini }, { keyframes, context, template, language, priority }, signal) =>
+    analyzeFrameWithGemini(keyframes, gemini, context, template, language, signal, priority),
+  critiqueFilm: ({ gemini }, digest, language) => critiqueFilmWithGemini(digest, gemini, language),
+  describeScene: ({ gemini }, digest, frames, language, priority) => describeSceneWithGemini(digest, frames, gemini, language, priority),
+  generateImage: ({ gemini }, prompt) => generateImageWithNanoBanana(prompt, gemini),
+};
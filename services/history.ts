@@ -0,0 +1,84 @@
+import { Shot } from "../types";
+import { MessageKey } from "./i18n";
+
+// Undo / redo for the shot list. Entries are before/after snapshots of the whole list;
+// shots are immutable objects, so snapshots share everything the change didn't touch.
+
+const MAX_ENTRIES = 100;
+
+export interface HistoryEntry {
+  id: number;
+  label: MessageKey; // Translated for the undo / redo tooltips
+  before: Shot[];
+  after: Shot[];
+}
+
+/**
+ * Returns `current` with the change `from → to` reverted. Shots the change touched go
+ * back to their `from` version; everything else keeps its current state, so analyses
+ * that landed (or shots that streamed in) after the change survive an undo.
+ */
+export const revertChange = (from: Shot[], to: Shot[], current: Shot[]): Shot[] => {
+  const fromIds = new Set(from.map(s => s.id));
+  const toById = new Map(to.map(s => [s.id, s]));
+  const currentById = new Map(current.map(s => [s.id, s]));
+
+  const restored = from.flatMap(shot => {
+    const touched = toById.get(shot.id) !== shot;
+    if (touched) return [shot];
+    // Untouched by the change: keep whatever happened to it since (including deletion)
+    const latest = currentById.get(shot.id);
+    return latest ? [latest] : [];
+  });
+  const added = current.filter(s => !fromIds.has(s.id) && !toById.has(s.id));
+  return [...restored, ...added];
+};
+
+export class ShotHistory {
+  private undoStack: HistoryEntry[] = [];
+  private redoStack: HistoryEntry[] = [];
+
+  /**
+   * Adds an entry and clears the redo stack. Recording the same entry id again replaces
+   * it, which keeps double-invoked state updaters (React strict mode) harmless.
+   */
+  record(entry: HistoryEntry) {
+    const top = this.undoStack[this.undoStack.length - 1];
+    if (top && top.id === entry.id) {
+      this.undoStack[this.undoStack.length - 1] = entry;
+      return;
+    }
+    this.undoStack.push(entry);
+    if (this.undoStack.length > MAX_ENTRIES) this.undoStack.shift();
+    this.redoStack = [];
+  }
+
+  /** Moves the latest entry to the redo stack and returns it. */
+  undo(): HistoryEntry | null {
+    const entry = this.undoStack.pop();
+    if (!entry) return null;
+    this.redoStack.push(entry);
+    return entry;
+  }
+
+  /** Moves the latest undone entry back to the undo stack and returns it. */
+  redo(): HistoryEntry | null {
+    const entry = this.redoStack.pop();
+    if (!entry) return null;
+    this.undoStack.push(entry);
+    return entry;
+  }
+
+  clear() {
+    this.undoStack = [];
+    this.redoStack = [];
+  }
+
+  get nextUndo(): HistoryEntry | null {
+    return this.undoStack[this.undoStack.length - 1] ?? null;
+  }
+
+  get nextRedo(): HistoryEntry | null {
+    return this.redoStack[this.redoStack.length - 1] ?? null;
+  }
+}
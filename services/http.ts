@@ -0,0 +1,82 @@
+// Scoped HTTP clients. Each one carries its own base URL, headers and hooks and calls fetch
+// with them directly, so a backend's credentials only ever go on that backend's requests
+// and nothing else on the page is affected, however many requests overlap.
+
+export interface HttpClientOptions {
+  baseUrl: string;
+  headers?: Record<string, string>;
+  /** Runs on each response, successful or not, before it is read. */
+  onResponse?: (response: Response, request: Request) => void | Promise<void>;
+}
+
+export interface HttpClient {
+  baseUrl: string;
+  /** fetch() with this client's base URL, headers and hooks; `path` is relative to the base URL. */
+  fetch: (path: string, init?: RequestInit) => Promise<Response>;
+  /** POSTs `body` as JSON and returns the response text; failed statuses throw HttpError. */
+  postJson: (path: string, body: unknown, signal?: AbortSignal) => Promise<string>;
+}
+
+/**
+ * A response with a failed status. The message leads with the status code; `headers` and the raw
+ * `body` stay available for details the message drops, such as how long to wait after a 429.
+ */
+export class HttpError extends Error {
+  constructor(readonly status: number, message: string, readonly headers: Headers, readonly body: string) {
+    super(`${status} ${message}`);
+    this.name = 'HttpError';
+  }
+}
+
+/**
+ * A user-entered address as an absolute URL without trailing slashes, e.g. "api.proxy.com/" → "https://api.proxy.com".
+ */
+export const normalizeBaseUrl = (baseUrl: string): string => {
+  const url = baseUrl.trim().replace(/\/+$/, '');
+  return /^https?:\/\//i.test(url) ? url : `https://${url}`;
+};
+
+// The error an API or proxy put in a failed response: a JSON error message, an HTML page's title or the raw text
+const describeFailureBody = (body: string): string => {
+  try {
+    const message = JSON.parse(body).error?.message;
+    if (message) return message;
+  } catch {
+    if (body.trim().startsWith("<")) {
+      const titleMatch = body.match(/<title>(.*?)<\/title>/i);
+      return `Proxy Error: ${titleMatch ? titleMatch[1] : "Unknown HTML Error (Proxy?)"}`;
+    }
+  }
+  return body.trim().slice(0, 300);
+};
+
+export const createHttpClient = ({ baseUrl, headers = {}, onResponse }: HttpClientOptions): HttpClient => {
+  const root = normalizeBaseUrl(baseUrl);
+
+  const scopedFetch = async (path: string, init: RequestInit = {}): Promise<Response> => {
+    const requestHeaders = new Headers(init.headers);
+    Object.entries(headers).forEach(([name, value]) => {
+      if (!requestHeaders.has(name)) requestHeaders.set(name, value);
+    });
+    const request = new Request(/^https?:\/\//i.test(path) ? path : `${root}${path}`, { ...init, headers: requestHeaders });
+    const response = await fetch(request);
+    await onResponse?.(response, request);
+    return response;
+  };
+
+  return {
+    baseUrl: root,
+    fetch: scopedFetch,
+    postJson: async (path, body, signal) => {
+      const response = await scopedFetch(path, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+        signal,
+      });
+      const text = await response.text();
+      if (!response.ok) throw new HttpError(response.status, describeFailureBody(text), response.headers, text);
+      return text;
+    },
+  };
+};
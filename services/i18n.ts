@@ -0,0 +1,92 @@
+import { createContext, useContext } from "react";
+import { zh } from "../locales/zh";
+import { en } from "../locales/en";
+
+// Interface language and analysis output language. The two are separate settings: a team
+// may work in an English interface while still wanting Chinese (or bilingual) notes.
+
+export type UiLanguage = 'zh' | 'en';
+export type AnalysisLanguage = 'zh' | 'en' | 'bilingual';
+
+export type MessageKey = keyof typeof zh;
+export type MessageParams = Record<string, string | number>;
+export type Translate = (key: MessageKey, params?: MessageParams) => string;
+
+const UI_LANGUAGE_KEY = 'huanxi_ui_language';
+const ANALYSIS_LANGUAGE_KEY = 'huanxi_analysis_language';
+
+const MESSAGES: Record<UiLanguage, Record<MessageKey, string>> = { zh, en };
+
+export const UI_LANGUAGES: UiLanguage[] = ['zh', 'en'];
+export const ANALYSIS_LANGUAGES: AnalysisLanguage[] = ['zh', 'en', 'bilingual'];
+
+// BCP 47 tags for <html lang> and date formatting
+export const LANGUAGE_TAGS: Record<UiLanguage, string> = {
+  zh: 'zh-CN',
+  en: 'en',
+};
+
+/**
+ * A translate function for `language`. Missing keys fall back to Chinese, then to the key.
+ */
+export const createTranslator = (language: UiLanguage): Translate => {
+  const messages = MESSAGES[language];
+  return (key, params) => {
+    const template = messages[key] ?? zh[key] ?? key;
+    if (!params) return template;
+    return template.replace(/\{(\w+)\}/g, (match, name) => params[name] !== undefined ? String(params[name]) : match);
+  };
+};
+
+// Chinese is the default for services called without a translator (e.g. prompt building)
+export const translateZh = createTranslator('zh');
+
+/**
+ * An error meant for the user, thrown by services that have no translator. It carries the
+ * message key so it can be shown in the interface language; `message` is the Chinese text.
+ */
+export class LocalizedError extends Error {
+  constructor(readonly key: MessageKey, readonly params?: MessageParams) {
+    super(translateZh(key, params));
+    this.name = 'LocalizedError';
+  }
+}
+
+/**
+ * An error's message for display, translated when it is a LocalizedError.
+ */
+export const describeError = (error: unknown, t: Translate): string => {
+  if (error instanceof LocalizedError) return t(error.key, error.params);
+  return error instanceof Error ? error.message : String(error);
+};
+
+const isUiLanguage = (value: string | null): value is UiLanguage => UI_LANGUAGES.includes(value as UiLanguage);
+const isAnalysisLanguage = (value: string | null): value is AnalysisLanguage => ANALYSIS_LANGUAGES.includes(value as AnalysisLanguage);
+
+export const loadUiLanguage = (): UiLanguage => {
+  const stored = localStorage.getItem(UI_LANGUAGE_KEY);
+  return isUiLanguage(stored) ? stored : 'zh';
+};
+
+export const saveUiLanguage = (language: UiLanguage) => {
+  localStorage.setItem(UI_LANGUAGE_KEY, language);
+};
+
+/**
+ * Stored analysis output language; until chosen it follows the interface language.
+ */
+export const loadAnalysisLanguage = (uiLanguage: UiLanguage): AnalysisLanguage => {
+  const stored = localStorage.getItem(ANALYSIS_LANGUAGE_KEY);
+  return isAnalysisLanguage(stored) ? stored : uiLanguage;
+};
+
+export const saveAnalysisLanguage = (language: AnalysisLanguage) => {
+  localStorage.setItem(ANALYSIS_LANGUAGE_KEY, language);
+};
+
+export const I18nContext = createContext<{ language: UiLanguage; t: Translate }>({ language: 'zh', t: translateZh });
+
+/**
+ * The current interface language and its translate function.
+ */
+export const useI18n = () => useContext(I18nContext);
@@ -0,0 +1,13 @@
+// Small image helpers shared by the main thread and workers (no DOM element access).
+
+/**
+ * Reads a Blob into a base64 data URI.
+ */
+export const blobToDataUrl = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+};
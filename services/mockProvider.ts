@@ -0,0 +1,134 @@
+import { SceneDescription } from "../types";
+import { AnalysisLanguage, LocalizedError } from "./i18n";
+import { CAMERA_MOVEMENTS, SHOT_SIZES } from "./vocabulary";
+import { delay, scheduleRequest } from "./requestQueue";
+import { AiProvider, readAnalysisResponse } from "./aiProvider";
+
+// Offline stand-in for development and demos: answers every task locally, with results
+// derived from a hash of the input so the same shot always gets the same analysis.
+// Requests still go through the request scheduler, so pausing and cancelling behave as usual.
+
+const MOCK_LANE = 'mock';
+
+const SCENE_SETTINGS: SceneDescription['setting'][] = ['INT', 'EXT', 'INT/EXT'];
+
+// FNV-1a, enough to spread inputs over the vocabularies
+const hashString = (text: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// Frames are hashed by a sample of their payload; whole JPEGs would make every call slow
+const sampleImage = (image: string) => image.length > 4096 ? `${image.length}:${image.slice(-4096)}` : image;
+
+const pick = <T>(values: T[], hash: number, salt: number): T => values[hashString(`${hash}:${salt}`) % values.length];
+
+const inLanguage = (language: AnalysisLanguage, zh: string, en: string) => {
+  if (language === 'en') return en;
+  if (language === 'bilingual') return `${zh}\n${en}`;
+  return zh;
+};
+
+// Stands in for request latency, so progress and pausing can be seen working
+const simulateLatency = (hash: number, signal?: AbortSignal) => delay(300 + hash % 500, signal);
+
+const renderPlaceholderImage = (prompt: string): string => {
+  const hash = hashString(prompt);
+  const canvas = document.createElement('canvas');
+  canvas.width = 1280;
+  canvas.height = 720;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new LocalizedError('error.canvasUnavailable');
+
+  const gradient = ctx.createLinearGradient(0, 0, canvas.width, canvas.height);
+  gradient.addColorStop(0, `hsl(${hash % 360}, 45%, 25%)`);
+  gradient.addColorStop(1, `hsl(${(hash >>> 9) % 360}, 55%, 12%)`);
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.85)';
+  ctx.font = 'bold 40px sans-serif';
+  ctx.fillText('MOCK', 64, 104);
+  ctx.font = '24px sans-serif';
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.6)';
+  // Word-wrapped prompt, cut off after a few lines
+  const lines: string[] = [];
+  let line = '';
+  for (const word of prompt.split(/\s+/)) {
+    if (ctx.measureText(`${line} ${word}`).width > canvas.width - 128) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = line ? `${line} ${word}` : word;
+    }
+  }
+  if (line) lines.push(line);
+  lines.slice(0, 8).forEach((text, index) => ctx.fillText(text, 64, 170 + index * 36));
+
+  return canvas.toDataURL('image/png');
+};
+
+export const mockProvider: AiProvider = {
+  id: 'mock',
+  isConfigured: () => true,
+  analysisModel: () => 'mock',
+
+  analyzeShot: (_settings, request, signal) => scheduleRequest(MOCK_LANE, async () => {
+    const { keyframes, template, language } = request;
+    const hash = hashString(keyframes.map(frame => `${frame.time}|${sampleImage(frame.image)}`).join(';'));
+    await simulateLatency(hash, signal);
+
+    const shotSize = pick(SHOT_SIZES, hash, 1);
+    const cameraMovement = keyframes.length > 1 ? pick(CAMERA_MOVEMENTS, hash, 2) : 'static';
+    const time = keyframes[0]?.time.toFixed(1) ?? '0.0';
+    const custom = Object.fromEntries((template?.fields ?? []).map((field, index) => [field.key,
+      field.type === 'enum' ? pick(field.options ?? [''], hash, 10 + index)
+        : field.type === 'number' ? 10 + hashString(`${hash}:${10 + index}`) % 90
+        : inLanguage(language, `模拟的「${field.label}」内容`, `Mock ${field.label}`),
+    ]));
+
+    return readAnalysisResponse({
+      visualDescription: inLanguage(language, `[模拟] ${time} 秒处的镜头画面描述。`, `[Mock] Description of the shot at ${time}s.`),
+      shotSize,
+      cameraMovement,
+      cameraMovementConfidence: keyframes.length > 1 ? 0.5 + (hash % 50) / 100 : 0.3,
+      cinematographyNotes: '',
+      lightingAndColor: inLanguage(language, '[模拟] 柔和侧光，低饱和度冷调。', '[Mock] Soft side light, desaturated cool tones.'),
+      soundAtmosphere: inLanguage(language, '[模拟] 安静的环境声。', '[Mock] Quiet ambience.'),
+      aiPrompt: `Mock frame at ${time}s, ${shotSize} ${cameraMovement} shot, cinematic lighting, photorealistic, 8k, highly detailed, film grain, shot on 35mm lens, masterpiece`,
+      ...(Object.keys(custom).length > 0 ? { custom } : {}),
+    }, template);
+  }, { priority: request.priority, signal }),
+
+  critiqueFilm: (_settings, digest, language) => scheduleRequest(MOCK_LANE, async () => {
+    await simulateLatency(hashString(digest));
+    const note = (zh: string, en: string) => inLanguage(language, `[模拟] ${zh}`, `[Mock] ${en}`);
+    return {
+      visualStyle: note('视觉风格评析占位文字。', 'Placeholder visual style critique.'),
+      colorArc: note('色彩弧线评析占位文字。', 'Placeholder colour arc critique.'),
+      pacing: note('节奏与剪辑评析占位文字。', 'Placeholder pacing critique.'),
+      overall: note(`根据 ${digest.split('\n').length} 行拉片数据生成的总评占位文字。`, `Placeholder summary from ${digest.split('\n').length} lines of breakdown data.`),
+    };
+  }, { priority: 'user' }),
+
+  describeScene: (_settings, digest, frames, language, priority) => scheduleRequest(MOCK_LANE, async () => {
+    const hash = hashString(`${digest}|${frames.map(sampleImage).join(';')}`);
+    await simulateLatency(hash);
+    return {
+      setting: pick(SCENE_SETTINGS, hash, 1),
+      location: inLanguage(language, `模拟地点 ${hash % 100}`, `Mock location ${hash % 100}`),
+      timeOfDay: inLanguage(language, pick(['日', '夜', '黄昏', '清晨'], hash, 2), pick(['Day', 'Night', 'Dusk', 'Dawn'], hash, 2)),
+      title: inLanguage(language, '模拟场景', 'Mock scene'),
+      synopsis: inLanguage(language, `[模拟] 由 ${frames.length} 张画面生成的场景梗概占位文字。`, `[Mock] Placeholder synopsis from ${frames.length} frames.`),
+    };
+  }, { priority }),
+
+  generateImage: (_settings, prompt) => scheduleRequest(MOCK_LANE, async () => {
+    await simulateLatency(hashString(prompt));
+    return renderPlaceholderImage(prompt);
+  }, { priority: 'user' }),
+};
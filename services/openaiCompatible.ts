@@ -0,0 +1,123 @@
+import { AiSettings } from "../types";
+import { blobToDataUrl } from "./image";
+import { createHttpClient, HttpClient, normalizeBaseUrl } from "./http";
+import { LocalizedError } from "./i18n";
+import { holdLane, isAbortError, scheduleRequest } from "./requestQueue";
+import { AiProvider, buildAnalysisPrompt, buildCritiquePrompt, buildScenePrompt, labelKeyframes, parseJsonResponse, readAnalysisResponse, readCritiqueResponse, readSceneResponse } from "./aiProvider";
+
+// OpenAI-compatible provider: /chat/completions with image_url parts for vision, and
+// /images/generations for concept art. This is the API most third-party proxies speak.
+
+type ContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } };
+
+// Closest to 16:9 that each model family accepts; other models get their default size
+const IMAGE_SIZES: [RegExp, string][] = [
+  [/^dall-e-3/i, '1792x1024'],
+  [/^dall-e-2/i, '1024x1024'],
+  [/^gpt-image/i, '1536x1024'],
+];
+
+/**
+ * The API root the endpoint paths go under, e.g. "api.proxy.com" → "https://api.proxy.com/v1".
+ */
+const withApiVersion = (baseUrl: string) => {
+  // A pasted full endpoint is cut back to the root
+  const url = normalizeBaseUrl(baseUrl).replace(/\/(chat\/completions|images\/generations)$/i, '');
+  return /\/v\d+[a-z]*$/i.test(url) ? url : `${url}/v1`;
+};
+
+// Request lanes, one per model
+const laneFor = (model: string) => `openai/${model}`;
+
+/**
+ * Milliseconds in an x-ratelimit-reset-* duration, e.g. "1s", "6m0s" or "120ms".
+ */
+const parseResetDuration = (value: string): number | null => {
+  const match = value.trim().match(/^(?:(\d+)h)?(?:(\d+)m(?!s))?(?:(\d+(?:\.\d+)?)s)?(?:(\d+)ms)?$/);
+  if (!match || match[0] === '') return null;
+  const [, hours = '0', minutes = '0', seconds = '0', milliseconds = '0'] = match;
+  return ((Number(hours) * 60 + Number(minutes)) * 60 + Number(seconds)) * 1000 + Number(milliseconds);
+};
+
+const createClient = ({ openai }: AiSettings, model: string): HttpClient => createHttpClient({
+  baseUrl: withApiVersion(openai.baseUrl),
+  headers: openai.apiKey ? { Authorization: `Bearer ${openai.apiKey}` } : {},
+  // A used-up request quota holds the lane until it resets, instead of running into 429s
+  onResponse: (response) => {
+    if (response.headers.get('x-ratelimit-remaining-requests') !== '0') return;
+    const reset = parseResetDuration(response.headers.get('x-ratelimit-reset-requests') ?? '');
+    if (reset !== null) holdLane(laneFor(model), reset);
+  },
+});
+
+/**
+ * One user turn to the chat model, answered as a JSON object.
+ */
+const chatForJson = async (settings: AiSettings, content: ContentPart[], label: string, signal?: AbortSignal): Promise<any> => {
+  try {
+    const response = parseJsonResponse(await createClient(settings, settings.openai.chatModel).postJson('/chat/completions', {
+      model: settings.openai.chatModel,
+      messages: [{ role: 'user', content }],
+      response_format: { type: 'json_object' },
+    }, signal));
+    const message = response.choices?.[0]?.message;
+    if (message?.refusal) throw new LocalizedError('error.modelRefused', { reason: message.refusal });
+    return parseJsonResponse(message?.content);
+  } catch (error: any) {
+    if (isAbortError(error)) throw error;
+    console.error(`OpenAI-compatible ${label} Error:`, error);
+    if (error.message) throw error;
+    throw new LocalizedError('error.requestFailed');
+  }
+};
+
+const imagePart = (image: string): ContentPart => ({ type: 'image_url', image_url: { url: image } });
+
+const generateImage = async (settings: AiSettings, prompt: string): Promise<string> => {
+  const model = settings.openai.imageModel;
+  const size = IMAGE_SIZES.find(([pattern]) => pattern.test(model))?.[1];
+  try {
+    const response = parseJsonResponse(await createClient(settings, model).postJson('/images/generations', {
+      model,
+      prompt,
+      n: 1,
+      ...(size ? { size } : {}),
+      // DALL·E returns a link unless asked otherwise; gpt-image models only return base64 and reject the option
+      ...(/^dall-e/i.test(model) ? { response_format: 'b64_json' } : {}),
+    }));
+    const image = response.data?.[0];
+    if (image?.b64_json) return `data:image/png;base64,${image.b64_json}`;
+    // Some proxies only hand out links; the image is stored inline like any other
+    if (image?.url) return blobToDataUrl(await (await fetch(image.url)).blob());
+    throw new LocalizedError('error.noImageInResponse');
+  } catch (error: any) {
+    console.error("OpenAI-compatible Image Generation Error:", error);
+    if (error.message) throw error;
+    throw new LocalizedError('error.imageGeneration');
+  }
+};
+
+export const openAiCompatibleProvider: AiProvider = {
+  id: 'openai',
+  isConfigured: ({ openai }, task) => !!openai.baseUrl.trim() && !!(task === 'image' ? openai.imageModel : openai.chatModel).trim(),
+  analysisModel: ({ openai }) => openai.chatModel,
+
+  analyzeShot: (settings, request, signal) => scheduleRequest(laneFor(settings.openai.chatModel), () => {
+    const labels = labelKeyframes(request.keyframes);
+    const content: ContentPart[] = [
+      ...request.keyframes.flatMap((frame, index): ContentPart[] => [{ type: 'text', text: labels[index] }, imagePart(frame.image)]),
+      { type: 'text', text: buildAnalysisPrompt(request) },
+    ];
+    return chatForJson(settings, content, 'Analysis', signal).then(json => readAnalysisResponse(json, request.template));
+  }, { priority: request.priority, signal }),
+
+  critiqueFilm: (settings, digest, language) => scheduleRequest(laneFor(settings.openai.chatModel), () =>
+    chatForJson(settings, [{ type: 'text', text: buildCritiquePrompt(digest, language) }], 'Critique').then(readCritiqueResponse), { priority: 'user' }),
+
+  describeScene: (settings, digest, frames, language, priority) => scheduleRequest(laneFor(settings.openai.chatModel), () =>
+    chatForJson(settings, [...frames.map(imagePart), { type: 'text', text: buildScenePrompt(digest, frames.length, language) }], 'Scene').then(readSceneResponse), { priority }),
+
+  generateImage: (settings, prompt) => scheduleRequest(laneFor(settings.openai.imageModel), () => generateImage(settings, prompt), { priority: 'user' }),
+};
@@ -0,0 +1,191 @@
+import { ColorPalette, Shot } from "../types";
+import { LocalizedError, Translate, translateZh } from "./i18n";
+
+// Dominant-colour extraction (k-means over a downscaled frame) and the film-wide colour script.
+
+// Width the frame is scaled to before clustering; ~3k pixels is plenty for a palette
+const SAMPLE_WIDTH = 64;
+const PALETTE_SIZE = 5;
+const MAX_ITERATIONS = 12;
+
+const loadImage = (src: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+  const image = new Image();
+  image.onload = () => resolve(image);
+  image.onerror = () => reject(new LocalizedError('error.readShotImage'));
+  image.src = src;
+});
+
+const toHex = (rgb: number[]) => '#' + rgb.map(v => Math.round(v).toString(16).padStart(2, '0')).join('');
+
+const squaredDistance = (pixels: Uint8ClampedArray, i: number, centroid: number[]) => {
+  const dr = pixels[i] - centroid[0];
+  const dg = pixels[i + 1] - centroid[1];
+  const db = pixels[i + 2] - centroid[2];
+  return dr * dr + dg * dg + db * db;
+};
+
+/**
+ * Deterministic k-means++ style seeding: start from the pixel nearest the mean colour,
+ * then repeatedly take the pixel farthest from every chosen centroid.
+ */
+const seedCentroids = (pixels: Uint8ClampedArray, k: number): number[][] => {
+  const count = pixels.length / 4;
+  const mean = [0, 0, 0];
+  for (let i = 0; i < pixels.length; i += 4) {
+    mean[0] += pixels[i] / count;
+    mean[1] += pixels[i + 1] / count;
+    mean[2] += pixels[i + 2] / count;
+  }
+
+  const centroids = [mean];
+  const nearest = new Float64Array(count).fill(Infinity);
+  while (centroids.length < k) {
+    let farthest = -1;
+    let farthestDistance = 0;
+    const latest = centroids[centroids.length - 1];
+    for (let p = 0; p < count; p++) {
+      nearest[p] = Math.min(nearest[p], squaredDistance(pixels, p * 4, latest));
+      if (nearest[p] > farthestDistance) {
+        farthestDistance = nearest[p];
+        farthest = p;
+      }
+    }
+    if (farthest === -1) break; // Fewer distinct colours than k
+    centroids.push([pixels[farthest * 4], pixels[farthest * 4 + 1], pixels[farthest * 4 + 2]]);
+  }
+  return centroids;
+};
+
+/**
+ * Clusters RGBA pixels into at most `k` colours. Returns centroids with their pixel share,
+ * largest first.
+ */
+const clusterColors = (pixels: Uint8ClampedArray, k: number): { rgb: number[]; share: number }[] => {
+  const count = pixels.length / 4;
+  const centroids = seedCentroids(pixels, k);
+  const assignment = new Uint8Array(count);
+  let sizes: number[] = [];
+
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    let moved = false;
+    for (let p = 0; p < count; p++) {
+      let best = 0;
+      let bestDistance = Infinity;
+      for (let c = 0; c < centroids.length; c++) {
+        const distance = squaredDistance(pixels, p * 4, centroids[c]);
+        if (distance < bestDistance) {
+          bestDistance = distance;
+          best = c;
+        }
+      }
+      if (assignment[p] !== best) moved = true;
+      assignment[p] = best;
+    }
+
+    const sums = centroids.map(() => [0, 0, 0]);
+    sizes = centroids.map(() => 0);
+    for (let p = 0; p < count; p++) {
+      const c = assignment[p];
+      sums[c][0] += pixels[p * 4];
+      sums[c][1] += pixels[p * 4 + 1];
+      sums[c][2] += pixels[p * 4 + 2];
+      sizes[c]++;
+    }
+    centroids.forEach((centroid, c) => {
+      if (sizes[c] > 0) {
+        centroid[0] = sums[c][0] / sizes[c];
+        centroid[1] = sums[c][1] / sizes[c];
+        centroid[2] = sums[c][2] / sizes[c];
+      }
+    });
+
+    if (!moved && iteration > 0) break;
+  }
+
+  return centroids
+    .map((rgb, c) => ({ rgb, share: sizes[c] / count }))
+    .filter(cluster => cluster.share > 0)
+    .sort((a, b) => b.share - a.share);
+};
+
+/**
+ * Computes a shot's dominant palette, mean luminance and mean saturation from its frame.
+ */
+export const extractPalette = async (imageDataUrl: string): Promise<ColorPalette> => {
+  const image = await loadImage(imageDataUrl);
+  const canvas = document.createElement('canvas');
+  canvas.width = SAMPLE_WIDTH;
+  canvas.height = Math.max(1, Math.round((image.naturalHeight / image.naturalWidth) * SAMPLE_WIDTH));
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new LocalizedError('error.canvasUnavailable');
+  ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+  const pixels = ctx.getImageData(0, 0, canvas.width, canvas.height).data;
+
+  let luminance = 0;
+  let saturation = 0;
+  const count = pixels.length / 4;
+  for (let i = 0; i < pixels.length; i += 4) {
+    const r = pixels[i] / 255;
+    const g = pixels[i + 1] / 255;
+    const b = pixels[i + 2] / 255;
+    luminance += 0.2126 * r + 0.7152 * g + 0.0722 * b;
+    // HSL saturation
+    const max = Math.max(r, g, b);
+    const min = Math.min(r, g, b);
+    const lightness = (max + min) / 2;
+    saturation += max === min ? 0 : (max - min) / (1 - Math.abs(2 * lightness - 1));
+  }
+
+  return {
+    swatches: clusterColors(pixels, PALETTE_SIZE).map(({ rgb, share }) => ({
+      hex: toHex(rgb),
+      share: Math.round(share * 100) / 100,
+    })),
+    luminance: Math.round((luminance / count) * 100) / 100,
+    saturation: Math.round((saturation / count) * 100) / 100,
+  };
+};
+
+/**
+ * Swatches as plain text, e.g. "#1a2b3c 42% · #ddeeff 30%", for exports.
+ */
+export const describePalette = (palette: ColorPalette, t: Translate = translateZh): string => {
+  const swatches = palette.swatches.map(s => `${s.hex} ${Math.round(s.share * 100)}%`).join(' · ');
+  return t('palette.summary', {
+    swatches,
+    luminance: Math.round(palette.luminance * 100),
+    saturation: Math.round(palette.saturation * 100),
+  });
+};
+
+/**
+ * Renders the colour script (a "movie barcode") as a PNG data URI: one column per shot in
+ * time order, as wide as the shot is long, with its swatches stacked by share.
+ * Returns null when no shot has a palette yet.
+ */
+export const renderColorScript = (shots: Shot[], width = 1200, height = 120): string | null => {
+  const withPalette = shots.filter(s => s.palette && s.palette.swatches.length > 0);
+  if (withPalette.length === 0) return null;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+
+  const totalDuration = withPalette.reduce((sum, s) => sum + Math.max(s.duration, 0.1), 0);
+  let x = 0;
+  for (const shot of withPalette) {
+    const columnWidth = (Math.max(shot.duration, 0.1) / totalDuration) * width;
+    let y = 0;
+    for (const swatch of shot.palette!.swatches) {
+      const swatchHeight = swatch.share * height;
+      ctx.fillStyle = swatch.hex;
+      // Overdraw by a pixel so rounding never leaves hairline gaps
+      ctx.fillRect(Math.floor(x), Math.floor(y), Math.ceil(columnWidth) + 1, Math.ceil(swatchHeight) + 1);
+      y += swatchHeight;
+    }
+    x += columnWidth;
+  }
+  return canvas.toDataURL('image/png');
+};
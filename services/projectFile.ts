@@ -0,0 +1,185 @@
+import JSZip from "jszip";
+import FileSaver from "file-saver";
+import { FilmCritique, Keyframe, Scene, Shot } from "../types";
+import { SessionSource } from "./sessionStore";
+import { normalizeShotVocabulary } from "./vocabulary";
+import { LocalizedError, Translate, translateZh } from "./i18n";
+
+// Portable project files: a zip with manifest.json plus every frame as an image file.
+
+export const PROJECT_FILE_EXTENSION = '.lapian';
+const PROJECT_FORMAT = 'huanxi-lapian';
+const MANIFEST_PATH = 'manifest.json';
+
+// Bump when the manifest or ShotAnalysis changes shape, and add a migration below
+export const PROJECT_SCHEMA_VERSION = 2;
+
+// In the manifest, image fields hold paths inside the zip instead of data URIs
+type ManifestShot = Omit<Shot, 'originalImage' | 'keyframes' | 'generatedImage'> & {
+  originalImage: string;
+  keyframes?: Keyframe[];
+  generatedImage?: string;
+};
+
+interface ProjectManifest {
+  format: typeof PROJECT_FORMAT;
+  schemaVersion: number;
+  exportedAt: string; // ISO timestamp
+  source: SessionSource | null;
+  shots: ManifestShot[];
+  critique?: FilmCritique | null;
+  scenes?: Scene[];
+}
+
+export interface Project {
+  source: SessionSource | null;
+  shots: Shot[];
+  critique?: FilmCritique | null;
+  scenes?: Scene[];
+}
+
+/**
+ * Upgrades a manifest from `schemaVersion` to `schemaVersion + 1`, keyed by the old version.
+ */
+const MIGRATIONS: Record<number, (manifest: any) => any> = {
+  // v2: shot size and camera movement use the controlled vocabulary
+  1: manifest => ({ ...manifest, shots: manifest.shots.map(normalizeShotVocabulary) }),
+};
+
+const migrateManifest = (manifest: any): ProjectManifest => {
+  if (manifest?.format !== PROJECT_FORMAT || typeof manifest.schemaVersion !== 'number') {
+    throw new LocalizedError('error.notProjectFile');
+  }
+  if (manifest.schemaVersion > PROJECT_SCHEMA_VERSION) {
+    throw new LocalizedError('error.projectFileTooNew', { version: manifest.schemaVersion, supported: PROJECT_SCHEMA_VERSION });
+  }
+
+  let current = manifest;
+  while (current.schemaVersion < PROJECT_SCHEMA_VERSION) {
+    const migrate = MIGRATIONS[current.schemaVersion];
+    if (!migrate) throw new LocalizedError('error.projectFileMigration', { version: current.schemaVersion });
+    current = { ...migrate(current), schemaVersion: current.schemaVersion + 1 };
+  }
+  return current as ProjectManifest;
+};
+
+const MIME_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+};
+
+const splitDataUrl = (dataUrl: string) => {
+  const match = dataUrl.match(/^data:([^;]+);base64,(.*)$/);
+  if (!match) throw new LocalizedError('error.unknownImageData');
+  return { mimeType: match[1], base64: match[2] };
+};
+
+const mimeTypeForPath = (path: string) => {
+  const extension = path.split('.').pop()?.toLowerCase();
+  return Object.keys(MIME_EXTENSIONS).find(mime => MIME_EXTENSIONS[mime] === extension) ?? 'image/jpeg';
+};
+
+/**
+ * Packs shots, source metadata, the film critique and scene descriptions into a project zip.
+ */
+export const createProjectFile = async (
+  source: SessionSource | null,
+  shots: Shot[],
+  critique: FilmCritique | null = null,
+  scenes: Scene[] = []
+): Promise<Blob> => {
+  const zip = new JSZip();
+  // The same frame is often both originalImage and the first keyframe; store it once
+  const paths = new Map<string, string>();
+
+  const addImage = (dataUrl: string, name: string) => {
+    const existing = paths.get(dataUrl);
+    if (existing) return existing;
+    const { mimeType, base64 } = splitDataUrl(dataUrl);
+    const path = `images/${name}.${MIME_EXTENSIONS[mimeType] ?? 'jpg'}`;
+    // Frames are already compressed, deflating them again only costs time
+    zip.file(path, base64, { base64: true, compression: 'STORE' });
+    paths.set(dataUrl, path);
+    return path;
+  };
+
+  const manifest: ProjectManifest = {
+    format: PROJECT_FORMAT,
+    schemaVersion: PROJECT_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    source,
+    critique,
+    scenes,
+    shots: shots.map((shot, index) => {
+      const prefix = String(index + 1).padStart(4, '0');
+      return {
+        ...shot,
+        originalImage: addImage(shot.originalImage, `${prefix}-original`),
+        keyframes: shot.keyframes?.map((frame, i) => ({ time: frame.time, image: addImage(frame.image, `${prefix}-keyframe-${i + 1}`) })),
+        generatedImage: shot.generatedImage ? addImage(shot.generatedImage, `${prefix}-generated`) : undefined,
+      };
+    }),
+  };
+
+  zip.file(MANIFEST_PATH, JSON.stringify(manifest, null, 2));
+  return zip.generateAsync({ type: 'blob', compression: 'DEFLATE', compressionOptions: { level: 6 } });
+};
+
+/**
+ * Reads a project zip back into shots, source metadata, critique and scenes, migrating older schema versions.
+ */
+export const readProjectFile = async (file: Blob): Promise<Project> => {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(file);
+  } catch {
+    throw new LocalizedError('error.notProjectFile');
+  }
+
+  const manifestFile = zip.file(MANIFEST_PATH);
+  if (!manifestFile) throw new LocalizedError('error.projectFileNoManifest');
+  const manifest = migrateManifest(JSON.parse(await manifestFile.async('string')));
+
+  const images = new Map<string, string>();
+  const loadImage = async (path: string) => {
+    const cached = images.get(path);
+    if (cached) return cached;
+    const entry = zip.file(path);
+    if (!entry) throw new LocalizedError('error.projectFileMissingImage', { path });
+    const dataUrl = `data:${mimeTypeForPath(path)};base64,${await entry.async('base64')}`;
+    images.set(path, dataUrl);
+    return dataUrl;
+  };
+
+  const shots: Shot[] = [];
+  for (const shot of manifest.shots) {
+    const keyframes = shot.keyframes
+      ? await Promise.all(shot.keyframes.map(async frame => ({ time: frame.time, image: await loadImage(frame.image) })))
+      : undefined;
+    shots.push({
+      ...shot,
+      originalImage: await loadImage(shot.originalImage),
+      keyframes,
+      generatedImage: shot.generatedImage ? await loadImage(shot.generatedImage) : undefined,
+    });
+  }
+
+  return { source: manifest.source, shots, critique: manifest.critique ?? null, scenes: manifest.scenes ?? [] };
+};
+
+/**
+ * Exports the current breakdown as a downloadable project file.
+ */
+export const exportProjectFile = async (
+  source: SessionSource | null,
+  shots: Shot[],
+  critique: FilmCritique | null = null,
+  scenes: Scene[] = [],
+  t: Translate = translateZh
+) => {
+  if (shots.length === 0) return;
+  const blob = await createProjectFile(source, shots, critique, scenes);
+  const baseName = source?.fileName.replace(/\.[^.]+$/, '') || t('project.defaultFileName');
+  FileSaver.saveAs(blob, `${baseName}${PROJECT_FILE_EXTENSION}`);
+};
@@ -0,0 +1,350 @@
+// Request scheduling shared by every AI provider. Each model gets a lane of its own, so a
+// burst of image generation never waits behind queued analyses. A lane finds its own pace:
+// concurrency grows while responses come back quickly, halves on a 429, and the lane holds
+// off for as long as the server asks (Retry-After, quota headers).
+
+import { HttpError } from "./http";
+import { LocalizedError } from "./i18n";
+
+/**
+ * 'user' requests were started by a click and go ahead of queued 'background' batch work.
+ */
+export type RequestPriority = 'user' | 'background';
+
+export interface LaneStatus {
+  lane: string; // Provider and model, e.g. "gemini/gemini-2.5-flash"
+  waiting: number; // Queued or waiting to retry
+  active: number;
+  concurrency: number; // Requests the lane currently allows at once
+  backoffUntil: number | null; // ms timestamp while holding off after a rate limit
+}
+
+interface QueuedRequest {
+  run: () => Promise<any>;
+  priority: RequestPriority;
+  signal?: AbortSignal;
+  attempts: number;
+  resolve: (value: any) => void;
+  reject: (reason?: any) => void;
+}
+
+const INITIAL_CONCURRENCY = 2;
+const MIN_CONCURRENCY = 1;
+const MAX_CONCURRENCY = 6;
+// A finished request's slot is reused only after this recovery window
+const SLOT_COOLDOWN_MS = 800;
+const RATE_LIMIT_ATTEMPTS = 6;
+const SERVER_ERROR_ATTEMPTS = 3;
+const BASE_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 60_000;
+// A response this much slower than the lane's running average counts as congestion
+const SLOW_RESPONSE_FACTOR = 2.5;
+
+/**
+ * The error a cancelled request rejects with. Named like the DOMException fetch throws on abort,
+ * so isAbortError recognises both.
+ */
+export const createAbortError = (): Error => {
+  const error = new LocalizedError('error.cancelled');
+  error.name = 'AbortError';
+  return error;
+};
+
+/**
+ * True for the error a cancelled request rejects with, which is not a failure to report.
+ */
+export const isAbortError = (error: unknown): boolean => (error as { name?: string } | null)?.name === "AbortError";
+
+// Every provider goes through the HTTP transport, whose HttpError carries the status
+const getErrorStatus = (error: unknown): number | undefined => {
+  const status = (error as { status?: unknown } | null)?.status;
+  return typeof status === 'number' ? status : undefined;
+};
+
+export const isRateLimitError = (error: unknown): boolean => getErrorStatus(error) === 429;
+
+const isServerError = (error: unknown): boolean => [500, 502, 503, 504].includes(getErrorStatus(error) ?? 0);
+
+/**
+ * Milliseconds a Retry-After / Retry-After-Ms header asks to wait, or null without one.
+ */
+export const parseRetryAfter = (headers: Headers): number | null => {
+  const milliseconds = Number(headers.get('retry-after-ms') ?? NaN);
+  if (Number.isFinite(milliseconds)) return milliseconds;
+  const value = headers.get('retry-after')?.trim();
+  if (!value) return null;
+  // Either delta-seconds or an HTTP date
+  if (/^\d+(\.\d+)?$/.test(value)) return parseFloat(value) * 1000;
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+};
+
+// How long a rate-limited response asked to wait: its headers, or the RetryInfo detail Gemini
+// puts in the error body ("retryDelay": "37s")
+const getRetryAfterMs = (error: unknown): number | null => {
+  if (!(error instanceof HttpError)) return null;
+  const fromHeaders = parseRetryAfter(error.headers);
+  if (fromHeaders !== null) return fromHeaders;
+  const match = error.body.match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/);
+  return match ? parseFloat(match[1]) * 1000 : null;
+};
+
+/**
+ * Utility: Wait for a specified duration (ms), cut short by `signal`
+ */
+export const delay = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(createAbortError());
+    return;
+  }
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(createAbortError());
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * One model's queue. Concurrency rises by about one per round of quick successes, drops by
+ * one on a slow response and halves on a rate limit.
+ */
+class Lane {
+  private queue: QueuedRequest[] = [];
+  private retrying = 0; // Requests sitting out a server-error backoff
+  private active = 0;
+  private limit = INITIAL_CONCURRENCY;
+  private backoffUntil = 0;
+  private backoffTimer: ReturnType<typeof setTimeout> | null = null;
+  private rateLimitStreak = 0;
+  private averageLatency: number | null = null;
+
+  constructor(readonly name: string, private readonly scheduler: RequestScheduler) {}
+
+  add(item: QueuedRequest) {
+    this.queue.push(item);
+    this.pump();
+  }
+
+  remove(item: QueuedRequest) {
+    this.queue = this.queue.filter(queued => queued !== item);
+  }
+
+  /**
+   * Starts nothing new for `ms`, e.g. when quota headers say the limit is used up.
+   */
+  holdFor(ms: number) {
+    this.backoffUntil = Math.max(this.backoffUntil, Date.now() + ms);
+  }
+
+  pump() {
+    const wait = this.backoffUntil - Date.now();
+    if (wait > 0) {
+      if (!this.backoffTimer) {
+        this.backoffTimer = setTimeout(() => {
+          this.backoffTimer = null;
+          this.pump();
+          this.scheduler.notify();
+        }, wait);
+      }
+      return;
+    }
+
+    // While paused only 'user' requests start; batch work waits for resume
+    const paused = this.scheduler.isPaused();
+    while (this.active < Math.floor(this.limit) && this.queue.length > 0) {
+      const userIndex = this.queue.findIndex(queued => queued.priority === 'user');
+      if (paused && userIndex < 0) break;
+      const [item] = this.queue.splice(Math.max(0, userIndex), 1);
+      this.start(item);
+    }
+  }
+
+  status(now = Date.now()): LaneStatus {
+    return {
+      lane: this.name,
+      waiting: this.queue.length + this.retrying,
+      active: this.active,
+      concurrency: Math.floor(this.limit),
+      backoffUntil: this.backoffUntil > now ? this.backoffUntil : null,
+    };
+  }
+
+  private async start(item: QueuedRequest) {
+    this.active++;
+    this.scheduler.notify();
+    const startedAt = Date.now();
+
+    try {
+      const result = await item.run();
+      this.recordSuccess(Date.now() - startedAt);
+      item.resolve(result);
+    } catch (error) {
+      this.recordFailure(item, error);
+    } finally {
+      setTimeout(() => {
+        this.active--;
+        this.pump();
+        this.scheduler.notify();
+      }, SLOT_COOLDOWN_MS);
+    }
+  }
+
+  private recordSuccess(latency: number) {
+    this.rateLimitStreak = 0;
+    const average = this.averageLatency;
+    this.averageLatency = average === null ? latency : average * 0.8 + latency * 0.2;
+    if (average !== null && latency > average * SLOW_RESPONSE_FACTOR) {
+      this.limit = Math.max(MIN_CONCURRENCY, this.limit - 1);
+    } else {
+      this.limit = Math.min(MAX_CONCURRENCY, this.limit + 1 / Math.floor(this.limit));
+    }
+  }
+
+  private recordFailure(item: QueuedRequest, error: unknown) {
+    if (item.signal?.aborted || isAbortError(error)) {
+      item.reject(createAbortError());
+      return;
+    }
+    item.attempts++;
+
+    if (isRateLimitError(error)) {
+      // The whole lane waits: every request to this model would meet the same limit
+      this.rateLimitStreak++;
+      this.limit = Math.max(MIN_CONCURRENCY, Math.floor(this.limit / 2));
+      const wait = getRetryAfterMs(error) ?? Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** (this.rateLimitStreak - 1));
+      this.holdFor(wait);
+      if (item.attempts < RATE_LIMIT_ATTEMPTS) {
+        console.warn(`[${this.name}] Rate limited (429). Holding the lane for ${Math.round(wait)}ms... (Attempt ${item.attempts}/${RATE_LIMIT_ATTEMPTS})`);
+        this.queue.unshift(item);
+        return;
+      }
+    } else if (isServerError(error) && item.attempts < SERVER_ERROR_ATTEMPTS) {
+      // Only this request backs off; the rest of the lane carries on
+      const wait = BASE_BACKOFF_MS * 2 ** (item.attempts - 1);
+      console.warn(`[${this.name}] Server error. Retrying in ${wait}ms... (Attempt ${item.attempts}/${SERVER_ERROR_ATTEMPTS})`);
+      this.retrying++;
+      setTimeout(() => {
+        this.retrying--;
+        if (!item.signal?.aborted) this.queue.unshift(item);
+        this.pump();
+        this.scheduler.notify();
+      }, wait);
+      return;
+    }
+
+    // Other errors (e.g. 400 Bad Request, auth errors) are not retried
+    item.reject(error);
+  }
+}
+
+class RequestScheduler {
+  private lanes = new Map<string, Lane>();
+  private listeners = new Set<() => void>();
+  private paused = false;
+
+  schedule<T>(laneName: string, run: () => Promise<T>, priority: RequestPriority, signal?: AbortSignal): Promise<T> {
+    const lane = this.getLane(laneName);
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(createAbortError());
+        return;
+      }
+      // Cancelling drops a waiting request; one in flight is stopped by `signal` in `run`
+      const onAbort = () => {
+        lane.remove(item);
+        reject(createAbortError());
+        this.notify();
+      };
+      const item: QueuedRequest = {
+        run,
+        priority,
+        signal,
+        attempts: 0,
+        resolve: (value: any) => { signal?.removeEventListener('abort', onAbort); resolve(value); },
+        reject: (reason?: any) => { signal?.removeEventListener('abort', onAbort); reject(reason); },
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      lane.add(item);
+      this.notify();
+    });
+  }
+
+  holdLane(laneName: string, ms: number) {
+    this.getLane(laneName).holdFor(ms);
+    this.notify();
+  }
+
+  isPaused() {
+    return this.paused;
+  }
+
+  pause() {
+    this.paused = true;
+    this.notify();
+  }
+
+  resume() {
+    this.paused = false;
+    this.lanes.forEach(lane => lane.pump());
+    this.notify();
+  }
+
+  status(): LaneStatus[] {
+    const now = Date.now();
+    return Array.from(this.lanes.values(), lane => lane.status(now));
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  notify() {
+    this.listeners.forEach(listener => listener());
+  }
+
+  private getLane(name: string): Lane {
+    let lane = this.lanes.get(name);
+    if (!lane) {
+      lane = new Lane(name, this);
+      this.lanes.set(name, lane);
+    }
+    return lane;
+  }
+}
+
+const scheduler = new RequestScheduler();
+
+/**
+ * Runs `run` on the lane of its model, retrying rate limits and server errors. Aborting
+ * `signal` drops the request while it waits; `run` should pass it on to stop one in flight.
+ */
+export const scheduleRequest = <T>(
+  lane: string,
+  run: () => Promise<T>,
+  { priority = 'background', signal }: { priority?: RequestPriority; signal?: AbortSignal } = {}
+): Promise<T> => scheduler.schedule(lane, run, priority, signal);
+
+/**
+ * Holds a lane for `ms`, for quota metadata seen on a successful response.
+ */
+export const holdLane = (lane: string, ms: number) => scheduler.holdLane(lane, ms);
+
+/**
+ * Pauses batch work: no new 'background' request starts until resumed, while 'user' requests
+ * still run. Requests already sent still complete.
+ */
+export const pauseApiQueue = () => scheduler.pause();
+
+export const resumeApiQueue = () => scheduler.resume();
+
+export const getQueueStatus = (): LaneStatus[] => scheduler.status();
+
+/**
+ * Calls `listener` whenever a lane's queue, activity or backoff changes. Returns the unsubscribe.
+ */
+export const subscribeQueueStatus = (listener: () => void) => scheduler.subscribe(listener);
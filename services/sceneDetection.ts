@@ -0,0 +1,319 @@
+import { ExtractedShot, ExtractionSettings, Keyframe } from "../types";
+
+// Shot-boundary detection based on colour histogram differences between densely sampled frames.
+
+// Bins per RGB channel. 16 is coarse enough to ignore noise/compression, fine enough to see a cut.
+const BINS_PER_CHANNEL = 16;
+
+// Size of the downscaled probe frame used for histograms (keeps per-sample cost tiny).
+export const PROBE_WIDTH = 64;
+export const PROBE_HEIGHT = 36;
+
+// Default sensitivity: fraction of the histogram mass that has to move between two samples.
+export const DEFAULT_CUT_THRESHOLD = 0.35;
+
+// Cuts closer together than this are treated as flashes / flicker rather than new shots.
+export const MIN_SHOT_SECONDS = 0.5;
+
+// dHash grid: each row compares 9 luminance cells left to right, giving 8 x 8 = 64 bits.
+const HASH_COLUMNS = 9;
+const HASH_ROWS = 8;
+export const HASH_BITS = (HASH_COLUMNS - 1) * HASH_ROWS;
+
+// Default for near-duplicate folding: frames whose hashes differ in at most this many bits.
+export const DEFAULT_DEDUPE_THRESHOLD = 6;
+
+// Cheap per-sample measurements taken from the downscaled probe frame.
+export interface FrameProbe {
+  histogram: Float32Array;
+  hash: Uint8Array; // One 0/1 entry per dHash bit
+}
+
+/**
+ * Builds a normalized per-channel RGB histogram from raw RGBA pixel data.
+ */
+export const computeHistogram = (pixels: Uint8ClampedArray): Float32Array => {
+  const histogram = new Float32Array(BINS_PER_CHANNEL * 3);
+  const shift = 8 - Math.log2(BINS_PER_CHANNEL);
+  const pixelCount = pixels.length / 4;
+  if (pixelCount === 0) return histogram;
+
+  for (let i = 0; i < pixels.length; i += 4) {
+    histogram[pixels[i] >> shift]++;
+    histogram[BINS_PER_CHANNEL + (pixels[i + 1] >> shift)]++;
+    histogram[BINS_PER_CHANNEL * 2 + (pixels[i + 2] >> shift)]++;
+  }
+
+  for (let i = 0; i < histogram.length; i++) {
+    histogram[i] /= pixelCount;
+  }
+  return histogram;
+};
+
+/**
+ * Distance between two histograms in [0, 1] (0 = identical, 1 = no overlap in any channel).
+ */
+export const histogramDistance = (a: Float32Array, b: Float32Array): number => {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += Math.abs(a[i] - b[i]);
+  }
+  // Each channel's L1 distance is at most 2.
+  return sum / 6;
+};
+
+/**
+ * Difference hash (dHash) of a probe frame: the image is averaged down to a 9x8 luminance
+ * grid and each bit records whether a cell is brighter than its right-hand neighbour.
+ * Robust to compression noise and small exposure changes, sensitive to structural change.
+ */
+export const computeDHash = (pixels: Uint8ClampedArray, width: number, height: number): Uint8Array => {
+  const cells = new Float32Array(HASH_COLUMNS * HASH_ROWS);
+  const counts = new Uint16Array(HASH_COLUMNS * HASH_ROWS);
+
+  for (let y = 0; y < height; y++) {
+    const row = Math.min(HASH_ROWS - 1, Math.floor((y * HASH_ROWS) / height));
+    for (let x = 0; x < width; x++) {
+      const column = Math.min(HASH_COLUMNS - 1, Math.floor((x * HASH_COLUMNS) / width));
+      const i = (y * width + x) * 4;
+      const cell = row * HASH_COLUMNS + column;
+      cells[cell] += 0.299 * pixels[i] + 0.587 * pixels[i + 1] + 0.114 * pixels[i + 2];
+      counts[cell]++;
+    }
+  }
+
+  const hash = new Uint8Array(HASH_BITS);
+  for (let row = 0; row < HASH_ROWS; row++) {
+    for (let column = 0; column < HASH_COLUMNS - 1; column++) {
+      const left = row * HASH_COLUMNS + column;
+      const leftLuma = cells[left] / Math.max(1, counts[left]);
+      const rightLuma = cells[left + 1] / Math.max(1, counts[left + 1]);
+      hash[row * (HASH_COLUMNS - 1) + column] = leftLuma > rightLuma ? 1 : 0;
+    }
+  }
+  return hash;
+};
+
+/**
+ * Hamming distance between two hashes, in bits.
+ */
+export const hashDistance = (a: Uint8Array, b: Uint8Array): number => {
+  let bits = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) bits++;
+  }
+  return bits;
+};
+
+/**
+ * Histogram and hash of a PROBE_WIDTH x PROBE_HEIGHT RGBA frame.
+ */
+export const probeFrame = (pixels: Uint8ClampedArray): FrameProbe => ({
+  histogram: computeHistogram(pixels),
+  hash: computeDHash(pixels, PROBE_WIDTH, PROBE_HEIGHT),
+});
+
+/**
+ * Decides whether consecutive samples belong to the same shot.
+ * Feed it samples in time order; it remembers the last accepted histogram.
+ */
+export class ShotBoundaryDetector {
+  private previous: Float32Array | null = null;
+  private lastCutTime = -Infinity;
+  private threshold: number;
+  private minShotSeconds: number;
+
+  constructor(threshold: number = DEFAULT_CUT_THRESHOLD, minShotSeconds: number = MIN_SHOT_SECONDS) {
+    this.threshold = threshold;
+    this.minShotSeconds = minShotSeconds;
+  }
+
+  /** Histogram of the most recent sample, i.e. the last frame of the current shot. */
+  get reference(): Float32Array | null {
+    return this.previous;
+  }
+
+  /**
+   * Returns true when `histogram` at `time` starts a new shot.
+   * The very first sample always starts a shot.
+   */
+  isCut(histogram: Float32Array, time: number): boolean {
+    const previous = this.previous;
+    this.previous = histogram;
+
+    if (!previous) {
+      this.lastCutTime = time;
+      return true;
+    }
+
+    if (time - this.lastCutTime < this.minShotSeconds) {
+      return false;
+    }
+
+    if (histogramDistance(previous, histogram) >= this.threshold) {
+      this.lastCutTime = time;
+      return true;
+    }
+    return false;
+  }
+
+  /** Moves the recorded cut time after the caller has refined it. */
+  setCutTime(time: number) {
+    this.lastCutTime = time;
+  }
+}
+
+// Samples kept per open shot for keyframe picking; older ones are thinned out beyond this
+const MAX_BUFFERED_SAMPLES = 16;
+
+// A sample of the open shot, held unencoded until the shot closes and its keyframes are picked
+interface BufferedSample {
+  time: number;
+  snapshot: ImageBitmap;
+}
+
+/**
+ * Reduces a time-ordered frame list to start / middle / end keyframes.
+ */
+export const pickKeyframes = <T extends { time: number }>(frames: T[]): T[] => {
+  if (frames.length <= 3) return frames;
+
+  const first = frames[0];
+  const last = frames[frames.length - 1];
+  const midTime = (first.time + last.time) / 2;
+  const inner = frames.slice(1, -1);
+  const middle = inner.reduce((best, frame) =>
+    Math.abs(frame.time - midTime) < Math.abs(best.time - midTime) ? frame : best
+  );
+  return [first, middle, last];
+};
+
+/**
+ * Turns a time-ordered stream of samples into shots and emits each shot as soon as
+ * its end is known (i.e. when the next shot starts). Shared by the worker and the
+ * main-thread fallback so both produce identical results. Samples are buffered as
+ * snapshots and only the three picked keyframes of a shot are encoded.
+ */
+export class ShotCollector {
+  private detector: ShotBoundaryDetector;
+  private settings: ExtractionSettings;
+  private emit: (shot: ExtractedShot) => void;
+  private encode: (snapshot: ImageBitmap) => Promise<string>;
+  private pending: { time: number; samples: BufferedSample[]; mergedFrames: number } | null = null;
+  private previousTime: number;
+  private previousHash: Uint8Array | null = null;
+  private count = 0;
+
+  /** True once the frame cap has been reached; callers should stop sampling. */
+  done = false;
+
+  /**
+   * @param encode Encodes a snapshot taken by `addSample`'s capture at output size.
+   */
+  constructor(settings: ExtractionSettings, emit: (shot: ExtractedShot) => void, encode: (snapshot: ImageBitmap) => Promise<string>) {
+    this.settings = settings;
+    this.emit = emit;
+    this.encode = encode;
+    this.detector = new ShotBoundaryDetector(settings.cutThreshold);
+    this.previousTime = settings.startTime;
+  }
+
+  /**
+   * @param probe Probe measurements of the sample; null when neither cut detection nor
+   *   near-duplicate folding is on.
+   * @param capture Snapshots the current sample at output size; every sample is a keyframe candidate.
+   * @param locateCut Narrows a cut down to a time between the previous sample and this one.
+   */
+  async addSample(
+    time: number,
+    probe: FrameProbe | null,
+    capture: () => Promise<ImageBitmap>,
+    locateCut: (reference: Float32Array, from: number, to: number) => Promise<number>
+  ): Promise<void> {
+    if (this.done) return;
+
+    const reference = this.detector.reference;
+    const isShotStart = this.settings.detectScenes && probe
+      ? this.detector.isCut(probe.histogram, time)
+      : true;
+
+    // A shot start that looks the same as the previous sample is folded into the open shot
+    const previousHash = this.previousHash;
+    this.previousHash = probe?.hash ?? null;
+    if (isShotStart && this.pending && this.settings.dedupeFrames && probe && previousHash
+      && hashDistance(previousHash, probe.hash) <= this.settings.dedupeThreshold) {
+      this.pending.mergedFrames++;
+      this.bufferSample(time, await capture());
+      this.previousTime = time;
+      return;
+    }
+
+    if (!isShotStart) {
+      if (this.pending) this.bufferSample(time, await capture());
+      this.previousTime = time;
+      return;
+    }
+
+    // Frame cap reached: this boundary closes the last shot instead of opening a new one
+    const snapshot = this.count < this.settings.maxFrames ? await capture() : null;
+
+    let start = time;
+    if (this.settings.detectScenes && reference) {
+      start = await locateCut(reference, this.previousTime, time);
+      this.detector.setCutTime(start);
+    }
+    start = Math.round(start * 100) / 100;
+
+    await this.closePending(start);
+
+    if (snapshot === null) {
+      this.done = true;
+    } else {
+      this.pending = { time: start, samples: [{ time: Math.round(time * 100) / 100, snapshot }], mergedFrames: 0 };
+      this.count++;
+    }
+
+    this.previousTime = time;
+  }
+
+  /** Emits the last open shot, ending it at `endTime`. */
+  finish(endTime: number): Promise<void> {
+    return this.closePending(endTime);
+  }
+
+  private bufferSample(time: number, snapshot: ImageBitmap) {
+    const samples = this.pending!.samples;
+    samples.push({ time: Math.round(time * 100) / 100, snapshot });
+    if (samples.length > MAX_BUFFERED_SAMPLES) {
+      // Keep the first and last sample, drop every other one in between
+      const kept = samples.filter((_, i) => i === 0 || i === samples.length - 1 || i % 2 === 0);
+      samples.forEach(sample => { if (!kept.includes(sample)) sample.snapshot.close(); });
+      this.pending!.samples = kept;
+    }
+  }
+
+  private async closePending(endTime: number) {
+    if (!this.pending) return;
+    const { time, samples, mergedFrames } = this.pending;
+    this.pending = null;
+    // Rounded like the start, so consecutive shots butt up exactly: start + duration = next start
+    const end = Math.round(endTime * 100) / 100;
+
+    const picked = pickKeyframes(samples);
+    try {
+      const keyframes: Keyframe[] = [];
+      for (const sample of picked) {
+        keyframes.push({ time: sample.time, image: await this.encode(sample.snapshot) });
+      }
+      this.emit({
+        time,
+        duration: Math.round((end - time) * 100) / 100, // Clears float noise from the subtraction
+        image: keyframes[0].image,
+        keyframes,
+        mergedFrames,
+      });
+    } finally {
+      samples.forEach(sample => sample.snapshot.close());
+    }
+  }
+}
@@ -0,0 +1,242 @@
+import { Scene, SceneDescription, Shot } from "../types";
+import { probeFrame, histogramDistance, hashDistance, FrameProbe, HASH_BITS, PROBE_WIDTH, PROBE_HEIGHT } from "./sceneDetection";
+import { getEffectiveAnalysis } from "./analysisEdits";
+import { formatDialogue } from "./subtitles";
+import { formatShotSize } from "./vocabulary";
+import { LocalizedError } from "./i18n";
+
+// Scene grouping: consecutive shots are linked when they look alike (frame histogram and
+// structure), share a palette, or are described in similar words. Scene membership is stored
+// on the shots themselves, so undo/redo and shot edits carry it along.
+
+// Dissimilarity above which two shots are taken to belong to different scenes
+export const DEFAULT_SCENE_THRESHOLD = 0.5;
+
+// How many preceding shots a shot may link back to, so shot / reverse-shot cutting and
+// brief cutaways stay in one scene
+const LOOKBACK_SHOTS = 4;
+
+// Relative weight of each signal; missing signals (no palette, not analysed) are left out
+const SIGNAL_WEIGHTS = { visual: 0.4, color: 0.3, text: 0.3 };
+
+// Bigram overlap of two descriptions of the same scene is typically 0.15 - 0.35
+const TEXT_OVERLAP_SCALE = 3;
+
+interface ShotFeatures {
+  probe: FrameProbe | null;
+  text: Set<string> | null;
+}
+
+export interface SceneGroup {
+  sceneId?: string; // Undefined for shots added after scenes were detected
+  startIndex: number; // Index of the first shot in the full list
+  shots: Shot[];
+}
+
+export const createSceneId = () => `scene-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+const loadImage = (src: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+  const image = new Image();
+  image.onload = () => resolve(image);
+  image.onerror = () => reject(new LocalizedError('error.readShotImage'));
+  image.src = src;
+});
+
+// Character bigrams work for both Chinese and English text without a tokenizer
+const textBigrams = (text: string): Set<string> => {
+  const normalized = text.toLowerCase().replace(/[\s\p{P}]+/gu, ' ');
+  const bigrams = new Set<string>();
+  for (let i = 0; i < normalized.length - 1; i++) {
+    const bigram = normalized.slice(i, i + 2);
+    if (bigram.trim().length === 2) bigrams.add(bigram);
+  }
+  return bigrams;
+};
+
+const measureShot = async (shot: Shot, canvas: HTMLCanvasElement, ctx: CanvasRenderingContext2D): Promise<ShotFeatures> => {
+  const analysis = getEffectiveAnalysis(shot);
+  const text = analysis ? textBigrams(`${analysis.visualDescription} ${analysis.lightingAndColor}`) : null;
+  try {
+    const image = await loadImage(shot.originalImage);
+    ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+    const pixels = ctx.getImageData(0, 0, canvas.width, canvas.height).data;
+    return { probe: probeFrame(pixels), text };
+  } catch (error) {
+    console.warn("Could not read shot frame for scene detection:", error);
+    return { probe: null, text };
+  }
+};
+
+/**
+ * Palette distance in [0, 1]: each swatch's distance to the nearest swatch of the other
+ * palette, weighted by its share, plus the difference in brightness.
+ */
+const paletteDistance = (a: Shot['palette'], b: Shot['palette']): number | null => {
+  if (!a || !b || a.swatches.length === 0 || b.swatches.length === 0) return null;
+  const rgb = (hex: string) => [1, 3, 5].map(i => parseInt(hex.slice(i, i + 2), 16));
+  const nearest = (from: typeof a, to: typeof b) => from.swatches.reduce((sum, swatch) => {
+    const [r, g, bl] = rgb(swatch.hex);
+    const closest = Math.min(...to.swatches.map(other => {
+      const [r2, g2, b2] = rgb(other.hex);
+      return Math.hypot(r - r2, g - g2, bl - b2) / 441.7;
+    }));
+    return sum + closest * swatch.share;
+  }, 0) / Math.max(from.swatches.reduce((sum, s) => sum + s.share, 0), 0.01);
+  const swatchDistance = (nearest(a, b) + nearest(b, a)) / 2;
+  return Math.min(1, 0.7 * swatchDistance + 0.3 * Math.abs(a.luminance - b.luminance) * 2);
+};
+
+const shotDistance = (a: Shot, b: Shot, fa: ShotFeatures, fb: ShotFeatures): number => {
+  const signals: { weight: number; distance: number }[] = [];
+  if (fa.probe && fb.probe) {
+    const visual = 0.6 * histogramDistance(fa.probe.histogram, fb.probe.histogram) + 0.4 * hashDistance(fa.probe.hash, fb.probe.hash) / HASH_BITS;
+    signals.push({ weight: SIGNAL_WEIGHTS.visual, distance: visual });
+  }
+  const color = paletteDistance(a.palette, b.palette);
+  if (color !== null) signals.push({ weight: SIGNAL_WEIGHTS.color, distance: color });
+  if (fa.text && fb.text && fa.text.size > 0 && fb.text.size > 0) {
+    let shared = 0;
+    fa.text.forEach(bigram => { if (fb.text!.has(bigram)) shared++; });
+    const overlap = shared / (fa.text.size + fb.text.size - shared);
+    signals.push({ weight: SIGNAL_WEIGHTS.text, distance: 1 - Math.min(1, overlap * TEXT_OVERLAP_SCALE) });
+  }
+  if (signals.length === 0) return 0;
+  const totalWeight = signals.reduce((sum, s) => sum + s.weight, 0);
+  return signals.reduce((sum, s) => sum + s.weight * s.distance, 0) / totalWeight;
+};
+
+/**
+ * Ids of the shots that open a new scene (the first shot always does). A shot opens a scene
+ * when neither it nor the shot after it resembles any of the last few shots before it.
+ */
+export const detectSceneStarts = async (shots: Shot[], threshold = DEFAULT_SCENE_THRESHOLD): Promise<string[]> => {
+  if (shots.length === 0) return [];
+  const canvas = document.createElement('canvas');
+  canvas.width = PROBE_WIDTH;
+  canvas.height = PROBE_HEIGHT;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new LocalizedError('error.canvasUnavailable');
+
+  const features: ShotFeatures[] = [];
+  for (const shot of shots) {
+    features.push(await measureShot(shot, canvas, ctx));
+  }
+
+  const linksBack = (index: number, boundary: number, sceneStart: number) => {
+    for (let j = Math.max(sceneStart, boundary - LOOKBACK_SHOTS); j < boundary; j++) {
+      if (shotDistance(shots[index], shots[j], features[index], features[j]) <= threshold) return true;
+    }
+    return false;
+  };
+
+  const starts = [shots[0].id];
+  let sceneStart = 0;
+  for (let i = 1; i < shots.length; i++) {
+    const isBreak = !linksBack(i, i, sceneStart) && (i === shots.length - 1 || !linksBack(i + 1, i, sceneStart));
+    if (isBreak) {
+      starts.push(shots[i].id);
+      sceneStart = i;
+    }
+  }
+  return starts;
+};
+
+/**
+ * Assigns scene ids from a map of scene-opening shot id to scene id. Shots before the first
+ * opener (e.g. added since detection started) join the first scene.
+ */
+export const applySceneStarts = (shots: Shot[], starts: Map<string, string>): Shot[] => {
+  let current = starts.get(shots[0]?.id) ?? starts.values().next().value;
+  return shots.map(shot => {
+    current = starts.get(shot.id) ?? current;
+    return shot.sceneId === current ? shot : { ...shot, sceneId: current };
+  });
+};
+
+/**
+ * Consecutive runs of shots with the same scene id, in list order.
+ */
+export const groupShotsByScene = (shots: Shot[]): SceneGroup[] => {
+  const groups: SceneGroup[] = [];
+  shots.forEach((shot, index) => {
+    const last = groups[groups.length - 1];
+    if (last && last.sceneId === shot.sceneId) {
+      last.shots.push(shot);
+    } else {
+      groups.push({ sceneId: shot.sceneId, startIndex: index, shots: [shot] });
+    }
+  });
+  return groups;
+};
+
+export const hasScenes = (shots: Shot[]) => shots.some(shot => shot.sceneId !== undefined);
+
+/**
+ * Starts a new scene at `shotId`: it and the rest of its scene move to `newSceneId`.
+ */
+export const startSceneAt = (shots: Shot[], shotId: string, newSceneId: string): Shot[] => {
+  const index = shots.findIndex(s => s.id === shotId);
+  if (index <= 0) return shots;
+  const sceneId = shots[index].sceneId;
+  let end = index;
+  while (end < shots.length && shots[end].sceneId === sceneId) end++;
+  return shots.map((shot, i) => i >= index && i < end ? { ...shot, sceneId: newSceneId } : shot);
+};
+
+/**
+ * Folds the run of shots starting with `shotId` into the scene before it.
+ */
+export const mergeSceneWithPrevious = (shots: Shot[], shotId: string): Shot[] => {
+  const index = shots.findIndex(s => s.id === shotId);
+  if (index <= 0) return shots;
+  const { sceneId } = shots[index];
+  const previousSceneId = shots[index - 1].sceneId;
+  let end = index;
+  while (end < shots.length && shots[end].sceneId === sceneId) end++;
+  return shots.map((shot, i) => i >= index && i < end ? { ...shot, sceneId: previousSceneId } : shot);
+};
+
+/**
+ * Whether the scene's shots changed since its description was written.
+ */
+export const isSceneDescriptionStale = (scene: Scene | undefined, shots: Shot[]): boolean => {
+  if (!scene?.description || !scene.describedShotIds) return false;
+  return scene.describedShotIds.length !== shots.length || shots.some((shot, i) => shot.id !== scene.describedShotIds![i]);
+};
+
+/**
+ * Screenplay slugline, e.g. "INT. 咖啡馆 - 夜".
+ */
+export const formatSceneHeading = (description: SceneDescription): string => {
+  return `${description.setting}. ${description.location} - ${description.timeOfDay}`;
+};
+
+const formatTimecode = (seconds: number) => {
+  const m = Math.floor(seconds / 60);
+  const s = (seconds % 60).toFixed(1);
+  return `${m.toString().padStart(2, '0')}:${s.padStart(4, '0')}`;
+};
+
+/**
+ * Prompt text for a scene description: one line per shot with its analysis and dialogue.
+ */
+export const describeSceneForPrompt = (shots: Shot[]): string => {
+  return shots.map((shot, index) => {
+    const analysis = getEffectiveAnalysis(shot);
+    const dialogue = shot.dialogue && shot.dialogue.length > 0
+      ? ` | 对白：${formatDialogue(shot.dialogue).replace(/\n/g, ' / ')}`
+      : '';
+    const details = analysis
+      ? `${formatShotSize(analysis.shotSize)} | ${analysis.visualDescription} | ${analysis.lightingAndColor}`
+      : '(未分析)';
+    return `${index + 1}. [${formatTimecode(shot.timestamp)}, ${shot.duration.toFixed(1)}秒] ${details}${dialogue}`;
+  }).join('\n');
+};
+
+/**
+ * Up to `count` frames spread across the scene, for the model to see the location.
+ */
+export const pickSceneFrames = (shots: Shot[], count = 3): string[] => {
+  if (shots.length <= count) return shots.map(s => s.originalImage);
+  return Array.from({ length: count }, (_, i) => shots[Math.round((i * (shots.length - 1)) / (count - 1))].originalImage);
+};
@@ -0,0 +1,214 @@
+import { ExtractionSettings, FilmCritique, Scene, Shot, SubtitleCue } from "../types";
+import { normalizeShotVocabulary } from "./vocabulary";
+import { Translate, translateZh } from "./i18n";
+
+// Session persistence in IndexedDB, so a refresh or a crashed tab doesn't lose paid analyses.
+// Every breakdown is its own record; together they make up the project library.
+
+const DB_NAME = 'huanxi-lapian';
+const DB_VERSION = 1;
+const SESSION_STORE = 'sessions';
+
+// What we know about the source video. The file itself is not stored (it can be gigabytes),
+// so a restored session has to be re-linked to it for playback and frame-accurate edits.
+export interface SessionSource {
+  fileName: string;
+  fileSize: number;
+  lastModified: number;
+  duration: number; // Full length of the video in seconds
+  settings: ExtractionSettings;
+  subtitles?: SubtitleCue[];
+}
+
+export interface StoredSession {
+  id: string;
+  title: string;
+  createdAt: number; // ms since epoch
+  savedAt: number; // ms since epoch
+  source: SessionSource | null;
+  shots: Shot[];
+  critique?: FilmCritique | null; // Whole-film critique, once written
+  scenes?: Scene[]; // Scene descriptions, once scenes were detected
+}
+
+// Library listing entry; leaves the (large) shot data out
+export interface SessionSummary {
+  id: string;
+  title: string;
+  createdAt: number;
+  savedAt: number;
+  thumbnail: string | null; // First shot's frame
+  shotCount: number;
+  completedCount: number;
+  failedCount: number;
+}
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error("IndexedDB not available"));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(SESSION_STORE, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a later retry if opening failed (e.g. private mode)
+    databasePromise.catch(() => { databasePromise = null; });
+  }
+  return databasePromise;
+};
+
+/**
+ * Runs one request against the session store and resolves with its result.
+ */
+const runRequest = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(SESSION_STORE, mode);
+    const request = action(transaction.objectStore(SESSION_STORE));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+export const createSessionSource = (
+  file: File,
+  settings: ExtractionSettings,
+  duration: number,
+  subtitles?: SubtitleCue[]
+): SessionSource => ({
+  fileName: file.name,
+  fileSize: file.size,
+  lastModified: file.lastModified,
+  duration,
+  settings,
+  subtitles,
+});
+
+export const createSessionId = () => `project-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Default project title: the video's file name without its extension.
+ */
+export const titleFromFileName = (fileName: string, t: Translate = translateZh) => fileName.replace(/\.[^.]+$/, '') || t('project.untitled');
+
+// Records saved before the library existed have no title or creation date
+const normalizeSession = (session: StoredSession, t: Translate): StoredSession => ({
+  ...session,
+  title: session.title || titleFromFileName(session.source?.fileName ?? '', t),
+  createdAt: session.createdAt ?? session.savedAt,
+});
+
+/**
+ * Writes (creates or overwrites) a session, stamping it with the save time.
+ */
+export const saveSession = async (session: Omit<StoredSession, 'savedAt'>): Promise<StoredSession> => {
+  const stored: StoredSession = { ...session, savedAt: Date.now() };
+  await runRequest('readwrite', store => store.put(stored));
+  return stored;
+};
+
+/**
+ * A saved session by id, or null when it doesn't exist (or IndexedDB is unavailable).
+ */
+export const loadSession = async (id: string, t: Translate = translateZh): Promise<StoredSession | null> => {
+  try {
+    const session = await runRequest<StoredSession | undefined>('readonly', store => store.get(id));
+    return session ? normalizeSession(session, t) : null;
+  } catch (error) {
+    console.warn("Could not read saved session:", error);
+    return null;
+  }
+};
+
+/**
+ * Summaries of every saved session, most recently saved first.
+ * Walks a cursor so only one full record is held in memory at a time.
+ */
+export const listSessions = async (t: Translate = translateZh): Promise<SessionSummary[]> => {
+  try {
+    const db = await openDatabase();
+    return await new Promise((resolve, reject) => {
+      const summaries: SessionSummary[] = [];
+      const transaction = db.transaction(SESSION_STORE, 'readonly');
+      const request = transaction.objectStore(SESSION_STORE).openCursor();
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) return;
+        const session = normalizeSession(cursor.value as StoredSession, t);
+        summaries.push({
+          id: session.id,
+          title: session.title,
+          createdAt: session.createdAt,
+          savedAt: session.savedAt,
+          thumbnail: session.shots[0]?.originalImage ?? null,
+          shotCount: session.shots.length,
+          completedCount: session.shots.filter(s => s.status === 'completed').length,
+          failedCount: session.shots.filter(s => s.status === 'failed').length,
+        });
+        cursor.continue();
+      };
+      transaction.oncomplete = () => resolve(summaries.sort((a, b) => b.savedAt - a.savedAt));
+      transaction.onerror = () => reject(transaction.error);
+    });
+  } catch (error) {
+    console.warn("Could not list saved sessions:", error);
+    return [];
+  }
+};
+
+/**
+ * The most recently saved non-empty session, offered for restore on start-up.
+ */
+export const loadLatestSession = async (t: Translate = translateZh): Promise<StoredSession | null> => {
+  const latest = (await listSessions(t)).find(summary => summary.shotCount > 0);
+  return latest ? loadSession(latest.id, t) : null;
+};
+
+export const renameSession = async (id: string, title: string): Promise<void> => {
+  const session = await loadSession(id);
+  if (!session) return;
+  // Keeps savedAt: renaming isn't new work
+  await runRequest('readwrite', store => store.put({ ...session, title }));
+};
+
+/**
+ * Copies a session under a new id and returns the copy.
+ */
+export const duplicateSession = async (id: string, t: Translate = translateZh): Promise<StoredSession | null> => {
+  const session = await loadSession(id, t);
+  if (!session) return null;
+  return saveSession({ ...session, id: createSessionId(), title: t('project.copyTitle', { title: session.title }), createdAt: Date.now() });
+};
+
+export const deleteSession = async (id: string): Promise<void> => {
+  await runRequest('readwrite', store => store.delete(id));
+};
+
+/**
+ * Shots as they should come back after a restore: work that was in flight when the
+ * page went away never finished, so it returns to pending to be resumed. Analyses saved
+ * before the controlled vocabulary existed are mapped onto it.
+ */
+export const prepareRestoredShots = (shots: Shot[]): Shot[] => {
+  return shots.map(normalizeShotVocabulary).map(shot => ({
+    ...shot,
+    status: shot.status === 'analyzing' ? 'pending' : shot.status,
+    isGeneratingImage: false,
+  }));
+};
+
+/**
+ * True when `file` looks like the video the session was made from.
+ */
+export const matchesSessionSource = (source: SessionSource, file: File): boolean => {
+  return file.name === source.fileName && file.size === source.fileSize;
+};
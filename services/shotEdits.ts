@@ -0,0 +1,124 @@
+import { Keyframe, Shot } from "../types";
+import { pickKeyframes } from "./sceneDetection";
+
+// Shortest shot an edit may produce (seconds)
+export const MIN_SHOT_DURATION = 0.2;
+
+const roundTime = (seconds: number) => Math.round(seconds * 100) / 100;
+
+const shotEnd = (shot: Shot) => shot.timestamp + shot.duration;
+
+/**
+ * Frames to analyze for a shot. Shots from older runs only have `originalImage`.
+ */
+export const getShotKeyframes = (shot: Pick<Shot, 'timestamp' | 'originalImage' | 'keyframes'>): Keyframe[] => {
+  return shot.keyframes && shot.keyframes.length > 0
+    ? shot.keyframes
+    : [{ time: shot.timestamp, image: shot.originalImage }];
+};
+
+/**
+ * Splits `shotId` at `time` into two shots. The second half becomes `newShot`
+ * (its timing is filled in here) and starts out pending analysis.
+ * Returns the list unchanged when `time` is not safely inside the shot.
+ */
+export const splitShot = (
+  shots: Shot[],
+  shotId: string,
+  time: number,
+  newShot: Pick<Shot, 'id' | 'originalImage' | 'keyframes'>
+): Shot[] => {
+  const index = shots.findIndex(s => s.id === shotId);
+  if (index === -1) return shots;
+
+  const shot = shots[index];
+  const end = shotEnd(shot);
+  if (time < shot.timestamp + MIN_SHOT_DURATION || time > end - MIN_SHOT_DURATION) return shots;
+
+  const splitTime = roundTime(time);
+  const first: Shot = {
+    ...shot,
+    duration: roundTime(splitTime - shot.timestamp),
+    keyframes: getShotKeyframes(shot).filter(k => k.time < splitTime),
+  };
+  const second: Shot = {
+    id: newShot.id,
+    originalImage: newShot.originalImage,
+    keyframes: newShot.keyframes,
+    timestamp: splitTime,
+    duration: roundTime(end - splitTime),
+    status: 'pending',
+    isGeneratingImage: false,
+    sceneId: shot.sceneId,
+  };
+
+  return [...shots.slice(0, index), first, second, ...shots.slice(index + 1)];
+};
+
+/**
+ * Merges `shotId` with the shot that follows it. The merged shot keeps the first
+ * shot's frame and spans until the second one ends. With `keepAnalysis` the first
+ * shot's analysis survives, otherwise the merged shot is reset to pending.
+ */
+export const mergeWithNext = (shots: Shot[], shotId: string, keepAnalysis: boolean): Shot[] => {
+  const index = shots.findIndex(s => s.id === shotId);
+  if (index === -1 || index === shots.length - 1) return shots;
+
+  const shot = shots[index];
+  const next = shots[index + 1];
+  const merged: Shot = {
+    ...shot,
+    duration: roundTime(shotEnd(next) - shot.timestamp),
+    keyframes: pickKeyframes([...getShotKeyframes(shot), ...getShotKeyframes(next)]),
+    mergedFrames: (shot.mergedFrames ?? 0) + (next.mergedFrames ?? 0),
+    ...(keepAnalysis ? {} : {
+      status: 'pending' as const,
+      analysis: undefined,
+      error: undefined,
+      generatedImage: undefined,
+      imageGenError: undefined,
+    }),
+  };
+
+  return [...shots.slice(0, index), merged, ...shots.slice(index + 2)];
+};
+
+/**
+ * Valid range for a shot's start time: after the previous shot's minimum length,
+ * before its own end minus the minimum length.
+ */
+export const getStartTimeBounds = (shots: Shot[], shotId: string): { min: number; max: number } | null => {
+  const index = shots.findIndex(s => s.id === shotId);
+  if (index === -1) return null;
+
+  const shot = shots[index];
+  const previous = shots[index - 1];
+  return {
+    min: previous ? roundTime(previous.timestamp + MIN_SHOT_DURATION) : 0,
+    max: roundTime(shotEnd(shot) - MIN_SHOT_DURATION),
+  };
+};
+
+/**
+ * Moves the start of `shotId` to `newStart` while keeping its end fixed.
+ * The previous shot grows or shrinks so the two stay back to back.
+ */
+export const retimeShot = (shots: Shot[], shotId: string, newStart: number): Shot[] => {
+  const bounds = getStartTimeBounds(shots, shotId);
+  if (!bounds) return shots;
+
+  const index = shots.findIndex(s => s.id === shotId);
+  const shot = shots[index];
+  const start = roundTime(Math.min(bounds.max, Math.max(bounds.min, newStart)));
+  const end = shotEnd(shot);
+
+  return shots.map((s, i) => {
+    if (i === index) {
+      return { ...s, timestamp: start, duration: roundTime(end - start) };
+    }
+    if (i === index - 1) {
+      return { ...s, duration: roundTime(start - s.timestamp) };
+    }
+    return s;
+  });
+};
@@ -0,0 +1,147 @@
+import { Shot, SubtitleCue } from "../types";
+import { LocalizedError } from "./i18n";
+
+// Parsers for SRT, WebVTT and ASS/SSA subtitle files, plus shot alignment.
+
+export const SUBTITLE_ACCEPT = '.srt,.vtt,.ass,.ssa';
+
+/**
+ * "01:02:03,456" / "02:03.456" / "1:02:03.45" → seconds. Returns NaN for malformed input.
+ */
+const parseTimestamp = (value: string): number => {
+  const match = value.trim().match(/^(?:(\d+):)?(\d{1,2}):(\d{1,2})(?:[.,](\d{1,3}))?$/);
+  if (!match) return NaN;
+  const [, hours, minutes, seconds, fraction] = match;
+  return (Number(hours) || 0) * 3600
+    + Number(minutes) * 60
+    + Number(seconds)
+    + (fraction ? Number(fraction) / Math.pow(10, fraction.length) : 0);
+};
+
+// Inline formatting such as <i>, <font …> or <v Speaker> carries no dialogue
+const stripMarkupTags = (text: string) => text.replace(/<[^>]+>/g, '').replace(/\{\\[^}]*\}/g, '');
+
+/**
+ * SRT and WebVTT share the "start --> end" block structure.
+ */
+const parseBlockFormat = (content: string): SubtitleCue[] => {
+  const cues: SubtitleCue[] = [];
+  const blocks = content.replace(/\r\n?/g, '\n').split(/\n{2,}/);
+
+  for (const block of blocks) {
+    const lines = block.split('\n').filter(line => line.trim() !== '');
+    const timeIndex = lines.findIndex(line => line.includes('-->'));
+    if (timeIndex === -1) continue; // WEBVTT header, NOTE, STYLE, REGION …
+
+    const [startPart, endPart] = lines[timeIndex].split('-->');
+    const start = parseTimestamp(startPart);
+    // WebVTT cue settings ("align:start …") follow the end time
+    const end = parseTimestamp(endPart.trim().split(/\s+/)[0]);
+    if (Number.isNaN(start) || Number.isNaN(end)) continue;
+
+    const voice = lines.slice(timeIndex + 1).join('\n').match(/^<v(?:\.[^\s>]+)?\s+([^>]+)>/);
+    const text = stripMarkupTags(lines.slice(timeIndex + 1).join('\n')).trim();
+    if (!text) continue;
+
+    cues.push({ start, end, text, ...(voice ? { speaker: voice[1].trim() } : {}) });
+  }
+  return cues;
+};
+
+/**
+ * ASS/SSA: "Dialogue:" lines in [Events], with columns named by the "Format:" line.
+ */
+const parseAss = (content: string): SubtitleCue[] => {
+  const cues: SubtitleCue[] = [];
+  let format: string[] = ['layer', 'start', 'end', 'style', 'name', 'marginl', 'marginr', 'marginv', 'effect', 'text'];
+  let inEvents = false;
+
+  for (const rawLine of content.replace(/\r\n?/g, '\n').split('\n')) {
+    const line = rawLine.trim();
+    if (line.startsWith('[')) {
+      inEvents = line.toLowerCase() === '[events]';
+      continue;
+    }
+    if (!inEvents) continue;
+
+    if (line.toLowerCase().startsWith('format:')) {
+      format = line.slice('format:'.length).split(',').map(field => field.trim().toLowerCase());
+      continue;
+    }
+    if (!line.toLowerCase().startsWith('dialogue:')) continue;
+
+    // The text column is last and may itself contain commas
+    const fields = line.slice('dialogue:'.length).split(',');
+    const values = [...fields.slice(0, format.length - 1), fields.slice(format.length - 1).join(',')].map(v => v.trim());
+    const field = (name: string) => values[format.indexOf(name)] ?? '';
+
+    const start = parseTimestamp(field('start'));
+    const end = parseTimestamp(field('end'));
+    const text = stripMarkupTags(field('text'))
+      .replace(/\\N/gi, '\n')
+      .replace(/\\h/g, ' ')
+      .trim();
+    if (Number.isNaN(start) || Number.isNaN(end) || !text) continue;
+
+    const speaker = field('name');
+    cues.push({ start, end, text, ...(speaker ? { speaker } : {}) });
+  }
+  return cues;
+};
+
+/**
+ * Parses subtitle file content; the format is taken from the file name when known,
+ * otherwise sniffed from the content. Cues come back sorted by start time.
+ */
+export const parseSubtitles = (content: string, fileName = ''): SubtitleCue[] => {
+  const text = content.replace(/^﻿/, '');
+  const isAss = /\.(ass|ssa)$/i.test(fileName) || /^\s*\[Script Info\]/i.test(text);
+  const cues = isAss ? parseAss(text) : parseBlockFormat(text);
+  return cues.sort((a, b) => a.start - b.start);
+};
+
+/**
+ * Reads a subtitle file. Tries UTF-8 first and falls back to GB18030, which covers
+ * the GBK-encoded Chinese subtitles that are still common.
+ */
+export const readSubtitleFile = async (file: File): Promise<SubtitleCue[]> => {
+  const buffer = await file.arrayBuffer();
+  let content: string;
+  try {
+    content = new TextDecoder('utf-8', { fatal: true }).decode(buffer);
+  } catch {
+    content = new TextDecoder('gb18030').decode(buffer);
+  }
+
+  const cues = parseSubtitles(content, file.name);
+  if (cues.length === 0) throw new LocalizedError('error.subtitleParse');
+  return cues;
+};
+
+/**
+ * Cues overlapping the shot range [start, start + duration).
+ */
+export const cuesForShot = (cues: SubtitleCue[], start: number, duration: number): SubtitleCue[] => {
+  const end = start + duration;
+  return cues.filter(cue => cue.start < end && cue.end > start);
+};
+
+/**
+ * Dialogue as plain lines ("Speaker: text"), for exports and the analysis prompt.
+ */
+export const formatDialogue = (cues: SubtitleCue[]): string => {
+  return cues
+    .map(cue => `${cue.speaker ? `${cue.speaker}: ` : ''}${cue.text.replace(/\n/g, ' ')}`)
+    .join('\n');
+};
+
+/**
+ * Re-aligns dialogue for shots that an edit replaced or re-timed (i.e. objects not present in `before`).
+ */
+export const realignChangedShots = (cues: SubtitleCue[] | undefined, before: Shot[], after: Shot[]): Shot[] => {
+  if (!cues) return after;
+  const unchanged = new Set(before);
+  return after.map(shot => unchanged.has(shot)
+    ? shot
+    : { ...shot, dialogue: cuesForShot(cues, shot.timestamp, shot.duration) });
+};
@@ -0,0 +1,206 @@
+import { AnalysisTemplate, CustomFieldValue, ShotAnalysis, StandardAnalysisField, StandardFieldSetting, TemplateField } from "../types";
+import { MessageKey, Translate, translateZh } from "./i18n";
+
+// Analysis templates: which fields of the standard breakdown to analyse and what to call them,
+// plus extra fields analysed on top of it.
+
+const STORAGE_KEY = 'huanxi_analysis_templates';
+const ACTIVE_STORAGE_KEY = 'huanxi_analysis_template_id';
+
+export const DEFAULT_TEMPLATE_ID = 'standard';
+
+/**
+ * Templates shipped with the app, with names, labels and instructions in the interface language.
+ */
+export const getBuiltInTemplates = (t: Translate = translateZh): AnalysisTemplate[] => {
+  const field = (key: string, type: TemplateField['type'], extra: Partial<TemplateField> = {}): TemplateField => ({
+    key,
+    type,
+    label: t(`builtIn.${key}.label` as MessageKey),
+    instruction: t(`builtIn.${key}.instruction` as MessageKey),
+    ...(type === 'enum' ? { options: t(`builtIn.${key}.options` as MessageKey).split(',') } : {}),
+    ...extra,
+  });
+  const template = (id: string, fields: TemplateField[]): AnalysisTemplate => ({
+    id,
+    name: t(`builtIn.${id}.name` as MessageKey),
+    description: t(`builtIn.${id}.description` as MessageKey),
+    fields,
+    builtIn: true,
+  });
+
+  return [
+    template(DEFAULT_TEMPLATE_ID, []),
+    template('cinematography', [
+      field('composition', 'text'),
+      field('cameraAngle', 'enum'),
+      field('focalLength', 'number', { unit: 'mm' }),
+    ]),
+    template('performance', [
+      field('blocking', 'text'),
+      field('emotion', 'enum'),
+      field('performanceNotes', 'text'),
+    ]),
+    template('continuity', [
+      field('props', 'text'),
+      field('wardrobe', 'text'),
+      field('continuityNotes', 'text'),
+    ]),
+  ];
+};
+
+/**
+ * The standard fields in the order they are asked for and shown.
+ */
+export const STANDARD_ANALYSIS_FIELDS: StandardAnalysisField[] = ['visualDescription', 'shotSize', 'cameraMovement', 'lightingAndColor', 'soundAtmosphere', 'aiPrompt'];
+
+const STANDARD_FIELD_LABELS: Record<StandardAnalysisField, MessageKey> = {
+  visualDescription: 'shot.visualDescription',
+  shotSize: 'shot.shotSize',
+  cameraMovement: 'shot.cameraMovement',
+  lightingAndColor: 'shot.lightingAndColor',
+  soundAtmosphere: 'shot.sound',
+  aiPrompt: 'shot.aiPrompt',
+};
+
+// Answers that only make sense next to a standard field
+const COMPANION_PROPERTIES: Partial<Record<StandardAnalysisField, (keyof ShotAnalysis)[]>> = {
+  shotSize: ['cinematographyNotes'],
+  cameraMovement: ['cameraMovementConfidence', 'cinematographyNotes'],
+};
+
+/**
+ * The standard fields a template, or an analysis made with one, covers, in the standard order.
+ */
+export const getStandardFields = (source?: { standardFields?: StandardFieldSetting[] }): StandardFieldSetting[] => {
+  const settings = source?.standardFields;
+  if (!settings) return STANDARD_ANALYSIS_FIELDS.map(field => ({ field }));
+  return STANDARD_ANALYSIS_FIELDS.flatMap(field => settings.filter(setting => setting.field === field));
+};
+
+export const hasStandardField = (source: { standardFields?: StandardFieldSetting[] } | undefined, field: StandardAnalysisField): boolean => {
+  return getStandardFields(source).some(setting => setting.field === field);
+};
+
+/**
+ * A standard field's label: the template's own, or the built-in one in the interface language.
+ */
+export const getStandardFieldLabel = (setting: StandardFieldSetting, t: Translate = translateZh): string => {
+  return setting.label || t(STANDARD_FIELD_LABELS[setting.field]);
+};
+
+/**
+ * The ShotAnalysis properties a template asks the model for: its standard fields, plus the
+ * movement confidence and camera notes that go with shot size and camera movement.
+ */
+export const getAnalysisProperties = (template?: AnalysisTemplate): (keyof ShotAnalysis)[] => {
+  return [...new Set(getStandardFields(template).flatMap(({ field }) => [field, ...(COMPANION_PROPERTIES[field] ?? [])]))];
+};
+
+const FIELD_KEY_PATTERN = /^[A-Za-z][A-Za-z0-9_]*$/;
+
+export const createTemplateId = () => `template-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * User-defined templates from localStorage (empty when nothing is stored or it is unreadable).
+ */
+export const loadCustomTemplates = (): AnalysisTemplate[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    return Array.isArray(stored) ? stored.map(t => ({ ...t, builtIn: false })) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveCustomTemplates = (templates: AnalysisTemplate[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(templates.filter(t => !t.builtIn)));
+};
+
+export const loadActiveTemplateId = () => localStorage.getItem(ACTIVE_STORAGE_KEY) || DEFAULT_TEMPLATE_ID;
+
+export const saveActiveTemplateId = (id: string) => {
+  localStorage.setItem(ACTIVE_STORAGE_KEY, id);
+};
+
+/**
+ * The template with `id`, falling back to the first (standard) one, e.g. after it was deleted.
+ */
+export const findTemplate = (templates: AnalysisTemplate[], id: string): AnalysisTemplate => {
+  return templates.find(template => template.id === id) ?? templates[0];
+};
+
+/**
+ * Problems that would stop a template from compiling into a prompt and schema,
+ * as user-facing messages. Empty when the template is usable.
+ */
+export const validateTemplate = (template: AnalysisTemplate, t: Translate = translateZh): string[] => {
+  const errors: string[] = [];
+  if (!template.name.trim()) errors.push(t('templates.error.name'));
+  if (getStandardFields(template).length === 0 && template.fields.length === 0) errors.push(t('templates.error.empty'));
+
+  const keys = new Set<string>();
+  template.fields.forEach((field, index) => {
+    const name = field.label.trim() || t('templates.fieldFallback', { index: index + 1 });
+    if (!field.label.trim()) errors.push(t('templates.error.label', { index: index + 1 }));
+    if (!FIELD_KEY_PATTERN.test(field.key)) {
+      errors.push(t('templates.error.key', { field: name }));
+    } else if (keys.has(field.key)) {
+      errors.push(t('templates.error.duplicateKey', { key: field.key }));
+    }
+    keys.add(field.key);
+    if (!field.instruction.trim()) errors.push(t('templates.error.instruction', { field: name }));
+    if (field.type === 'enum' && (field.options ?? []).filter(o => o.trim()).length < 2) {
+      errors.push(t('templates.error.options', { field: name }));
+    }
+  });
+  return errors;
+};
+
+/**
+ * Prompt lines asking for the template's fields inside the response's `custom` object.
+ */
+export const describeTemplateFields = (fields: TemplateField[]): string => {
+  return fields.map(field => {
+    const constraint = field.type === 'enum'
+      ? `，只能从以下选项中选择一个：${field.options?.join(' / ')}`
+      : field.type === 'number'
+        ? `，填写数字${field.unit ? ` (单位 ${field.unit})` : ''}`
+        : '';
+    return `   - ${field.key}: ${field.label}。${field.instruction}${constraint}`;
+  }).join('\n');
+};
+
+/**
+ * Turns the model's `custom` object into stored field values. Fields the model left out
+ * are skipped; numbers given as strings are parsed.
+ */
+export const readCustomFields = (fields: TemplateField[], raw: unknown): CustomFieldValue[] => {
+  if (!raw || typeof raw !== 'object') return [];
+  const values = raw as Record<string, unknown>;
+
+  return fields.flatMap(field => {
+    const rawValue = values[field.key];
+    if (rawValue === undefined || rawValue === null || rawValue === '') return [];
+
+    let value: string | number;
+    if (field.type === 'number') {
+      value = typeof rawValue === 'number' ? rawValue : parseFloat(String(rawValue));
+      if (!Number.isFinite(value)) return [];
+    } else {
+      value = String(rawValue);
+    }
+    return [{ key: field.key, label: field.label, type: field.type, value, unit: field.unit, options: field.options }];
+  });
+};
+
+/**
+ * A field value as text for cards and exports.
+ */
+export const formatCustomFieldValue = (field: CustomFieldValue): string => {
+  if (field.type === 'number' && typeof field.value === 'number') {
+    const rounded = Math.round(field.value * 100) / 100;
+    return field.unit ? `${rounded} ${field.unit}` : String(rounded);
+  }
+  return String(field.value);
+};
@@ -0,0 +1,145 @@
+import { AnalysisEdits, CameraMovement, Shot, ShotAnalysis, ShotSize } from "../types";
+import { createTranslator, Translate, translateZh } from "./i18n";
+
+// Controlled cinematography vocabulary. The model must answer with one of these codes, so
+// shot sizes and movements can be counted and filtered; anything finer goes in
+// `cinematographyNotes`. Display labels live in the locale files under vocab.*.
+
+export const SHOT_SIZES: ShotSize[] = ['ECU', 'CU', 'MCU', 'MS', 'MLS', 'LS', 'ELS'];
+
+export const CAMERA_MOVEMENTS: CameraMovement[] = ['static', 'pan', 'tilt', 'dolly', 'truck', 'crane', 'handheld', 'zoom', 'steadicam'];
+
+// Words that name each term in free text. When several match, the one mentioned first wins,
+// so "特写 → 中景" reads as a close-up and "大特写" is not taken for the 特写 inside it.
+const SHOT_SIZE_PATTERNS: [ShotSize, RegExp][] = [
+  ['ECU', /大特写|极特写|extreme close|big close|\b(?:ecu|xcu|bcu)\b/i],
+  ['MCU', /中近景|近景|medium close|\bmcu\b/i],
+  ['ELS', /大远景|极远景|extreme (?:long|wide)|\b(?:els|ews|xls)\b/i],
+  ['MLS', /中全景|七分身|medium (?:long|full|wide)|cowboy|american shot|\bmls\b/i],
+  ['CU', /特写|close[- ]?up|\bcu\b/i],
+  ['LS', /全景|远景|(?:long|wide|full|establishing) shot|\b(?:ls|ws)\b/i],
+  ['MS', /中景|半身|(?:medium|mid) shot|waist|\bms\b/i],
+];
+
+const CAMERA_MOVEMENT_PATTERNS: [CameraMovement, RegExp][] = [
+  ['steadicam', /斯坦尼康|稳定器|steadicam|gimbal/i],
+  ['handheld', /手持|hand-?held/i],
+  ['crane', /升降|摇臂|航拍|crane|jib|boom|drone|aerial/i],
+  ['tilt', /俯仰|上摇|下摇|纵摇|垂直摇|\btilt/i],
+  ['pan', /横摇|左摇|右摇|摇镜|水平摇|\bpan(?:s|ning|ned)?\b/i],
+  ['zoom', /变焦|zoom/i],
+  ['dolly', /推轨|推镜|推进|前推|拉镜|拉远|后拉|轨道|dolly|push[- ]?in|pull[- ]?(?:out|back)/i],
+  ['truck', /横移|侧移|移镜|跟拍|跟镜|truck|track/i],
+  ['static', /固定|静止|static|locked|fixed|tripod/i],
+];
+
+const matchTerm = <T extends string>(text: string, patterns: [T, RegExp][]): T | null => {
+  let best: { term: T; index: number } | null = null;
+  for (const [term, pattern] of patterns) {
+    const index = text.search(pattern);
+    if (index !== -1 && (!best || index < best.index)) best = { term, index };
+  }
+  return best?.term ?? null;
+};
+
+// Whether free text says more than the term it was mapped to, e.g. "特写 → 中景" but not "中景镜头"
+const carriesDetail = <T extends string>(text: string, term: T, patterns: [T, RegExp][]): boolean => {
+  const pattern = patterns.find(([candidate]) => candidate === term)?.[1];
+  const rest = pattern ? text.replace(pattern, '') : text;
+  return rest.replace(/镜头|shot|[\s\p{P}]/giu, '') !== '';
+};
+
+export const isShotSize = (value: string): value is ShotSize => (SHOT_SIZES as string[]).includes(value);
+
+export const isCameraMovement = (value: string): value is CameraMovement => (CAMERA_MOVEMENTS as string[]).includes(value);
+
+/**
+ * The vocabulary term a free-text shot size describes, e.g. "中景镜头" or "Medium shot" → MS.
+ */
+export const toShotSize = (text: string): ShotSize | null => {
+  return isShotSize(text) ? text : matchTerm(text, SHOT_SIZE_PATTERNS);
+};
+
+export const toCameraMovement = (text: string): CameraMovement | null => {
+  const trimmed = text.trim().toLowerCase();
+  return isCameraMovement(trimmed) ? trimmed : matchTerm(text, CAMERA_MOVEMENT_PATTERNS);
+};
+
+/**
+ * Display label for a stored shot size, e.g. "中景 (MS)". Free text that predates the
+ * vocabulary and could not be mapped is shown as is.
+ */
+export const formatShotSize = (value: string, t: Translate = translateZh): string => {
+  return isShotSize(value) ? `${t(`vocab.shotSize.${value}`)} (${value})` : value;
+};
+
+export const formatCameraMovement = (value: string, t: Translate = translateZh): string => {
+  return isCameraMovement(value) ? t(`vocab.cameraMovement.${value}`) : value;
+};
+
+const translateEn = createTranslator('en');
+
+/**
+ * The vocabularies as prompt text, e.g. "MS = 中景 / Medium shot".
+ */
+export const describeShotSizesForPrompt = (): string => {
+  return SHOT_SIZES.map(code => `${code} = ${translateZh(`vocab.shotSize.${code}`)} / ${translateEn(`vocab.shotSize.${code}`)}`).join('、');
+};
+
+export const describeCameraMovementsForPrompt = (): string => {
+  return CAMERA_MOVEMENTS.map(code => `${code} = ${translateZh(`vocab.cameraMovement.${code}`)} / ${translateEn(`vocab.cameraMovement.${code}`)}`).join('、');
+};
+
+/**
+ * Maps free-text shot size and movement onto the vocabulary. Wording that carried more than
+ * the bare term is kept in the notes; values that match nothing are left untouched.
+ */
+export const normalizeAnalysis = (analysis: ShotAnalysis): ShotAnalysis => {
+  const shotSize = toShotSize(analysis.shotSize ?? '');
+  const cameraMovement = toCameraMovement(analysis.cameraMovement ?? '');
+  if ((!shotSize || shotSize === analysis.shotSize) && (!cameraMovement || cameraMovement === analysis.cameraMovement)) {
+    return analysis;
+  }
+
+  const replaced = [
+    shotSize && shotSize !== analysis.shotSize && carriesDetail(analysis.shotSize, shotSize, SHOT_SIZE_PATTERNS) ? analysis.shotSize.trim() : '',
+    cameraMovement && cameraMovement !== analysis.cameraMovement && carriesDetail(analysis.cameraMovement, cameraMovement, CAMERA_MOVEMENT_PATTERNS) ? analysis.cameraMovement.trim() : '',
+  ].filter(Boolean);
+  const notes = [analysis.cinematographyNotes, ...replaced].filter(Boolean).join('；');
+  return {
+    ...analysis,
+    shotSize: shotSize ?? analysis.shotSize,
+    cameraMovement: cameraMovement ?? analysis.cameraMovement,
+    ...(notes ? { cinematographyNotes: notes } : {}),
+  };
+};
+
+const normalizeEdits = (edits: AnalysisEdits): AnalysisEdits => {
+  const shotSize = edits.shotSize !== undefined ? toShotSize(edits.shotSize) : null;
+  const cameraMovement = edits.cameraMovement !== undefined ? toCameraMovement(edits.cameraMovement) : null;
+  return {
+    ...edits,
+    ...(shotSize ? { shotSize } : {}),
+    ...(cameraMovement ? { cameraMovement } : {}),
+  };
+};
+
+/**
+ * Brings a saved shot's analysis and human edits onto the vocabulary.
+ */
+export const normalizeShotVocabulary = (shot: Shot): Shot => {
+  if (!shot.analysis) return shot;
+  const analysis = normalizeAnalysis(shot.analysis);
+  const analysisEdits = shot.analysisEdits && normalizeEdits(shot.analysisEdits);
+  // An edit that now matches the mapped AI value is no longer a correction
+  if (analysisEdits) {
+    (['shotSize', 'cameraMovement'] as const).forEach(field => {
+      if (analysisEdits[field] === analysis[field]) delete analysisEdits[field];
+    });
+  }
+  return {
+    ...shot,
+    analysis,
+    analysisEdits: analysisEdits && Object.keys(analysisEdits).length > 0 ? analysisEdits : undefined,
+  };
+};
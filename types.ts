@@ -1,10 +1,131 @@
+// Controlled vocabulary for shot size (景别), from extreme close-up to extreme long shot
+export type ShotSize = 'ECU' | 'CU' | 'MCU' | 'MS' | 'MLS' | 'LS' | 'ELS';
+
+// Controlled vocabulary for camera movement (镜头运动)
+export type CameraMovement = 'static' | 'pan' | 'tilt' | 'dolly' | 'truck' | 'crane' | 'handheld' | 'zoom' | 'steadicam';
+
 export interface ShotAnalysis {
   visualDescription: string;
-  shotSize: string;      // 景别
-  cameraMovement: string; // 镜头运动
+  shotSize: ShotSize | string; // A ShotSize; free text only in old analyses that could not be mapped
+  cameraMovement: CameraMovement | string; // A CameraMovement, same caveat
+  cameraMovementConfidence?: number; // 0 - 1, how sure the model is about the movement
+  cinematographyNotes?: string; // Nuance the vocabulary can't hold, e.g. a size change within the shot
   lightingAndColor: string; // 光影与色彩
   soundAtmosphere: string; // 听觉氛围
   aiPrompt: string; // The prompt for generating similar images
+  customFields?: CustomFieldValue[]; // Answers to the analysis template's extra fields
+  standardFields?: StandardFieldSetting[]; // The template's standard fields; absent means all of them, under the built-in labels
+}
+
+// The fields of the standard breakdown a template can leave out or relabel
+export type StandardAnalysisField = 'visualDescription' | 'shotSize' | 'cameraMovement' | 'lightingAndColor' | 'soundAtmosphere' | 'aiPrompt';
+
+// A standard field a template analyses
+export interface StandardFieldSetting {
+  field: StandardAnalysisField;
+  label?: string; // Replaces the built-in label on shot cards and in exports
+}
+
+export type TemplateFieldType = 'text' | 'enum' | 'number';
+
+// One extra field an analysis template asks the model for
+export interface TemplateField {
+  key: string; // Property name in the model's JSON response
+  label: string; // Shown on shot cards and in exports
+  type: TemplateFieldType;
+  instruction: string; // What the model should put in the field
+  options?: string[]; // Allowed values ('enum' only)
+  unit?: string; // Appended to the value when shown ('number' only), e.g. "mm"
+}
+
+// A named selection of the standard fields plus extra fields to analyse
+export interface AnalysisTemplate {
+  id: string;
+  name: string;
+  description?: string;
+  standardFields?: StandardFieldSetting[]; // Which standard fields to analyse and their labels; all of them when absent
+  fields: TemplateField[];
+  builtIn?: boolean; // Shipped with the app; not editable or deletable
+}
+
+// A template field's answer, stored with its definition so it still renders after the
+// template is edited, deleted, or the project is opened elsewhere
+export interface CustomFieldValue {
+  key: string;
+  label: string;
+  type: TemplateFieldType;
+  value: string | number;
+  unit?: string;
+  options?: string[]; // Allowed values ('enum' only), offered when the value is corrected
+}
+
+// Text fields of ShotAnalysis a person can correct, plus template fields as "custom.<key>"
+export type EditableAnalysisField = 'visualDescription' | 'shotSize' | 'cameraMovement' | 'cinematographyNotes' | 'lightingAndColor' | 'soundAtmosphere' | 'aiPrompt' | `custom.${string}`;
+
+// Human overrides, kept apart from the AI values they replace
+export type AnalysisEdits = Partial<Record<EditableAnalysisField, string>>;
+
+// Soundtrack measurements for one shot, computed locally with Web Audio
+export interface AudioFeatures {
+  rmsDb: number; // Mean RMS level in dBFS
+  loudnessLufs: number | null; // Integrated loudness (BS.1770), null when silent
+  silenceRatio: number; // 0 - 1 share of the shot below the silence threshold
+  content: 'silence' | 'speech' | 'music' | 'mixed' | 'ambient';
+  speechScore: number; // 0 - 1 heuristic
+  musicScore: number; // 0 - 1 heuristic
+  tempoBpm: number | null; // Only when a steady beat was found
+}
+
+// Dominant colours of a shot's frame, computed locally
+export interface ColorPalette {
+  swatches: { hex: string; share: number }[]; // Largest cluster first; share is 0 - 1 of the frame
+  luminance: number; // 0 - 1 mean relative luminance
+  saturation: number; // 0 - 1 mean HSL saturation
+}
+
+// One timed line from an imported subtitle file
+export interface SubtitleCue {
+  start: number; // Seconds
+  end: number; // Seconds
+  text: string; // May span several lines
+  speaker?: string; // From WebVTT <v> tags or the ASS Name column
+}
+
+// Locally measured facts handed to the analysis prompt as grounding
+export interface AnalysisContext {
+  audio?: AudioFeatures;
+  dialogue?: SubtitleCue[];
+}
+
+// A single frame of a shot
+export interface Keyframe {
+  time: number; // Time in seconds
+  image: string; // Base64 data URI
+}
+
+// User-adjustable options for turning a video into shots
+export interface ExtractionSettings {
+  startTime: number; // In point in seconds
+  endTime: number; // Out point in seconds
+  detectScenes: boolean; // Cut detection, or one shot per sample
+  cutThreshold: number; // Histogram distance that counts as a cut
+  dedupeFrames: boolean; // Fold near-identical consecutive samples into one shot
+  dedupeThreshold: number; // Max differing perceptual-hash bits (of 64) for a near-duplicate
+  samplingMode: 'interval' | 'count';
+  sampleInterval: number; // Seconds between samples ('interval' mode)
+  targetFrameCount: number; // Samples spread across the range ('count' mode)
+  maxHeight: number; // Output frame height in px
+  jpegQuality: number; // 0 - 1
+  maxFrames: number; // Hard cap on shots, i.e. on analysis calls
+}
+
+// A detected shot as produced by the uploader, before it becomes a full Shot
+export interface ExtractedShot {
+  time: number; // Shot start in seconds
+  duration: number; // Measured shot length in seconds
+  image: string; // Base64 data URI of the representative frame
+  keyframes: Keyframe[]; // Start / middle / end frames (fewer for very short shots)
+  mergedFrames: number; // Near-duplicate samples folded into this shot
 }
 
 export interface Shot {
@@ -12,18 +133,79 @@ export interface Shot {
   timestamp: number; // Time in seconds
   duration: number; // Duration of the shot in seconds
   originalImage: string; // Base64 data URI
+  keyframes?: Keyframe[]; // Start / middle / end frames, analyzed together
+  audioFeatures?: AudioFeatures; // Measured soundtrack, when the video has audio
+  dialogue?: SubtitleCue[]; // Subtitle cues overlapping the shot, when subtitles were imported
+  mergedFrames?: number; // Near-duplicate frames folded in during extraction
+  palette?: ColorPalette; // Dominant colours of originalImage
+  sceneId?: string; // Scene the shot belongs to, once scenes were detected
   
   // Status management
   status: 'pending' | 'analyzing' | 'completed' | 'failed';
   
   isGeneratingImage: boolean; // For Nano Banana generation
   
-  analysis?: ShotAnalysis;
+  analysis?: ShotAnalysis; // As returned by the model
+  analysisEdits?: AnalysisEdits; // Human corrections; take precedence over `analysis`
+  analysisCachedAt?: number; // Set when `analysis` was reused from the local cache: when it was first made
   generatedImage?: string; // Base64 data URI from Nano Banana
   error?: string; // Analysis error
   imageGenError?: string; // Image generation error
 }
 
+// Screenplay-style slugline and synopsis written by the model for a scene
+export interface SceneDescription {
+  setting: 'INT' | 'EXT' | 'INT/EXT';
+  location: string;
+  timeOfDay: string;
+  title: string; // A few words naming the scene
+  synopsis: string;
+}
+
+// A run of consecutive shots sharing `sceneId`; membership lives on the shots
+export interface Scene {
+  id: string;
+  description?: SceneDescription;
+  describedShotIds?: string[]; // Shots the description was written for; differs once boundaries move
+  isDescribing?: boolean;
+  error?: string; // Description error
+}
+
+// Whole-film critique written by the model from the per-shot analyses
+export interface FilmCritique {
+  visualStyle: string; // 视觉风格
+  colorArc: string; // 色彩弧线
+  pacing: string; // 节奏与剪辑
+  overall: string; // 总评
+  analyzedShots: number; // How many analyzed shots it was based on
+  createdAt: number; // ms since epoch
+}
+
+// Backends the AI tasks can be routed to
+export type AiProviderId = 'gemini' | 'openai' | 'mock';
+
+// Shot analysis, long-form writing (critique, scene headings) and concept image generation
+export type AiTask = 'analysis' | 'writing' | 'image';
+
+// How the Gemini key is sent to a proxy: the x-goog-api-key header like the official API,
+// or as an Authorization bearer token like OpenAI-style gateways
+export type GeminiAuthScheme = 'apiKey' | 'bearer';
+
+export interface AiSettings {
+  tasks: Record<AiTask, AiProviderId>;
+  gemini: {
+    apiKey: string;
+    baseUrl: string; // Proxy in front of the Gemini API; empty for the official endpoint
+    authScheme: GeminiAuthScheme; // Only used with a proxy; the official endpoint takes x-goog-api-key
+  };
+  openai: {
+    apiKey: string;
+    baseUrl: string; // Any OpenAI-compatible endpoint, e.g. https://api.openai.com/v1
+    chatModel: string; // Vision-capable chat model for analysis and writing
+    imageModel: string;
+  };
+}
+
 export enum AppState {
   IDLE = 'IDLE',
   PROCESSING_VIDEO = 'PROCESSING_VIDEO',